@@ -3,7 +3,8 @@
 // Root layout. Removed all deprecated imports
 // (syncService, cloudSync, initializeDatabase).
 // Init is handled by useAppInit in index.tsx.
-// Layout only handles foreground queue flush.
+// Layout only handles foreground queue flush
+// and the timer alarm monitor.
 // ============================================
 
 import { Stack } from 'expo-router';
@@ -11,8 +12,11 @@ import { useEffect } from 'react';
 import { AppState } from 'react-native';
 import * as Linking from 'expo-linking';
 import CustomHeader from './components/CustomHeader';
+import { TimersBadge } from './components/TimersBadge';
+import { AlarmBanner } from './components/AlarmBanner';
 import { initializeReports } from '../services/reports';
 import { flushOfflineQueue } from '../services/offlineQueue';
+import { startAlarmMonitor } from '../services/alarms';
 import { ThemeProvider } from '../contexts/ThemeContext';
 
 // Global deep link listener (logs only — actual handling is in index.tsx)
@@ -36,7 +40,13 @@ export default function Layout() {
       }
     });
 
-    return () => sub.remove();
+    // Rings for expired timers on every screen
+    const stopAlarms = startAlarmMonitor();
+
+    return () => {
+      sub.remove();
+      stopAlarms();
+    };
   }, []);
 
   return (
@@ -53,7 +63,12 @@ export default function Layout() {
 
         <Stack.Screen
           name="screens/WorkflowSelectScreen"
-          options={{ headerShown: true }}
+          options={{
+            headerShown: true,
+            header: ({ navigation }: any) => (
+              <CustomHeader canGoBack={navigation.canGoBack()} right={<TimersBadge />} />
+            ),
+          }}
         />
 
         <Stack.Screen
@@ -81,6 +96,16 @@ export default function Layout() {
           options={{ headerShown: true, title: 'Edit Workflow' }}
         />
 
+        <Stack.Screen
+          name="screens/WorkflowHistoryScreen"
+          options={{ headerShown: true, title: 'Version History' }}
+        />
+
+        <Stack.Screen
+          name="screens/BatchTimelineScreen"
+          options={{ headerShown: true, title: 'Batch Timeline' }}
+        />
+
         <Stack.Screen
           name="screens/ReportsScreen"
           options={{ headerShown: true, title: 'Reports' }}
@@ -95,7 +120,18 @@ export default function Layout() {
           name="screens/URLImportScreen"
           options={{ headerShown: true, title: 'Import from URL' }}
         />
+
+        <Stack.Screen
+          name="screens/SyncDiagnosticsScreen"
+          options={{ headerShown: true, title: 'Sync Diagnostics' }}
+        />
+
+        <Stack.Screen
+          name="screens/TimersScreen"
+          options={{ headerShown: true, title: 'Timers' }}
+        />
       </Stack>
+      <AlarmBanner />
     </ThemeProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+// ============================================
+// FILE: app/components/AlarmBanner.tsx
+// Floats over every screen while an alarm is
+// ringing. Tapping an alarm opens its batch;
+// Dismiss is what stops the escalation.
+// ============================================
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { getActiveAlarms, onAlarmsChanged, dismissAlarm, Alarm } from '../../services/alarms';
+import { useTheme } from '../../contexts/ThemeContext';
+
+const ICONS: Record<Alarm['type'], string> = {
+  timer: '⏰',
+  interval: '🔁',
+  series: '✅',
+};
+
+export function AlarmBanner() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const [alarms, setAlarms] = useState<Alarm[]>(getActiveAlarms());
+
+  useEffect(() => onAlarmsChanged(setAlarms), []);
+
+  if (alarms.length === 0) return null;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      {alarms.map(alarm => (
+        <View key={alarm.id} style={[styles.alarm, { backgroundColor: colors.error }]}>
+          <TouchableOpacity
+            style={styles.alarmBody}
+            onPress={() => router.push({ pathname: '/screens/StepScreen', params: { batchId: alarm.batchId } })}
+          >
+            <Text style={styles.alarmText} numberOfLines={2}>
+              {ICONS[alarm.type]} {alarm.announcement}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dismissButton} onPress={() => dismissAlarm(alarm.id)}>
+            <Text style={[styles.dismissText, { color: colors.error }]}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 50,
+    left: 12,
+    right: 12,
+    gap: 8,
+    zIndex: 10000,
+  },
+  alarm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 5,
+  },
+  alarmBody: {
+    flex: 1,
+  },
+  alarmText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  dismissButton: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -3,11 +3,12 @@
 // Enhanced with ref support for voice commands
 // ============================================
 
-import React, { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { Text, TouchableOpacity, View, StyleSheet } from 'react-native';
+import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { Text, TouchableOpacity, View, StyleSheet, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
 import { 
-  getBatch, startTimer, stopTimer, getTimerStatus, 
-  Timer 
+  getBatch, startTimer, stopTimer, pauseTimer, resumeTimer, extendTimer, acknowledgeTimer, getTimerStatus, 
+  describeRepetition, Timer, StepIntervalTimer 
 } from '../../services/database';
 import { useTheme } from '../../contexts/ThemeContext';
 
@@ -21,13 +22,18 @@ interface BatchTimerProps {
   batchId: string;
   stepId: string;
   durationMinutes: number;
+  /** Repeats the timer, e.g. fold every 30 minutes, 4 times. */
+  interval?: StepIntervalTimer;
 }
 
-const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId, durationMinutes }, ref) => {
+const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId, durationMinutes, interval }, ref) => {
   const { colors } = useTheme();
   const [currentTimer, setCurrentTimer] = useState<Timer | null>(null);
   const [timeDisplay, setTimeDisplay] = useState('');
   const [isExpired, setIsExpired] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Last round alerted, so each one that falls due alerts once
+  const alertedRef = useRef<{ timerId: string; repetition: number } | null>(null);
 
   useEffect(() => {
     const updateTimer = () => {
@@ -37,13 +43,34 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
       const timer = batch.activeTimers.find(t => t.stepId === stepId);
       setCurrentTimer(timer || null);
 
+      // A round that falls due waits for someone to answer it
+      const repetition = timer?.repetition ?? 1;
+      const alerted = alertedRef.current;
+      if (timer?.interval && !timer.acknowledged && getTimerStatus(timer).isExpired
+        && (alerted?.timerId !== timer.id || alerted.repetition !== repetition)) {
+        alertedRef.current = { timerId: timer.id, repetition };
+        const label = timer.interval.label || 'Round';
+        const last = repetition >= timer.interval.repetitions;
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+          `⏰ ${label} ${repetition} of ${timer.interval.repetitions}`,
+          last ? `Time for the last ${label.toLowerCase()}.` : `Time for ${label.toLowerCase()} ${repetition}.`,
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Done', onPress: () => acknowledgeTimer(batchId, timer.id) },
+          ]
+        );
+      }
+
       if (timer) {
         const status = getTimerStatus(timer);
         setTimeDisplay(formatTime(status.remainingSeconds));
         setIsExpired(status.isExpired);
+        setIsPaused(status.isPaused);
       } else {
         setTimeDisplay(formatTime(durationMinutes * 60));
         setIsExpired(false);
+        setIsPaused(false);
       }
     };
 
@@ -53,20 +80,28 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
   }, [batchId, stepId, durationMinutes]);
 
   const handleStart = async () => {
-    await startTimer(batchId, stepId, durationMinutes);
+    await startTimer(batchId, stepId, durationMinutes, interval);
   };
 
-  const handleStop = async () => {
+  const handlePause = async () => {
     if (currentTimer) {
-      await stopTimer(batchId, currentTimer.id);
+      await pauseTimer(batchId, currentTimer.id);
+    }
+  };
+
+  const handleResume = async () => {
+    if (currentTimer) {
+      await resumeTimer(batchId, currentTimer.id);
     }
   };
 
   const handleStartPause = async () => {
-    if (isRunning) {
-      await handleStop();
-    } else {
+    if (!currentTimer) {
       await handleStart();
+    } else if (isPaused) {
+      await handleResume();
+    } else {
+      await handlePause();
     }
   };
 
@@ -76,13 +111,16 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
     }
   };
 
+  const handleAcknowledge = async () => {
+    if (currentTimer) {
+      await acknowledgeTimer(batchId, currentTimer.id);
+    }
+  };
+
   const handleAddMinute = async () => {
-    // Stop current timer if running
     if (currentTimer) {
-      await stopTimer(batchId, currentTimer.id);
+      await extendTimer(batchId, currentTimer.id, 60);
     }
-    // Start new timer with extra minute
-    await startTimer(batchId, stepId, durationMinutes + 1);
   };
 
   const formatTime = (seconds: number): string => {
@@ -93,9 +131,10 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const isRunning = currentTimer !== null;
+  const isRunning = currentTimer !== null && !isPaused;
+  // Measured against the timer's own duration so extensions refill the bar
   const progress = currentTimer 
-    ? Math.max(0, Math.min(100, (getTimerStatus(currentTimer).remainingSeconds / (durationMinutes * 60)) * 100))
+    ? Math.max(0, Math.min(100, (getTimerStatus(currentTimer).remainingSeconds / currentTimer.duration) * 100))
     : 100;
 
   // Expose methods to parent component via ref for voice commands
@@ -117,8 +156,17 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
           {timeDisplay}
         </Text>
         <Text style={[styles.timerLabel, { color: colors.textSecondary }]}>
-          {isExpired ? '⚠️ Expired!' : isRunning ? 'Running...' : 'Ready'}
+          {isExpired
+            ? currentTimer?.acknowledged
+              ? interval ? '✓ Series complete' : 'Expired'
+              : '⚠️ Expired — waiting for acknowledgement'
+            : isPaused ? 'Paused' : isRunning ? 'Running...' : 'Ready'}
         </Text>
+        {interval && (
+          <Text style={[styles.repetitionText, { color: colors.text }]}>
+            {currentTimer ? describeRepetition(currentTimer) : `${interval.repetitions} × ${interval.intervalMinutes} min`}
+          </Text>
+        )}
       </View>
 
       {/* Progress bar */}
@@ -128,7 +176,7 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
             styles.progressBar, 
             { 
               width: `${progress}%`,
-              backgroundColor: isExpired ? colors.error : isRunning ? colors.primary : colors.success
+              backgroundColor: isExpired ? colors.error : isPaused ? colors.warning : isRunning ? colors.primary : colors.success
             }
           ]} 
         />
@@ -136,17 +184,32 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
 
       {/* Controls */}
       <View style={styles.controls}>
-        {!isRunning ? (
+        {!currentTimer ? (
           <TouchableOpacity 
             onPress={handleStart}
             style={[styles.button, styles.startButton, { backgroundColor: colors.success }]}
           >
             <Text style={styles.buttonText}>▶ Start</Text>
           </TouchableOpacity>
+        ) : isExpired && !currentTimer.acknowledged ? (
+          <TouchableOpacity 
+            onPress={handleAcknowledge}
+            style={[styles.button, styles.startButton, { backgroundColor: colors.success }]}
+          >
+            <Text style={styles.buttonText}>✓ Acknowledge</Text>
+          </TouchableOpacity>
+        ) : isPaused ? (
+          <TouchableOpacity 
+            onPress={handleResume}
+            style={[styles.button, styles.startButton, { backgroundColor: colors.success }]}
+          >
+            <Text style={styles.buttonText}>▶ Resume</Text>
+          </TouchableOpacity>
         ) : (
           <TouchableOpacity 
-            onPress={handleStop}
-            style={[styles.button, styles.pauseButton, { backgroundColor: colors.warning }]}
+            onPress={handlePause}
+            style={[styles.button, styles.pauseButton, { backgroundColor: colors.warning }, isExpired && { opacity: 0.5 }]}
+            disabled={isExpired}
           >
             <Text style={styles.buttonText}>⏸ Pause</Text>
           </TouchableOpacity>
@@ -154,8 +217,8 @@ const BatchTimer = forwardRef<BatchTimerRef, BatchTimerProps>(({ batchId, stepId
 
         <TouchableOpacity 
           onPress={handleAddMinute}
-          style={[styles.button, styles.addMinuteButton, { backgroundColor: colors.primary }]}
-          disabled={isRunning}
+          style={[styles.button, styles.addMinuteButton, { backgroundColor: colors.primary }, !currentTimer && { opacity: 0.5 }]}
+          disabled={!currentTimer}
         >
           <Text style={styles.buttonText}>+1 Min</Text>
         </TouchableOpacity>
@@ -189,6 +252,11 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '600',
   },
+  repetitionText: {
+    fontSize: 16,
+    marginTop: 4,
+    fontWeight: '700',
+  },
   progressBarContainer: {
     height: 8,
     borderRadius: 4,
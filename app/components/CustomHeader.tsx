@@ -5,7 +5,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 
 const logo = require('../../assets/images/batch-maker-alpha.png');
 
-export default function CustomHeader({ canGoBack }: { canGoBack?: boolean }) {
+export default function CustomHeader({ canGoBack, right }: { canGoBack?: boolean; right?: React.ReactNode }) {
   const router = useRouter();
   const navigation = useNavigation();
   const { colors } = useTheme();
@@ -35,6 +35,8 @@ export default function CustomHeader({ canGoBack }: { canGoBack?: boolean }) {
         style={styles.logo}
         resizeMode="contain"
       />
+
+      {right && <View style={styles.right}>{right}</View>}
     </View>
   );
 }
@@ -55,6 +57,13 @@ const styles = StyleSheet.create({
     padding: 8,
     zIndex: 10,
   },
+  right: {
+    position: 'absolute',
+    paddingTop: 50,
+    right: 8,
+    padding: 8,
+    zIndex: 10,
+  },
   backArrow: {
     fontSize: 28,
     paddingBottom: 14,
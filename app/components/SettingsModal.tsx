@@ -1,17 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Modal, View, Text, TouchableOpacity, StyleSheet,
-  ScrollView, Alert, TextInput
+  ScrollView, Alert, TextInput, Switch
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
 import {
   getWorkflows, setWorkflows,
-  getDeviceName, setDeviceName, Workflow
+  getDeviceName, setDeviceName, Workflow, initializeDatabase,
+  getTrash, restoreFromTrash, purgeFromTrash, getTrashRetentionDays, setTrashRetentionDays,
+  TrashItem
 } from '../../services/database';
+import { initializeReports } from '../../services/reports';
+import { structureChecklist } from '../../utils/ingredients';
+import { searchWorkflows } from '../../utils/workflowSearch';
+import { isDemoMode, setBackendMode } from '../../services/backend';
+import { getAlarmSettings, setAlarmSettings, DEFAULT_ALARM_SETTINGS, AlarmSettings } from '../../services/alarms';
 import * as DocumentPicker from 'expo-document-picker';
 import * as XLSX from 'xlsx';
 
+const RETENTION_OPTIONS = [7, 30, 90];
+const VOLUME_OPTIONS = [0.25, 0.5, 0.75, 1];
+const ESCALATION_OPTIONS = [30, 60, 120, 0];
+
+/** 22 → "10 PM" */
+const formatHour = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+
 interface SettingsModalProps {
   visible: boolean;
   onClose: () => void;
@@ -26,18 +40,85 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
   const [showRemoveModal, setShowRemoveModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [selectedForRemoval, setSelectedForRemoval] = useState<Set<string>>(new Set());
+  const [removeQuery, setRemoveQuery] = useState('');
+  const [demoMode, setDemoMode] = useState(isDemoMode());
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [alarmSettings, setAlarmSettingsState] = useState<AlarmSettings>(DEFAULT_ALARM_SETTINGS);
 
-  useEffect(() => {
-    if (visible) {
-      loadData();
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await getTrash());
+    } catch {
+      // Offline — the trash section just stays empty
+      setTrash([]);
     }
-  }, [visible]);
+  }, []);
 
-  const loadData = async () => {
+  const loadData = useCallback(async () => {
     const wfs = await getWorkflows();
     setWorkflowsList(wfs);
     const name = await getDeviceName();
     setDeviceNameState(name);
+    setRetentionDays(await getTrashRetentionDays());
+    setAlarmSettingsState(await getAlarmSettings());
+    loadTrash();
+  }, [loadTrash]);
+
+  useEffect(() => {
+    if (visible) {
+      loadData();
+    }
+  }, [visible, loadData]);
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    await setTrashRetentionDays(days);
+  };
+
+  const updateAlarmSettings = async (changes: Partial<AlarmSettings>) => {
+    const next = { ...alarmSettings, ...changes };
+    setAlarmSettingsState(next);
+    await setAlarmSettings(next);
+  };
+
+  const shiftQuietHour = (field: 'startHour' | 'endHour', delta: number) => {
+    const hour = (alarmSettings.quietHours[field] + delta + 24) % 24;
+    updateAlarmSettings({ quietHours: { ...alarmSettings.quietHours, [field]: hour } });
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash(item);
+      await loadData();
+      onWorkflowsUpdated();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      Alert.alert('Error', `Failed to restore ${item.name}`);
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    Alert.alert(
+      'Delete Forever?',
+      `${item.name} will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeFromTrash(item);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error purging item:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : `Failed to delete ${item.name}`);
+            }
+          }
+        }
+      ]
+    );
   };
 
   const handleDeviceNameSave = async () => {
@@ -47,6 +128,25 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
     }
   };
 
+  const handleDemoModeToggle = async (enabled: boolean) => {
+    try {
+      await setBackendMode(enabled ? 'memory' : 'supabase');
+      setDemoMode(enabled);
+      await Promise.all([initializeDatabase(), initializeReports()]);
+      await loadData();
+      onWorkflowsUpdated();
+      Alert.alert(
+        enabled ? 'Demo Kitchen On' : 'Demo Kitchen Off',
+        enabled
+          ? 'Using sample workflows stored on this device only. Nothing is synced.'
+          : 'Reconnected to your account data.'
+      );
+    } catch (error) {
+      console.error('Error switching backend:', error);
+      Alert.alert('Error', 'Could not switch data source');
+    }
+  };
+
   const handleImportExcel = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -110,7 +210,7 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
           const targetTemp = firstRow['Target Temp (°C)'];
           const visualCues = firstRow['Visual Cues'] || '';
           
-          let description = String(instructions).trim();
+          const description = String(instructions).trim();
           
           const ingredients: string[] = [];
           stepRows.forEach((row) => {
@@ -126,27 +226,15 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
             }
           });
 
-          if (targetTemp) {
-            description += `\n\nTarget Temperature: ${targetTemp}°C`;
-          }
-
-          if (visualCues) {
-            description += `\n\nVisual Cues: ${visualCues}`;
-          }
-
-          if (ingredients.length > 0) {
-            if (description) {
-              description += '\n\n';
-            }
-            description += '📋 Checklist:\n' + ingredients.map(item => `☐ ${item}`).join('\n');
-          }
-
           steps.push({
             id: `${workflowId}_step_${stepNum}`,
             title: instructions || `Step ${stepNum}`,
             description: description.trim(),
             timerMinutes: timerStr ? parseInt(String(timerStr)) : undefined,
             completed: false,
+            ...structureChecklist(ingredients),
+            targetTemp: targetTemp ? `${targetTemp}°C` : undefined,
+            visualCues: visualCues ? String(visualCues).trim() : undefined,
           });
         });
 
@@ -201,7 +289,7 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
 
     Alert.alert(
       'Confirm Removal',
-      `Remove ${selectedForRemoval.size} workflow(s)?`,
+      `Move ${selectedForRemoval.size} workflow(s) to the trash? You can restore them for ${retentionDays} days.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -214,10 +302,11 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
             await setWorkflows(updatedWorkflows);
             
             setSelectedForRemoval(new Set());
+            setRemoveQuery('');
             setShowRemoveModal(false);
             loadData();
             onWorkflowsUpdated();
-            Alert.alert('Success', 'Workflows removed!');
+            Alert.alert('Success', 'Workflows moved to trash');
           }
         }
       ]
@@ -291,6 +380,20 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
               </View>
             </View>
 
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Demo Kitchen</Text>
+              <View style={styles.switchRow}>
+                <Text style={[styles.switchLabel, { color: colors.textSecondary }]}>
+                  Run with sample data and no account. Changes are lost when the app closes.
+                </Text>
+                <Switch
+                  value={demoMode}
+                  onValueChange={handleDemoModeToggle}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+            </View>
+
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, { color: colors.text }]}>Workflows</Text>
               
@@ -318,6 +421,158 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
                 <Text style={styles.actionButtonText}>Remove Workflows</Text>
               </TouchableOpacity>
             </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Sync</Text>
+
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.primary }]}
+                onPress={() => {
+                  router.push('/screens/SyncDiagnosticsScreen');
+                  onClose();
+                }}
+              >
+                <Text style={styles.actionButtonText}>Sync Diagnostics</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Alarms</Text>
+              <Text style={[styles.switchLabel, { color: colors.textSecondary, marginBottom: 8 }]}>
+                Volume
+              </Text>
+              <View style={[styles.themeOptions, { marginBottom: 16 }]}>
+                {VOLUME_OPTIONS.map(volume => (
+                  <TouchableOpacity
+                    key={volume}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      alarmSettings.volume === volume && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => updateAlarmSettings({ volume })}
+                  >
+                    <Text style={[styles.themeButtonText, { color: alarmSettings.volume === volume ? 'white' : colors.text }]}>
+                      {volume * 100}%
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={[styles.switchLabel, { color: colors.textSecondary, marginBottom: 8 }]}>
+                Get louder if not dismissed after
+              </Text>
+              <View style={[styles.themeOptions, { marginBottom: 16 }]}>
+                {ESCALATION_OPTIONS.map(seconds => (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      alarmSettings.escalateAfterSeconds === seconds && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => updateAlarmSettings({ escalateAfterSeconds: seconds })}
+                  >
+                    <Text style={[styles.themeButtonText, { color: alarmSettings.escalateAfterSeconds === seconds ? 'white' : colors.text }]}>
+                      {seconds === 0 ? 'Never' : seconds < 60 ? `${seconds}s` : `${seconds / 60}m`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={[styles.switchRow, { marginBottom: 16 }]}>
+                <Text style={[styles.switchLabel, { color: colors.textSecondary }]}>
+                  Announce ignored alarms out loud (&quot;Sourdough: shaping timer done&quot;)
+                </Text>
+                <Switch
+                  value={alarmSettings.spokenAnnouncements}
+                  onValueChange={spokenAnnouncements => updateAlarmSettings({ spokenAnnouncements })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+
+              <View style={[styles.switchRow, { marginBottom: 8 }]}>
+                <Text style={[styles.switchLabel, { color: colors.textSecondary }]}>
+                  Quiet hours — no sound or speech, alarms still show on screen
+                </Text>
+                <Switch
+                  value={alarmSettings.quietHours.enabled}
+                  onValueChange={enabled => updateAlarmSettings({ quietHours: { ...alarmSettings.quietHours, enabled } })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+              {alarmSettings.quietHours.enabled && (
+                <View style={styles.themeOptions}>
+                  {(['startHour', 'endHour'] as const).map(field => (
+                    <View key={field} style={[styles.quietHour, { borderColor: colors.border }]}>
+                      <TouchableOpacity onPress={() => shiftQuietHour(field, -1)}>
+                        <Text style={[styles.quietHourStep, { color: colors.primary }]}>−</Text>
+                      </TouchableOpacity>
+                      <Text style={[styles.themeButtonText, { color: colors.text }]}>
+                        {field === 'startHour' ? 'From' : 'Until'} {formatHour(alarmSettings.quietHours[field])}
+                      </Text>
+                      <TouchableOpacity onPress={() => shiftQuietHour(field, 1)}>
+                        <Text style={[styles.quietHourStep, { color: colors.primary }]}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Trash</Text>
+              <Text style={[styles.switchLabel, { color: colors.textSecondary, marginBottom: 8 }]}>
+                Keep deleted items for
+              </Text>
+              <View style={[styles.themeOptions, { marginBottom: 16 }]}>
+                {RETENTION_OPTIONS.map(days => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      retentionDays === days && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => handleRetentionChange(days)}
+                  >
+                    <Text style={[styles.themeButtonText, { color: retentionDays === days ? 'white' : colors.text }]}>
+                      {days} days
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {trash.length === 0 ? (
+                <Text style={[styles.switchLabel, { color: colors.textSecondary }]}>Trash is empty</Text>
+              ) : (
+                trash.map(item => (
+                  <View key={`${item.kind}_${item.id}`} style={[styles.trashItem, { borderColor: colors.border }]}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.workflowName, { color: colors.text }]}>
+                        {item.kind === 'workflow' ? '📋' : '🍞'} {item.name}
+                      </Text>
+                      <Text style={[styles.workflowSteps, { color: colors.textSecondary }]}>
+                        Deleted {new Date(item.deletedAt).toLocaleDateString()}
+                        {item.deletedByName ? ` by ${item.deletedByName}` : ''}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.trashButton, { backgroundColor: colors.primary }]}
+                      onPress={() => handleRestore(item)}
+                    >
+                      <Text style={styles.trashButtonText}>Restore</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.trashButton, { backgroundColor: colors.error }]}
+                      onPress={() => handlePurge(item)}
+                    >
+                      <Text style={styles.trashButtonText}>Purge</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </View>
           </ScrollView>
         </View>
       </View>
@@ -417,10 +672,18 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
               <Text style={[styles.removeModalTitle, { color: colors.text }]}>
                 Select Workflows to Remove
               </Text>
+              <TextInput
+                style={[styles.removeSearchInput, { color: colors.text, borderColor: colors.border }]}
+                value={removeQuery}
+                onChangeText={setRemoveQuery}
+                placeholder="Search names, tags, ingredients..."
+                placeholderTextColor={colors.textSecondary}
+                autoCorrect={false}
+              />
             </View>
 
             <ScrollView style={styles.removeScrollView}>
-              {workflows.map((workflow: Workflow) => (
+              {searchWorkflows(workflows, { query: removeQuery }).map((workflow: Workflow) => (
                 <TouchableOpacity
                   key={workflow.id}
                   style={[styles.workflowItem, { borderBottomColor: colors.border }]}
@@ -445,7 +708,7 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
                         {workflow.name}
                       </Text>
                       <Text style={[styles.workflowSteps, { color: colors.textSecondary }]}>
-                        {workflow.steps.length} steps
+                        {workflow.category ? `${workflow.category} · ` : ''}{workflow.steps.length} steps
                       </Text>
                     </View>
                   </View>
@@ -458,6 +721,7 @@ export default function SettingsModal({ visible, onClose, onWorkflowsUpdated }:
                 style={[styles.removeModalButton, { backgroundColor: colors.surfaceVariant }]}
                 onPress={() => {
                   setSelectedForRemoval(new Set());
+                  setRemoveQuery('');
                   setShowRemoveModal(false);
                 }}
               >
@@ -503,6 +767,13 @@ const styles = StyleSheet.create({
   themeOptions: { flexDirection: 'row', gap: 12 },
   themeButton: { flex: 1, padding: 12, borderRadius: 8, borderWidth: 2, alignItems: 'center' },
   themeButtonText: { fontSize: 16, fontWeight: '600' },
+  switchRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  switchLabel: { flex: 1, fontSize: 14 },
+  quietHour: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: 8, borderRadius: 8, borderWidth: 2 },
+  quietHourStep: { fontSize: 22, fontWeight: '700', paddingHorizontal: 8 },
+  trashItem: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 12, borderBottomWidth: 1 },
+  trashButton: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
+  trashButtonText: { color: 'white', fontSize: 14, fontWeight: '600' },
   actionButton: { padding: 16, borderRadius: 12, alignItems: 'center', marginBottom: 12 },
   actionButtonText: { color: 'white', fontSize: 16, fontWeight: '600' },
   importModalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 20 },
@@ -519,6 +790,7 @@ const styles = StyleSheet.create({
   removeModalContent: { width: '100%', maxHeight: '80%', borderRadius: 16, overflow: 'hidden' },
   removeModalHeader: { padding: 20, borderBottomWidth: 1 },
   removeModalTitle: { fontSize: 20, fontWeight: 'bold' },
+  removeSearchInput: { borderWidth: 1, borderRadius: 8, paddingHorizontal: 12, paddingVertical: 8, fontSize: 15, marginTop: 12 },
   removeScrollView: { maxHeight: 400 },
   workflowItem: { padding: 16, borderBottomWidth: 1 },
   workflowItemContent: { flexDirection: 'row', alignItems: 'center' },
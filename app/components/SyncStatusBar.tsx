@@ -1,8 +1,9 @@
 // ============================================
 // FILE: app/components/SyncStatusBar.tsx
 // Displays a slim banner when the app is
-// offline, checking, or has pending writes.
-// Fades out automatically when all clear.
+// offline, checking, or has pending writes
+// or unsynced reports. Fades out
+// automatically when all clear.
 // ============================================
 
 import React, { useEffect, useRef } from 'react';
@@ -14,13 +15,14 @@ interface Props {
 }
 
 export function SyncStatusBar({ connection }: Props) {
-  const { state, pendingCount, manualRetry } = connection;
+  const { state, pendingCount, unsyncedReports, manualRetry } = connection;
 
   // Only show when something needs attention
   const visible =
     state === 'offline' ||
     state === 'checking' ||
-    pendingCount > 0;
+    pendingCount > 0 ||
+    unsyncedReports > 0;
 
   const opacity = useRef(new Animated.Value(visible ? 1 : 0)).current;
 
@@ -37,20 +39,26 @@ export function SyncStatusBar({ connection }: Props) {
   const bgColor =
     state === 'offline'  ? '#ef4444' :
     state === 'checking' ? '#f59e0b' :
-    pendingCount > 0     ? '#f59e0b' :
+    pendingCount > 0 || unsyncedReports > 0 ? '#f59e0b' :
                            '#10b981';
 
+  const reportsNote = unsyncedReports > 0
+    ? `${unsyncedReports} report${unsyncedReports !== 1 ? 's' : ''} not synced`
+    : '';
+
   const message =
     state === 'offline'
-      ? '● No internet connection'
+      ? `● No internet connection${reportsNote ? ` · ${reportsNote}` : ''}`
       : state === 'checking'
       ? '○ Connecting…'
-      : `↑ ${pendingCount} change${pendingCount !== 1 ? 's' : ''} pending sync`;
+      : pendingCount > 0
+      ? `↑ ${pendingCount} change${pendingCount !== 1 ? 's' : ''} pending sync${reportsNote ? ` · ${reportsNote}` : ''}`
+      : `↑ ${reportsNote}`;
 
   return (
     <Animated.View style={[styles.bar, { backgroundColor: bgColor, opacity }]}>
       <Text style={styles.text}>{message}</Text>
-      {state === 'offline' && (
+      {(state === 'offline' || unsyncedReports > 0) && state !== 'checking' && (
         <TouchableOpacity onPress={manualRetry} style={styles.retryBtn}>
           <Text style={styles.retryText}>Retry</Text>
         </TouchableOpacity>
@@ -0,0 +1,70 @@
+// ============================================
+// FILE: app/components/TimersBadge.tsx
+// Header button showing how many timers are
+// running (not yet acknowledged) across all
+// batches. Turns red when any has expired.
+// Opens the timers dashboard.
+// ============================================
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { getFloorTimers, getTimerStatus, subscribeToDataChanges, Timer } from '../../services/database';
+import { useTheme } from '../../contexts/ThemeContext';
+
+export function TimersBadge() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  // Acknowledged timers (and finished series) are done with, however long they linger
+  const [running, setRunning] = useState<Timer[]>([]);
+  const [expired, setExpired] = useState(0);
+
+  useEffect(() => {
+    const load = () => setRunning(getFloorTimers().filter(t => !t.timer.acknowledged).map(t => t.timer));
+    load();
+    return subscribeToDataChanges(load);
+  }, []);
+
+  // Only expiry needs a clock
+  useEffect(() => {
+    const tick = () => setExpired(running.filter(t => getTimerStatus(t).isExpired).length);
+    tick();
+    if (running.length === 0) return;
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return (
+    <TouchableOpacity onPress={() => router.push('/screens/TimersScreen')} activeOpacity={0.6}>
+      <Text style={styles.icon}>⏱</Text>
+      {running.length > 0 && (
+        <View style={[styles.badge, { backgroundColor: expired > 0 ? colors.error : colors.primary }]}>
+          <Text style={styles.badgeText}>{running.length}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  icon: {
+    fontSize: 26,
+    paddingBottom: 14,
+  },
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -10,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
@@ -22,6 +22,7 @@ import { supabase } from "../lib/supabase";
 import { SyncStatusBar } from "../app/components/SyncStatusBar";
 import { useConnectionStatus } from "../hooks/useConnectionStatus";
 import { useAppInit } from "../hooks/useAppInit";
+import { onTimerNotificationTap } from "../services/timerNotifications";
 
 export default function HomeScreen() {
   const router = useRouter();
@@ -74,6 +75,16 @@ export default function HomeScreen() {
     return () => sub.remove();
   }, []);
 
+  // ── Timer notification taps → that batch's steps ──────────────────────────
+  // Waits for init so the batch is in the cache when StepScreen opens
+  const appReady = initState === "online" || initState === "offline";
+  useEffect(() => {
+    if (!appReady) return;
+    return onTimerNotificationTap(batchId => {
+      router.push({ pathname: "/screens/StepScreen", params: { batchId } });
+    });
+  }, [appReady, router]);
+
   // ── Auth actions ───────────────────────────────────────────────────────────
   const signInWithGoogle = async () => {
     try {
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  getBatch,
+  getBatchTimeline,
+  getWorkflowForBatch,
+  subscribeToDataChanges,
+  Batch,
+  BatchEvent,
+  BatchEventType,
+} from '../../services/database';
+
+const EVENT_LABELS: Record<BatchEventType, { icon: string; label: string }> = {
+  batch_created: { icon: '🆕', label: 'Batch created' },
+  status_changed: { icon: '🔁', label: 'Status' },
+  step_started: { icon: '▶️', label: 'Step started' },
+  step_completed: { icon: '✅', label: 'Step completed' },
+  checklist_checked: { icon: '☑️', label: 'Checked' },
+  timer_started: { icon: '⏱️', label: 'Timer started' },
+  timer_stopped: { icon: '⏹️', label: 'Timer stopped' },
+  timer_acknowledged: { icon: '🔔', label: 'Timer acknowledged' },
+  timer_paused: { icon: '⏸️', label: 'Timer paused' },
+  timer_resumed: { icon: '⏯️', label: 'Timer resumed' },
+  timer_extended: { icon: '➕', label: 'Timer extended' },
+  claimed: { icon: '🙋', label: 'Claimed' },
+  released: { icon: '👋', label: 'Released' },
+  note_added: { icon: '📝', label: 'Note' },
+  component_started: { icon: '🧁', label: 'Sub-recipe started' },
+  deleted: { icon: '🗑️', label: 'Moved to trash' },
+  restored: { icon: '♻️', label: 'Restored from trash' },
+  merge_conflict: { icon: '⚠️', label: 'Sync conflict' },
+  retard_started: { icon: '❄️', label: 'Into retarder' },
+  retard_ended: { icon: '🌅', label: 'Out of retarder' },
+};
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/** How long each step_completed event took, measured from that step's latest start. */
+function stepDurations(events: BatchEvent[]): Map<string, number> {
+  const durations = new Map<string, number>();
+  const startedAt = new Map<string, number>();
+  for (const event of events) {
+    if (!event.stepId) continue;
+    if (event.type === 'step_started') startedAt.set(event.stepId, event.at);
+    if (event.type === 'step_completed' && startedAt.has(event.stepId)) {
+      durations.set(event.id, event.at - startedAt.get(event.stepId)!);
+    }
+  }
+  return durations;
+}
+
+export default function BatchTimelineScreen() {
+  const { colors } = useTheme();
+  const { batchId } = useLocalSearchParams<{ batchId: string }>();
+
+  const [batch, setBatch] = useState<Batch | undefined>(undefined);
+  const [events, setEvents] = useState<BatchEvent[]>([]);
+  const [stepTitles, setStepTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadTimeline = useCallback(async () => {
+    if (!batchId) return;
+    const b = getBatch(batchId);
+    setBatch(b);
+    if (b) {
+      const workflow = await getWorkflowForBatch(b);
+      setStepTitles(Object.fromEntries((workflow?.steps ?? []).map(step => [step.id, step.title])));
+    }
+    setEvents(await getBatchTimeline(batchId));
+    setLoading(false);
+  }, [batchId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  // New events land alongside batch updates, so refresh on those
+  useEffect(() => {
+    if (!batchId) return;
+    return subscribeToDataChanges(({ table, id }) => {
+      if (table === 'batches' && (!id || id === batchId)) loadTimeline();
+    });
+  }, [batchId, loadTimeline]);
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.emptyText, { color: colors.text }]}>Loading...</Text>
+      </View>
+    );
+  }
+
+  const durations = stepDurations(events);
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      {batch && (
+        <View style={styles.header}>
+          <Text style={[styles.batchName, { color: colors.text }]}>{batch.name}</Text>
+          <Text style={[styles.batchMeta, { color: colors.textSecondary }]}>
+            {events.length} events · {batch.status.replace('_', ' ')}
+          </Text>
+        </View>
+      )}
+
+      {events.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            Nothing recorded for this batch yet
+          </Text>
+        </View>
+      ) : (
+        events.map((event, index) => {
+          const { icon, label } = EVENT_LABELS[event.type] ?? { icon: '•', label: event.type };
+          const stepTitle = event.stepId ? stepTitles[event.stepId] : undefined;
+          const duration = durations.get(event.id);
+          const isLast = index === events.length - 1;
+
+          return (
+            <View key={event.id} style={styles.eventRow}>
+              <View style={styles.rail}>
+                <Text style={styles.eventIcon}>{icon}</Text>
+                {!isLast && <View style={[styles.railLine, { backgroundColor: colors.border }]} />}
+              </View>
+
+              <View style={[styles.eventCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+                <View style={styles.eventHeader}>
+                  <Text style={[styles.eventLabel, { color: colors.text }]}>
+                    {label}{stepTitle ? ` · ${stepTitle}` : ''}
+                  </Text>
+                  <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
+                    {new Date(event.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </Text>
+                </View>
+                {!!event.detail && (
+                  <Text style={[styles.eventDetail, { color: colors.text }]}>{event.detail}</Text>
+                )}
+                <Text style={[styles.eventActor, { color: colors.textSecondary }]}>
+                  {event.actorName}
+                  {duration !== undefined ? `  ·  took ${formatDuration(duration)}` : ''}
+                  {`  ·  ${new Date(event.at).toLocaleDateString()}`}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: { padding: 20, paddingBottom: 40 },
+  header: { marginBottom: 20 },
+  batchName: { fontSize: 22, fontWeight: 'bold' },
+  batchMeta: { fontSize: 14, marginTop: 4, textTransform: 'capitalize' },
+  emptyState: { padding: 40, alignItems: 'center' },
+  emptyText: { fontSize: 16, textAlign: 'center' },
+  eventRow: { flexDirection: 'row', gap: 12 },
+  rail: { width: 28, alignItems: 'center' },
+  eventIcon: { fontSize: 18, marginTop: 10 },
+  railLine: { flex: 1, width: 2, marginTop: 4 },
+  eventCard: { flex: 1, borderWidth: 1, borderRadius: 10, padding: 12, marginBottom: 10 },
+  eventHeader: { flexDirection: 'row', justifyContent: 'space-between', gap: 8 },
+  eventLabel: { fontSize: 15, fontWeight: '600', flex: 1 },
+  eventTime: { fontSize: 13 },
+  eventDetail: { fontSize: 14, marginTop: 6 },
+  eventActor: { fontSize: 12, marginTop: 6 },
+});
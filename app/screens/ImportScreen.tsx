@@ -2,7 +2,8 @@ import * as DocumentPicker from "expo-document-picker";
 import React from "react";
 import { Alert, Button, View, ActivityIndicator, Text } from "react-native";
 import { parseSpreadsheetV2 } from "../../utils/parseSpreadsheet";
-import { addWorkflow } from "../../services/database";
+import { addWorkflow, getCachedWorkflows, StepComponent } from "../../services/database";
+import { structureChecklist } from "../../utils/ingredients";
 import { useRouter } from "expo-router";
 
 export default function ImportScreen() {
@@ -42,22 +43,51 @@ export default function ImportScreen() {
         workflowMap.get(workflowName)!.push(step);
       });
 
+      // Ids up front so sub-recipe references can point at sheets in this file
+      const workflowIds = new Map<string, string>();
+      for (const workflowName of workflowMap.keys()) {
+        workflowIds.set(workflowName.toLowerCase(), workflowName.toLowerCase().replace(/\s+/g, '_') + '_' + Date.now());
+      }
+      const existingIds = new Map(getCachedWorkflows().map(w => [w.name.toLowerCase(), w.id]));
+      const resolveRecipe = (name: string) =>
+        workflowIds.get(name.toLowerCase()) ?? existingIds.get(name.toLowerCase());
+
       // Create workflows
       let importedCount = 0;
       
       for (const [workflowName, workflowSteps] of workflowMap) {
-        const workflowId = workflowName.toLowerCase().replace(/\s+/g, '_') + '_' + Date.now();
+        const workflowId = workflowIds.get(workflowName.toLowerCase())!;
         
         const workflow = {
           id: workflowId,
           name: workflowName,
-          steps: workflowSteps.map(step => ({
-            id: step.id,
-            title: step.title,
-            description: step.instructions,
-            timerMinutes: step.suggestedTime,
-            completed: false,
-          })),
+          steps: workflowSteps.map(step => {
+            const components: StepComponent[] = [];
+            const checklist = [...step.ingredients];
+            for (const ref of step.components) {
+              const componentId = resolveRecipe(ref.recipeName);
+              if (componentId) {
+                components.push({ workflowId: componentId, quantity: ref.quantity, unit: ref.unit });
+              } else {
+                // Unknown recipe — keep it visible as a plain checklist line
+                console.warn(`   ⚠️ No workflow named "${ref.recipeName}" for sub-recipe link`);
+                checklist.push(`${ref.recipeName}: ${ref.quantity} ${ref.unit} (see recipe)`);
+              }
+            }
+
+            return {
+              id: step.id,
+              title: step.title,
+              description: step.instructions,
+              timerMinutes: step.suggestedTime,
+              completed: false,
+              ...structureChecklist(checklist),
+              targetTemp: step.targetTemp,
+              visualCues: step.visualCues,
+              confirmationRequired: step.confirmationRequired || undefined,
+              components: components.length > 0 ? components : undefined,
+            };
+          }),
         };
 
         console.log(`\n💾 Saving workflow: ${workflowName}`);
@@ -67,13 +97,7 @@ export default function ImportScreen() {
         if (workflow.steps.length > 0) {
           const firstStep = workflow.steps[0];
           console.log(`   First step title: ${firstStep.title}`);
-          console.log(`   Has checklist: ${firstStep.description.includes('📋 Checklist:')}`);
-          
-          if (firstStep.description.includes('📋 Checklist:')) {
-            const checklistSection = firstStep.description.split('📋 Checklist:')[1];
-            const itemCount = checklistSection.split('☐').length - 1;
-            console.log(`   Checklist items: ${itemCount}`);
-          }
+          console.log(`   Ingredients: ${firstStep.ingredients?.length ?? 0}, checklist items: ${firstStep.checklist?.length ?? 0}`);
         }
         
         await addWorkflow(workflow);
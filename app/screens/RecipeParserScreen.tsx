@@ -6,6 +6,7 @@ import {
 import { useRouter } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
 import { addWorkflow, getWorkflows, Workflow } from '../../services/database';
+import { structureChecklist } from '../../utils/ingredients';
 
 // Fraction conversion table
 const FRACTIONS: { [key: string]: string } = {
@@ -283,27 +284,14 @@ export default function RecipeParserScreen() {
       const workflow: Workflow = {
         id: workflowId,
         name: workflowName,
-        steps: steps.map((step, index) => {
-          let description = step.description;
-          
-          // Add checklist to description if there are items
-          if (step.checklistItems.length > 0) {
-            const checklistText = step.checklistItems
-              .map(item => `☐ ${item}`)
-              .join('\n');
-            
-            if (description) description += '\n\n';
-            description += `📋 Checklist:\n${checklistText}`;
-          }
-          
-          return {
-            id: `${workflowId}_step_${index + 1}`,
-            title: step.title || `Step ${index + 1}`,
-            description,
-            timerMinutes: step.timerMinutes,
-            completed: false,
-          };
-        }),
+        steps: steps.map((step, index) => ({
+          id: `${workflowId}_step_${index + 1}`,
+          title: step.title || `Step ${index + 1}`,
+          description: step.description,
+          timerMinutes: step.timerMinutes,
+          completed: false,
+          ...structureChecklist(step.checklistItems),
+        })),
       };
 
       await addWorkflow(workflow);
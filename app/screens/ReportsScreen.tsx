@@ -209,6 +209,21 @@ export default function ReportsScreen() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Synced reports (and ones loaded from the server) carry no label
+  const renderSyncState = (report: BatchCompletionReport | EnvironmentalReport) => {
+    if (report.syncState === 'pending') {
+      return <Text style={[styles.syncState, { color: colors.warning }]}>⏳ Saved on this device, waiting to sync</Text>;
+    }
+    if (report.syncState === 'failed') {
+      return (
+        <Text style={[styles.syncState, { color: colors.error }]}>
+          ⚠️ Sync failed{report.syncError ? `: ${report.syncError}` : ''}
+        </Text>
+      );
+    }
+    return null;
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
@@ -370,6 +385,7 @@ export default function ReportsScreen() {
                         <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
                           {reportDate} at {reportTime}
                         </Text>
+                        {renderSyncState(report)}
                       </View>
                       <TouchableOpacity
                         style={[styles.deleteButton, { backgroundColor: colors.error }]}
@@ -408,6 +424,19 @@ export default function ReportsScreen() {
                       </View>
                     )}
 
+                    {(report.yieldAmount !== undefined || report.expectedYield !== undefined) && (
+                      <View style={styles.detailRow}>
+                        <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>
+                          Yield:
+                        </Text>
+                        <Text style={[styles.detailValue, { color: colors.text }]}>
+                          {report.yieldAmount ?? '—'}
+                          {report.expectedYield !== undefined ? ` of ${report.expectedYield} expected` : ''}
+                          {report.yieldUnit ? ` ${report.yieldUnit}` : ''}
+                        </Text>
+                      </View>
+                    )}
+
                     {report.notes && (
                       <View style={styles.notesSection}>
                         <Text style={[styles.notesLabel, { color: colors.textSecondary }]}>
@@ -444,6 +473,7 @@ export default function ReportsScreen() {
                       <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
                         {report.time} - {report.createdBy}
                       </Text>
+                      {renderSyncState(report)}
                     </View>
                     <TouchableOpacity
                       style={[styles.deleteButton, { backgroundColor: colors.error }]}
@@ -525,6 +555,7 @@ const styles = StyleSheet.create({
   cardHeader: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 12 },
   cardTitle: { fontSize: 18, fontWeight: '700', marginBottom: 4 },
   cardSubtitle: { fontSize: 14 },
+  syncState: { fontSize: 12, fontWeight: '600', marginTop: 4 },
   deleteButton: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 6 },
   deleteButtonText: { color: 'white', fontSize: 12, fontWeight: '600' },
   statsRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 8 },
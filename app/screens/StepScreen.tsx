@@ -1,14 +1,18 @@
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { FC, useEffect, useState } from "react";
-import { ScrollView, Text, View, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { ScrollView, Text, View, TouchableOpacity, StyleSheet, Alert, Modal, TextInput } from "react-native";
 import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 import { 
-  getWorkflows, getBatch, updateBatchStep, completeBatchStep,
-  getTimerStatus, acknowledgeTimer, getDeviceName,
-  Workflow, Batch 
+  getBatch, updateBatchStep, completeBatchStep,
+  subscribeToDataChanges,
+  getWorkflowForBatch, getCachedWorkflows, completeBatch, resumeBatch, isBatchActive,
+  recordChecklistCheck, addBatchNote, getChildBatches, startComponentBatch, formatComponentQuantity, expectedYield,
+  getBatchConflicts, dismissBatchConflicts, retardBatch, formatReadyAt, describeRetardTiming,
+  Workflow, Batch, BatchConflict, StepComponent
 } from "../../services/database";
-import { createBatchCompletionReport } from "../../services/reports";
+import { formatIngredient, scaleIngredient, structureChecklist } from '../../utils/ingredients';
+import { describeTarget } from '../../utils/bakersMath';
 import BatchTimer from '../components/BatchTimer';
 import YouTubeVideo from '../components/YouTubeVideo';
 import { useTheme } from '../../contexts/ThemeContext';
@@ -32,8 +36,16 @@ export const StepScreen: FC = () => {
 
   const [batch, setBatch] = useState<Batch | null>(null);
   const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [latestVersion, setLatestVersion] = useState<number | undefined>(undefined);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
+  const [noteVisible, setNoteVisible] = useState(false);
+  const [noteText, setNoteText] = useState('');
+  const [yieldVisible, setYieldVisible] = useState(false);
+  const [yieldText, setYieldText] = useState('');
+  const [childBatches, setChildBatches] = useState<Batch[]>([]);
+  const [conflicts, setConflicts] = useState<BatchConflict[]>([]);
+  const [retardHoursText, setRetardHoursText] = useState('');
 
   // Voice Commands Setup
   const voiceCommands: VoiceCommand[] = [
@@ -88,22 +100,19 @@ export const StepScreen: FC = () => {
   const { isListening, recognizedText, error: voiceError, startListening, stopListening } =
     useVoiceCommands(voiceCommands);
 
+  // Pick up changes to this batch from other stations (realtime) or
+  // from local writes such as BatchTimer starting a timer.
   useEffect(() => {
-    const interval = setInterval(() => {
-      if (batchId) {
-        const b = getBatch(batchId);
-        if (b) {
-          setBatch(b);
-          b.activeTimers.forEach(timer => {
-            const status = getTimerStatus(timer);
-            if (status.isExpired && !timer.acknowledged) {
-              acknowledgeTimer(batchId, timer.id);
-            }
-          });
-        }
-      }
-    }, 1000);
-    return () => clearInterval(interval);
+    if (!batchId) return;
+    return subscribeToDataChanges(({ table, id }) => {
+      if (table !== 'batches') return;
+      // Child batches progress on other screens and stations
+      setChildBatches(getChildBatches(batchId));
+      if (id && id !== batchId) return;
+      const b = getBatch(batchId);
+      if (b) setBatch(b);
+      setConflicts(getBatchConflicts(batchId));
+    });
   }, [batchId]);
 
   useEffect(() => {
@@ -115,12 +124,15 @@ export const StepScreen: FC = () => {
       if (b) {
         setBatch(b);
         setCurrentStepIndex(b.currentStepIndex);
+        setChildBatches(getChildBatches(batchId));
+        setConflicts(getBatchConflicts(batchId));
         
-        const allWorkflows = await getWorkflows();
-        const wf = allWorkflows.find(w => w.id === b.workflowId);
+        // Render the version this batch started on, not whatever was saved since
+        const wf = await getWorkflowForBatch(b);
         if (wf) {
           setWorkflow(wf);
         }
+        setLatestVersion(getCachedWorkflows().find(w => w.id === b.workflowId)?.version);
       }
     };
     
@@ -165,57 +177,35 @@ export const StepScreen: FC = () => {
     );
   }
 
-  const extractChecklistItems = (step: any): string[] => {
-    if (step.ingredients && Array.isArray(step.ingredients) && step.ingredients.length > 0) {
-      return step.ingredients;
-    }
-    
-    if (step.checklistItems && Array.isArray(step.checklistItems) && step.checklistItems.length > 0) {
-      return step.checklistItems;
-    }
-    
-    const checklistMatch = step.description.match(/📋 Checklist:\n([\s\S]*?)(?=\n\n|$)/);
-    if (!checklistMatch) return [];
-    
-    return checklistMatch[1]
-      .split('\n')
-      .map((line: string) => line.replace(/^☐\s*/, '').trim())
-      .filter(Boolean);
-  };
-
-  const extractYouTubeUrl = (description: string): string | null => {
-    const match = description.match(/🎥 Video:\s*(https?:\/\/[^\s]+)/);
-    return match ? match[1] : null;
-  };
-
-  const applyBatchMultiplier = (text: string, multiplier: number): string => {
-    if (multiplier === 1) return text;
-    
-    return text.replace(/(\d+(?:\.\d+)?)\s*(g|kg|ml|L|oz|lb|cup|tbsp|tsp)/gi, (match, number, unit) => {
-      const originalNum = parseFloat(number);
-      const newNum = originalNum * multiplier;
-      const rounded = Math.round(newNum * 10) / 10;
-      return `${rounded}${unit}`;
-    });
-  };
-
-  const checklistItems = extractChecklistItems(currentStep).map(item =>
-    applyBatchMultiplier(item, batch.batchSizeMultiplier)
-  );
+  // Older checklists still hold "Flour: 500g" text — read those through the same model
+  const fromText = structureChecklist(currentStep.checklist ?? []);
+  const checklistItems = [
+    ...[...(currentStep.ingredients ?? []), ...(fromText.ingredients ?? [])].map(ingredient =>
+      formatIngredient(scaleIngredient(ingredient, batch.batchSizeMultiplier))
+    ),
+    ...(fromText.checklist ?? []),
+  ];
 
-  const youtubeUrl = extractYouTubeUrl(currentStep.description);
+  const youtubeUrl = currentStep.videoUrl || null;
   
-  const displayDescription = applyBatchMultiplier(
-    currentStep.description
-      .replace(/📋 Checklist:\n[\s\S]*?(?=\n\n|$)/, '')
-      .replace(/🎥 Video:\s*https?:\/\/[^\s]+/, '')
-      .trim(),
-    batch.batchSizeMultiplier
-  );
+  const displayDescription = currentStep.description.trim();
   
   const allItemsChecked = checklistItems.length > 0 && checklistItems.every(item => checkedItems.has(item));
   const isLastStep = currentStepIndex === workflow.steps.length - 1;
 
+  const confirmStep = (): Promise<boolean> => new Promise(resolve => {
+    haptics.warning();
+    Alert.alert(
+      'Confirm Step',
+      `Confirm "${currentStep.title}" is complete?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Confirm', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
   const handleNext = async () => {
     if (checklistItems.length > 0 && !allItemsChecked) {
       haptics.warning();
@@ -223,6 +213,8 @@ export const StepScreen: FC = () => {
       return;
     }
 
+    if (currentStep.confirmationRequired && !(await confirmStep())) return;
+
     haptics.success();
     await completeBatchStep(batchId!, currentStep.id);
 
@@ -241,31 +233,45 @@ export const StepScreen: FC = () => {
       return;
     }
 
+    if (currentStep.confirmationRequired && !(await confirmStep())) return;
+
+    // Batches with a declared yield record what actually came out
+    const expected = expectedYield(batch);
+    if (expected) {
+      setYieldText(String(expected.count));
+      setYieldVisible(true);
+      return;
+    }
+    await finishBatch();
+  };
+
+  const handleSaveYield = async () => {
+    const actual = parseFloat(yieldText);
+    if (!(actual >= 0)) {
+      Alert.alert('Yield', 'Enter how many were made');
+      return;
+    }
+    setYieldVisible(false);
+    await finishBatch(actual);
+  };
+
+  const finishBatch = async (actualYield?: number) => {
     await completeBatchStep(batchId!, currentStep.id);
 
+    // The completed transition files the batch report
+    let reportSaved = false;
     try {
-      const deviceName = await getDeviceName();
-      const endTime = Date.now();
-      const startTime = batch.createdAt;
-      const actualDuration = Math.round((endTime - startTime) / 1000 / 60);
-
-      await createBatchCompletionReport(
-        batchId!,
-        batch.name,
-        workflow.id,
-        workflow.name,
-        deviceName,
-        batch.batchSizeMultiplier,
-        actualDuration
-      );
+      reportSaved = !!(await completeBatch(batchId!, actualYield));
     } catch (error) {
-      console.error('Error creating batch report:', error);
+      haptics.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not complete batch');
+      return;
     }
 
     haptics.success();
     Alert.alert(
       'Batch Complete!',
-      `You've completed ${batch.name}\n\nReport saved!`,
+      `You've completed ${batch.name}${reportSaved ? '\n\nReport saved!' : ''}`,
       [
         {
           text: 'Done',
@@ -296,10 +302,17 @@ export const StepScreen: FC = () => {
       newChecked.delete(item);
     } else {
       newChecked.add(item);
+      recordChecklistCheck(batchId!, currentStep.id, item);
     }
     setCheckedItems(newChecked);
   };
 
+  const handleSaveNote = async () => {
+    await addBatchNote(batchId!, noteText, currentStep.id);
+    setNoteText('');
+    setNoteVisible(false);
+  };
+
   const isSubRecipeLink = (item: unknown): boolean => {
     return (
       typeof item === 'string' &&
@@ -314,34 +327,80 @@ export const StepScreen: FC = () => {
     return match?.[1] ?? '';
   };
 
-  const handleSubRecipeClick = async (subRecipeName: string) => {
-    const allWorkflows = await getWorkflows();
-    const subWorkflow = allWorkflows.find(w => 
-      w.name.toLowerCase().includes(subRecipeName.toLowerCase())
+  const openBatch = (id: string) => {
+    router.push({
+      pathname: '/screens/StepScreen',
+      params: { batchId: id }
+    });
+  };
+
+  const handleStartComponent = async (component: StepComponent) => {
+    try {
+      haptics.medium();
+      const child = await startComponentBatch(batchId!, currentStep.id, component);
+      setChildBatches(getChildBatches(batchId!));
+      openBatch(child.id);
+    } catch (error) {
+      haptics.error();
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not start sub-recipe');
+    }
+  };
+
+  // Checklists imported before components existed still carry "*See X recipe"
+  const handleSubRecipeClick = (subRecipeName: string) => {
+    const subWorkflow = getCachedWorkflows().find(w =>
+      w.name.toLowerCase() === subRecipeName.toLowerCase()
     );
-    
-    if (subWorkflow) {
-      Alert.alert(
-        subRecipeName,
-        'Open this sub-recipe?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Open', 
-            onPress: async () => {
-              const { createBatch } = require('../../services/database');
-              const subBatch = await createBatch(subWorkflow.id, batch.mode);
-              router.push({
-                pathname: '/screens/StepScreen',
-                params: { batchId: subBatch.id }
-              });
-            }
-          }
-        ]
-      );
+
+    if (!subWorkflow) {
+      Alert.alert(subRecipeName, 'No workflow with this name was found.');
+      return;
+    }
+
+    Alert.alert(
+      subRecipeName,
+      'Start this sub-recipe for the batch?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Start',
+          onPress: () => handleStartComponent({ workflowId: subWorkflow.id, quantity: 1, unit: 'batch' }),
+        }
+      ]
+    );
+  };
+
+  const retardHours = parseFloat(retardHoursText) || currentStep.retardHours || 0;
+
+  const handleRetard = async () => {
+    if (!(retardHours > 0)) {
+      Alert.alert('Cold Ferment', 'Enter how many hours the batch stays in the retarder');
+      return;
     }
+    const readyAt = Date.now() + retardHours * 60 * 60 * 1000;
+    try {
+      await retardBatch(batchId!, readyAt);
+      haptics.success();
+      setRetardHoursText('');
+      Alert.alert('In the Retarder', `${batch.name} is ready ${formatReadyAt(readyAt)}`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not move batch to the retarder');
+    }
+  };
+
+  const componentStatus = (child: Batch | undefined, subWorkflow: Workflow | undefined): string => {
+    if (!child) return 'Not started';
+    if (child.status === 'completed') return '✓ Ready';
+    if (child.status === 'planned') return 'Started';
+    const stepText = `Step ${child.currentStepIndex + 1}${subWorkflow ? ` of ${subWorkflow.steps.length}` : ''}`;
+    return child.status === 'paused' ? `⏸ Paused · ${stepText}` : stepText;
   };
 
+  const components = currentStep.components ?? [];
+  const parentBatch = batch.parentBatchId ? getBatch(batch.parentBatchId) : undefined;
+
   return (
     <ScrollView 
       style={[styles.container, { backgroundColor: colors.background }]} 
@@ -364,6 +423,18 @@ export const StepScreen: FC = () => {
               ]} 
             />
           </View>
+          {!!workflow.version && !!latestVersion && latestVersion > workflow.version && (
+            <Text style={[styles.versionNote, { color: colors.textSecondary }]}>
+              Running version {workflow.version} · workflow since updated to v{latestVersion}
+            </Text>
+          )}
+          {parentBatch && (
+            <TouchableOpacity onPress={() => openBatch(parentBatch.id)}>
+              <Text style={[styles.versionNote, { color: colors.primary }]}>
+                Component for {parentBatch.name}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.headerButtons}>
@@ -382,6 +453,13 @@ export const StepScreen: FC = () => {
             />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            onPress={() => setNoteVisible(true)}
+            style={[styles.micButton, { backgroundColor: colors.primary }]}
+          >
+            <Ionicons name="create-outline" size={22} color="white" />
+          </TouchableOpacity>
+
           {checklistItems.length > 0 && (
             <TouchableOpacity 
               onPress={handleClear} 
@@ -415,7 +493,9 @@ export const StepScreen: FC = () => {
         <Text style={[styles.stepTitle, { color: colors.text }]}>{currentStep.title}</Text>
         {batch.batchSizeMultiplier !== 1 && (
           <View style={[styles.multiplierBadge, { backgroundColor: colors.primary }]}>
-            <Text style={styles.multiplierText}>{batch.batchSizeMultiplier}x</Text>
+            <Text style={styles.multiplierText}>
+              {batch.sizeTarget ? `${describeTarget(batch.sizeTarget)} · ` : ''}{batch.batchSizeMultiplier}x
+            </Text>
           </View>
         )}
       </View>
@@ -428,6 +508,22 @@ export const StepScreen: FC = () => {
         </View>
       )}
 
+      {/* Target temp & visual cues */}
+      {(currentStep.targetTemp || currentStep.visualCues) && (
+        <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
+          {currentStep.targetTemp && (
+            <Text style={[styles.description, { color: colors.text }]}>
+              🌡️ Target temp: {currentStep.targetTemp}
+            </Text>
+          )}
+          {currentStep.visualCues && (
+            <Text style={[styles.description, { color: colors.textSecondary }]}>
+              👀 {currentStep.visualCues}
+            </Text>
+          )}
+        </View>
+      )}
+
       {/* YouTube Video */}
       {youtubeUrl && (
         <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
@@ -436,6 +532,48 @@ export const StepScreen: FC = () => {
         </View>
       )}
 
+      {/* Sub-recipes */}
+      {components.length > 0 && (
+        <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Sub-recipes</Text>
+          {components.map((component, index) => {
+            const subWorkflow = getCachedWorkflows().find(w => w.id === component.workflowId);
+            const child = childBatches.find(b =>
+              b.parentStepId === currentStep.id && b.workflowId === component.workflowId && b.status !== 'cancelled'
+            );
+            const isReady = child?.status === 'completed';
+
+            return (
+              <View key={`${component.workflowId}_${index}`} style={styles.componentRow}>
+                <View style={styles.componentInfo}>
+                  <Text style={[styles.checklistText, { color: colors.text }]}>
+                    {subWorkflow?.name ?? 'Missing workflow'} · {formatComponentQuantity(component, batch.batchSizeMultiplier)}
+                  </Text>
+                  <Text style={[styles.componentStatus, { color: isReady ? colors.success : colors.textSecondary }]}>
+                    {componentStatus(child, subWorkflow)}
+                  </Text>
+                </View>
+                {child ? (
+                  <TouchableOpacity
+                    style={[styles.componentButton, { borderColor: colors.primary }]}
+                    onPress={() => openBatch(child.id)}
+                  >
+                    <Text style={[styles.componentButtonText, { color: colors.primary }]}>Open</Text>
+                  </TouchableOpacity>
+                ) : subWorkflow && isBatchActive(batch) ? (
+                  <TouchableOpacity
+                    style={[styles.componentButton, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                    onPress={() => handleStartComponent(component)}
+                  >
+                    <Text style={[styles.componentButtonText, { color: 'white' }]}>Start</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      )}
+
       {/* Checklist */}
       {checklistItems.length > 0 && (
         <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
@@ -478,17 +616,45 @@ export const StepScreen: FC = () => {
       )}
 
       {/* Timer */}
-      {currentStep.timerMinutes != null && (
+      {(currentStep.timerMinutes != null || currentStep.intervalTimer) && (
         <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Timer</Text>
           <BatchTimer
             batchId={batchId!}
             stepId={currentStep.id}
-            durationMinutes={currentStep.timerMinutes}
+            durationMinutes={currentStep.intervalTimer?.intervalMinutes ?? currentStep.timerMinutes ?? 0}
+            interval={currentStep.intervalTimer}
           />
         </View>
       )}
 
+      {/* Cold ferment */}
+      {batch.mode === 'cold-ferment' && currentStep.retardHours != null && batch.status !== 'paused' && isBatchActive(batch) && (
+        <View style={[styles.card, { backgroundColor: colors.surface, shadowColor: colors.shadow }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Cold Ferment</Text>
+          <View style={styles.yieldRow}>
+            <Text style={[styles.retardLabel, { color: colors.text }]}>Retard for</Text>
+            <TextInput
+              style={[styles.yieldInput, { color: colors.text, borderColor: colors.border }]}
+              value={retardHoursText}
+              onChangeText={setRetardHoursText}
+              placeholder={String(currentStep.retardHours)}
+              placeholderTextColor={colors.textSecondary}
+              keyboardType="decimal-pad"
+            />
+            <Text style={[styles.yieldUnit, { color: colors.textSecondary }]}>
+              hours{retardHours > 0 ? ` · ready ${formatReadyAt(Date.now() + retardHours * 60 * 60 * 1000)}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.retardButton, { backgroundColor: colors.primary }]}
+            onPress={handleRetard}
+          >
+            <Text style={styles.navButtonText}>❄️ Into the Retarder</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Voice Commands Help - Collapsible hint */}
       {isListening && (
         <View style={[styles.card, { backgroundColor: colors.surface + '80', shadowColor: colors.shadow }]}>
@@ -503,46 +669,97 @@ export const StepScreen: FC = () => {
         </View>
       )}
 
-      {/* Navigation buttons */}
-      <View style={styles.navigationContainer}>
-        <TouchableOpacity
-          onPress={handlePrevious}
-          style={[
-            styles.navButton, 
-            { backgroundColor: colors.textSecondary },
-            currentStepIndex === 0 && { backgroundColor: colors.disabled }
-          ]}
-          disabled={currentStepIndex === 0}
-        >
-          <Text style={styles.navButtonText}>Previous</Text>
-        </TouchableOpacity>
-
-        {isLastStep ? (
+      {conflicts.length > 0 && (
+        <View style={[styles.conflictBanner, { backgroundColor: colors.warning + '20', borderColor: colors.warning }]}>
+          <Text style={[styles.statusBannerText, { color: colors.text }]}>
+            Another station changed this batch at the same time
+          </Text>
+          {conflicts.map(conflict => (
+            <Text key={conflict.id} style={[styles.conflictText, { color: colors.textSecondary }]}>
+              {conflict.summary}
+            </Text>
+          ))}
           <TouchableOpacity
-            onPress={handleFinish}
-            style={[
-              styles.navButton, 
-              { backgroundColor: colors.success },
-              (!allItemsChecked && checklistItems.length > 0) && { backgroundColor: colors.disabled }
-            ]}
-            disabled={!allItemsChecked && checklistItems.length > 0}
+            style={[styles.statusBannerButton, styles.conflictButton, { backgroundColor: colors.warning }]}
+            onPress={() => {
+              // Follow the step that was kept rather than the one on screen
+              setCurrentStepIndex(batch.currentStepIndex);
+              dismissBatchConflicts(batchId!);
+            }}
+          >
+            <Text style={styles.statusBannerButtonText}>Got it</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {batch.status === 'paused' && (
+        <View style={[styles.statusBanner, { backgroundColor: colors.warning + '20', borderColor: colors.warning }]}>
+          <Text style={[styles.statusBannerText, { color: colors.text }]}>
+            {batch.retard
+              ? `In the retarder · ready ${formatReadyAt(batch.retard.readyAt)} (${describeRetardTiming(batch.retard)})`
+              : 'This batch is paused'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.statusBannerButton, { backgroundColor: colors.warning }]}
+            onPress={() => resumeBatch(batchId!).catch(err => Alert.alert('Error', err.message))}
           >
-            <Text style={styles.navButtonText}>Finish</Text>
+            <Text style={styles.statusBannerButtonText}>Resume</Text>
           </TouchableOpacity>
-        ) : (
+        </View>
+      )}
+
+      {!isBatchActive(batch) && (
+        <View style={[styles.statusBanner, { backgroundColor: colors.border, borderColor: colors.textSecondary }]}>
+          <Text style={[styles.statusBannerText, { color: colors.text }]}>
+            {batch.status === 'completed'
+              ? 'This batch is completed'
+              : `This batch was cancelled${batch.cancelledReason ? `: ${batch.cancelledReason}` : ''}`}
+          </Text>
+        </View>
+      )}
+
+      {/* Navigation buttons */}
+      {isBatchActive(batch) && (
+        <View style={styles.navigationContainer}>
           <TouchableOpacity
-            onPress={handleNext}
+            onPress={handlePrevious}
             style={[
               styles.navButton, 
-              { backgroundColor: colors.primary },
-              (!allItemsChecked && checklistItems.length > 0) && { backgroundColor: colors.disabled }
+              { backgroundColor: colors.textSecondary },
+              currentStepIndex === 0 && { backgroundColor: colors.disabled }
             ]}
-            disabled={!allItemsChecked && checklistItems.length > 0}
+            disabled={currentStepIndex === 0}
           >
-            <Text style={styles.navButtonText}>Next</Text>
+            <Text style={styles.navButtonText}>Previous</Text>
           </TouchableOpacity>
-        )}
-      </View>
+
+          {isLastStep ? (
+            <TouchableOpacity
+              onPress={handleFinish}
+              style={[
+                styles.navButton, 
+                { backgroundColor: colors.success },
+                (!allItemsChecked && checklistItems.length > 0) && { backgroundColor: colors.disabled }
+              ]}
+              disabled={!allItemsChecked && checklistItems.length > 0}
+            >
+              <Text style={styles.navButtonText}>Finish</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={handleNext}
+              style={[
+                styles.navButton, 
+                { backgroundColor: colors.primary },
+                (!allItemsChecked && checklistItems.length > 0) && { backgroundColor: colors.disabled }
+              ]}
+              disabled={!allItemsChecked && checklistItems.length > 0}
+            >
+              <Text style={styles.navButtonText}>Next</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
 
       {/* Progress indicator at bottom */}
       {(!allItemsChecked && checklistItems.length > 0) && (
@@ -555,6 +772,83 @@ export const StepScreen: FC = () => {
           </Text>
         </View>
       )}
+
+      <Modal
+        visible={noteVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setNoteVisible(false)}
+      >
+        <View style={styles.noteOverlay}>
+          <View style={[styles.noteModal, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.noteTitle, { color: colors.text }]}>{`Note for "${currentStep.title}"`}</Text>
+            <TextInput
+              style={[styles.noteInput, { color: colors.text, borderColor: colors.border }]}
+              value={noteText}
+              onChangeText={setNoteText}
+              placeholder="e.g. Dough temp 27°C, added 20g water"
+              placeholderTextColor={colors.textSecondary}
+              multiline
+              autoFocus
+            />
+            <View style={styles.noteButtons}>
+              <TouchableOpacity
+                style={[styles.navButton, { backgroundColor: colors.textSecondary }]}
+                onPress={() => setNoteVisible(false)}
+              >
+                <Text style={styles.navButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.navButton, { backgroundColor: noteText.trim() ? colors.primary : colors.disabled }]}
+                onPress={handleSaveNote}
+                disabled={!noteText.trim()}
+              >
+                <Text style={styles.navButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={yieldVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setYieldVisible(false)}
+      >
+        <View style={styles.noteOverlay}>
+          <View style={[styles.noteModal, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.noteTitle, { color: colors.text }]}>How many were made?</Text>
+            <View style={styles.yieldRow}>
+              <TextInput
+                style={[styles.yieldInput, { color: colors.text, borderColor: colors.border }]}
+                value={yieldText}
+                onChangeText={setYieldText}
+                keyboardType="decimal-pad"
+                selectTextOnFocus
+                autoFocus
+              />
+              <Text style={[styles.yieldUnit, { color: colors.textSecondary }]}>
+                {batch.yieldUnit} · expected {expectedYield(batch)?.count}
+              </Text>
+            </View>
+            <View style={styles.noteButtons}>
+              <TouchableOpacity
+                style={[styles.navButton, { backgroundColor: colors.textSecondary }]}
+                onPress={() => setYieldVisible(false)}
+              >
+                <Text style={styles.navButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.navButton, { backgroundColor: colors.success }]}
+                onPress={handleSaveYield}
+              >
+                <Text style={styles.navButtonText}>Finish</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 };
@@ -576,6 +870,7 @@ const styles = StyleSheet.create({
   progressText: { fontSize: 14, marginBottom: 8, fontWeight: '600' },
   progressBar: { height: 8, borderRadius: 4, overflow: 'hidden' },
   progressFill: { height: '100%', borderRadius: 4 },
+  versionNote: { fontSize: 12, marginTop: 6 },
   headerButtons: { 
     flexDirection: 'row', 
     gap: 8,
@@ -611,6 +906,32 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textAlign: 'center',
   },
+  noteOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', padding: 20 },
+  noteModal: { borderRadius: 16, padding: 20 },
+  noteTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12 },
+  noteInput: { borderWidth: 1, borderRadius: 8, padding: 12, fontSize: 16, minHeight: 100, textAlignVertical: 'top', marginBottom: 16 },
+  noteButtons: { flexDirection: 'row', gap: 12 },
+  yieldRow: { flexDirection: 'row', alignItems: 'center', gap: 12, marginBottom: 16 },
+  yieldInput: { borderWidth: 1, borderRadius: 8, padding: 12, fontSize: 18, minWidth: 90, textAlign: 'center' },
+  yieldUnit: { fontSize: 15, flex: 1 },
+  retardLabel: { fontSize: 15 },
+  retardButton: { padding: 16, borderRadius: 12, alignItems: 'center' },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  statusBannerText: { flex: 1, fontSize: 15, fontWeight: '600' },
+  statusBannerButton: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8 },
+  statusBannerButtonText: { color: 'white', fontSize: 14, fontWeight: '600' },
+  conflictBanner: { padding: 12, borderRadius: 8, marginBottom: 12, borderWidth: 1, gap: 6 },
+  conflictText: { fontSize: 13 },
+  conflictButton: { alignSelf: 'flex-start', marginTop: 4 },
   voiceHelpText: {
     fontSize: 13,
     lineHeight: 20,
@@ -629,6 +950,11 @@ const styles = StyleSheet.create({
   checklistText: { flex: 1, fontSize: 16, lineHeight: 24 },
   linkContainer: { flex: 1 },
   linkText: { fontSize: 16, lineHeight: 24, textDecorationLine: 'underline' },
+  componentRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 8 },
+  componentInfo: { flex: 1 },
+  componentStatus: { fontSize: 13, marginTop: 2 },
+  componentButton: { borderWidth: 1, borderRadius: 8, paddingHorizontal: 14, paddingVertical: 8 },
+  componentButtonText: { fontSize: 14, fontWeight: '600' },
   navigationContainer: { flexDirection: 'row', gap: 12, marginTop: 20 },
   navButton: { flex: 1, padding: 16, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
   navButtonText: { color: 'white', fontSize: 16, fontWeight: '600' },
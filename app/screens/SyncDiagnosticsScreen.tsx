@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Share
+} from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  getQueuedMutations,
+  getDeadLetters,
+  retryMutation,
+  discardMutation,
+  flushOfflineQueue,
+  exportQueueAsJSON,
+  QueuedMutation,
+  DeadLetter,
+} from '../../services/offlineQueue';
+
+function formatAge(iso: string): string {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+/** "batches:batch_123" → "batch_123" */
+function rowLabel(entry: QueuedMutation): string {
+  return entry.rowKey.slice(entry.rowKey.indexOf(':') + 1);
+}
+
+export default function SyncDiagnosticsScreen() {
+  const { colors } = useTheme();
+
+  const [queued, setQueued] = useState<QueuedMutation[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    const [pending, failed] = await Promise.all([getQueuedMutations(), getDeadLetters()]);
+    setQueued(pending);
+    // Most recent failures first
+    setDeadLetters([...failed].reverse());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      Alert.alert('Error', error?.message || failure);
+    } finally {
+      await loadQueue();
+      setBusy(false);
+    }
+  };
+
+  const handleRetry = (entry: QueuedMutation) => run(() => retryMutation(entry.id), 'Failed to retry operation');
+
+  const handleRetryAll = () => run(() => flushOfflineQueue({ ignoreBackoff: true }), 'Failed to sync');
+
+  const handleDiscard = (entry: QueuedMutation) => {
+    Alert.alert(
+      'Discard Operation',
+      `Discard this ${entry.mutation.op} on ${entry.mutation.table}? The change stays on this device but will never reach the server.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => run(() => discardMutation(entry.id), 'Failed to discard operation'),
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ message: await exportQueueAsJSON(), title: 'Sync Queue Export (JSON)' });
+    } catch (error) {
+      console.error('Error exporting sync queue:', error);
+      Alert.alert('Error', 'Failed to export sync queue');
+    }
+  };
+
+  const renderEntry = (entry: QueuedMutation, failed: boolean) => {
+    const waitMinutes = Math.ceil((entry.nextAttemptAt - Date.now()) / 60000);
+    return (
+      <View key={entry.id} style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        <Text style={[styles.cardTitle, { color: colors.text }]}>
+          {entry.mutation.table} · {entry.mutation.op}
+        </Text>
+        <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+          {rowLabel(entry)}
+        </Text>
+        <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
+          Queued {formatAge(entry.queuedAt)} · {entry.attempts} attempt{entry.attempts !== 1 ? 's' : ''}
+          {!failed && waitMinutes > 0 ? ` · next try in ${waitMinutes}m` : ''}
+          {failed ? ` · failed ${formatAge((entry as DeadLetter).failedAt)}` : ''}
+        </Text>
+        {entry.lastError && (
+          <Text style={[styles.errorText, { color: colors.error }]}>{entry.lastError}</Text>
+        )}
+        <View style={styles.cardButtons}>
+          <TouchableOpacity
+            style={[styles.smallButton, { backgroundColor: colors.primary }]}
+            onPress={() => handleRetry(entry)}
+            disabled={busy}
+          >
+            <Text style={styles.smallButtonText}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, { backgroundColor: colors.error }]}
+            onPress={() => handleDiscard(entry)}
+            disabled={busy}
+          >
+            <Text style={styles.smallButtonText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.emptyText, { color: colors.text }]}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      <Text style={[styles.summary, { color: colors.text }]}>
+        {queued.length} waiting to sync · {deadLetters.length} failed
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.primary }, (busy || queued.length === 0) && { opacity: 0.5 }]}
+          onPress={handleRetryAll}
+          disabled={busy || queued.length === 0}
+        >
+          <Text style={styles.actionButtonText}>Retry All Now</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.success }]}
+          onPress={handleExport}
+        >
+          <Text style={styles.actionButtonText}>Export JSON</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Waiting to sync</Text>
+      {queued.length === 0 ? (
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>Nothing waiting — all changes are on the server</Text>
+      ) : (
+        queued.map(entry => renderEntry(entry, false))
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Failed</Text>
+      {deadLetters.length === 0 ? (
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No failed operations</Text>
+      ) : (
+        deadLetters.map(entry => renderEntry(entry, true))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: { padding: 16 },
+  summary: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  actions: { flexDirection: 'row', gap: 12, marginBottom: 8 },
+  actionButton: { flex: 1, padding: 12, borderRadius: 8, alignItems: 'center' },
+  actionButtonText: { color: 'white', fontSize: 14, fontWeight: '600' },
+  sectionTitle: { fontSize: 18, fontWeight: '700', marginTop: 16, marginBottom: 8 },
+  emptyText: { fontSize: 14, textAlign: 'center', padding: 16 },
+  card: { borderWidth: 1, borderRadius: 12, padding: 16, marginBottom: 12 },
+  cardTitle: { fontSize: 16, fontWeight: '700', marginBottom: 4 },
+  cardSubtitle: { fontSize: 13, marginBottom: 2 },
+  errorText: { fontSize: 13, marginTop: 6 },
+  cardButtons: { flexDirection: 'row', gap: 8, marginTop: 12 },
+  smallButton: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 6 },
+  smallButtonText: { color: 'white', fontSize: 12, fontWeight: '600' },
+});
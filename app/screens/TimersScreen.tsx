@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  getFloorTimers,
+  acknowledgeTimer,
+  extendTimer,
+  stopTimer,
+  formatTimeRemaining,
+  describeRepetition,
+  FloorTimer,
+} from '../../services/database';
+
+export default function TimersScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const [timers, setTimers] = useState<FloorTimer[]>([]);
+
+  const refresh = useCallback(() => setTimers(getFloorTimers()), []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      Alert.alert('Error', error?.message || failure);
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleStop = (entry: FloorTimer) => {
+    Alert.alert(
+      'Stop Timer',
+      `Stop the ${entry.stepTitle} timer on ${entry.batch.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: () => run(() => stopTimer(entry.batch.id, entry.timer.id), 'Failed to stop timer'),
+        },
+      ]
+    );
+  };
+
+  const openBatch = (batchId: string) => {
+    router.push({ pathname: '/screens/StepScreen', params: { batchId } });
+  };
+
+  const renderTimer = (entry: FloorTimer) => {
+    const { batch, timer } = entry;
+    const needsAttention = entry.isExpired && !timer.acknowledged;
+    const repetition = describeRepetition(timer);
+    return (
+      <TouchableOpacity
+        key={timer.id}
+        style={[
+          styles.card,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+          needsAttention && { backgroundColor: colors.error + '20', borderColor: colors.error, borderWidth: 2 },
+        ]}
+        onPress={() => openBatch(batch.id)}
+      >
+        <View style={styles.cardHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>{batch.name}</Text>
+            <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+              {entry.stepTitle}{repetition ? ` · ${repetition}` : ''}
+            </Text>
+          </View>
+          <Text style={[
+            styles.remaining,
+            { color: entry.isExpired ? colors.error : entry.isPaused ? colors.warning : colors.text },
+          ]}>
+            {entry.isExpired ? 'EXPIRED' : formatTimeRemaining(entry.remainingSeconds)}
+            {entry.isPaused ? ' ⏸' : ''}
+          </Text>
+        </View>
+        <View style={styles.cardButtons}>
+          {needsAttention && (
+            <TouchableOpacity
+              style={[styles.smallButton, { backgroundColor: colors.success }]}
+              onPress={() => run(() => acknowledgeTimer(batch.id, timer.id), 'Failed to acknowledge timer')}
+            >
+              <Text style={styles.smallButtonText}>Acknowledge</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.smallButton, { backgroundColor: colors.primary }]}
+            onPress={() => run(() => extendTimer(batch.id, timer.id, 60), 'Failed to extend timer')}
+          >
+            <Text style={styles.smallButtonText}>+1 Min</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, { backgroundColor: colors.primary }]}
+            onPress={() => run(() => extendTimer(batch.id, timer.id, 5 * 60), 'Failed to extend timer')}
+          >
+            <Text style={styles.smallButtonText}>+5 Min</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, { backgroundColor: colors.textSecondary }]}
+            onPress={() => handleStop(entry)}
+          >
+            <Text style={styles.smallButtonText}>Stop</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const runningCount = timers.filter(t => !t.timer.acknowledged).length;
+  const expiredCount = timers.filter(t => t.isExpired && !t.timer.acknowledged).length;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      <Text style={[styles.summary, { color: colors.text }]}>
+        {runningCount} running{expiredCount > 0 ? ` · ${expiredCount} expired` : ''}
+      </Text>
+
+      {timers.length === 0 ? (
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+          No timers running on any batch
+        </Text>
+      ) : (
+        timers.map(renderTimer)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: { padding: 16 },
+  summary: { fontSize: 16, fontWeight: '600', marginBottom: 12 },
+  emptyText: { fontSize: 14, textAlign: 'center', padding: 16 },
+  card: { borderWidth: 1, borderRadius: 12, padding: 16, marginBottom: 12 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  cardTitle: { fontSize: 16, fontWeight: '700', marginBottom: 4 },
+  cardSubtitle: { fontSize: 13 },
+  remaining: { fontSize: 20, fontWeight: '700', fontVariant: ['tabular-nums'] },
+  cardButtons: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 },
+  smallButton: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 6 },
+  smallButtonText: { color: 'white', fontSize: 12, fontWeight: '600' },
+});
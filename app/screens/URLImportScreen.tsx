@@ -6,6 +6,7 @@ import {
 import { useRouter } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
 import { addWorkflow, getWorkflows, Workflow } from '../../services/database';
+import { structureChecklist } from '../../utils/ingredients';
 import { supabase } from '../../services/supabaseClient';
 
 export default function URLImportScreen() {
@@ -94,7 +95,7 @@ export default function URLImportScreen() {
         description: step.description || '',
         timerMinutes: step.duration_minutes ?? undefined,
         completed: false,
-        ingredients: step.ingredients_for_step || [],
+        ...structureChecklist(step.ingredients_for_step || []),
       }));
 
       const finalWorkflow: Workflow = {
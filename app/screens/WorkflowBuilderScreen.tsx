@@ -6,6 +6,7 @@ import {
 import { useRouter } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
 import { addWorkflow, getWorkflows, Workflow, Step } from '../../services/database';
+import { structureChecklist } from '../../utils/ingredients';
 
 interface ChecklistItem {
   text: string;
@@ -99,30 +100,20 @@ export default function WorkflowBuilderScreen() {
 
       for (let index = 0; index < steps.length; index++) {
         const step = steps[index];
-        let description = step.description || '';
-        
-        if (step.checklistItems && step.checklistItems.length > 0) {
-          const checklistText = step.checklistItems
-            .filter(item => item.text.trim())
-            .map(item => `☐ ${item.text}`)
-            .join('\n');
-          
-          if (checklistText) {
-            if (description) description += '\n\n';
-            description += `📋 Checklist:\n${checklistText}`;
-          }
-        }
-
-        if (step.youtubeUrl && step.youtubeUrl.trim()) {
-          if (description) description += '\n\n';
-          description += `🎥 Video: ${step.youtubeUrl.trim()}`;
-        }
+        const checklist = (step.checklistItems ?? [])
+          .map(item => item.text.trim())
+          .filter(Boolean);
 
         processedSteps.push({
           id: `${workflowId}_step_${index + 1}`,
           title: step.title || '',
-          description,
+          description: (step.description || '').trim(),
           timerMinutes: step.timerMinutes,
+          ...structureChecklist(checklist),
+          videoUrl: step.youtubeUrl?.trim() || undefined,
+          targetTemp: step.targetTemp?.trim() || undefined,
+          visualCues: step.visualCues?.trim() || undefined,
+          confirmationRequired: step.confirmationRequired || undefined,
           completed: false,
         });
       }
@@ -361,6 +352,51 @@ export default function WorkflowBuilderScreen() {
                 editable={!isSaving}
               />
 
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Target Temperature (optional)
+              </Text>
+              <TextInput
+                style={[styles.input, { 
+                  backgroundColor: colors.background, 
+                  color: colors.text,
+                  borderColor: colors.border 
+                }]}
+                value={step.targetTemp || ''}
+                onChangeText={(text: string) => updateStep(stepIndex, 'targetTemp', text)}
+                placeholder="e.g., 24-26°C"
+                placeholderTextColor={colors.textSecondary}
+                editable={!isSaving}
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Visual Cues (optional)
+              </Text>
+              <TextInput
+                style={[styles.input, { 
+                  backgroundColor: colors.background, 
+                  color: colors.text,
+                  borderColor: colors.border 
+                }]}
+                value={step.visualCues || ''}
+                onChangeText={(text: string) => updateStep(stepIndex, 'visualCues', text)}
+                placeholder="e.g., Dough passes the windowpane test"
+                placeholderTextColor={colors.textSecondary}
+                editable={!isSaving}
+              />
+
+              <View style={[styles.toggleRow, { marginTop: 12 }]}>
+                <Text style={[styles.fieldLabel, { color: colors.textSecondary, flex: 1, marginBottom: 0 }]}>
+                  Require confirmation before continuing
+                </Text>
+                <Switch
+                  value={step.confirmationRequired ?? false}
+                  onValueChange={(value: boolean) => updateStep(stepIndex, 'confirmationRequired', value)}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor={colors.surface}
+                  disabled={isSaving}
+                />
+              </View>
+
               <Text style={[styles.helperText, { color: colors.textSecondary }]}>
                 💡 Tip: Add ingredient amounts like "Flour: 500g" for batch scaling
               </Text>
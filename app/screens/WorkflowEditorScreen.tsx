@@ -5,15 +5,41 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useTheme } from '../../contexts/ThemeContext';
-import { getWorkflows, setWorkflows, Workflow, Step } from '../../services/database';
+import {
+  getWorkflows, setWorkflows, Workflow, Step, StepComponent, BakersFormula, FormulaIngredientKind,
+} from '../../services/database';
+import { formatIngredient, structureChecklist } from '../../utils/ingredients';
+import { doughWeight, formulaProblems, hydration } from '../../utils/bakersMath';
+import { bestUnit, formatQuantity } from '../../utils/units';
+import { collectCategories, DEFAULT_CATEGORIES, normalizeTag, parseTags } from '../../utils/workflowSearch';
 
 interface ChecklistItem {
   text: string;
 }
 
+interface ComponentDraft {
+  workflowId: string;
+  quantity: string;
+  unit: string;
+}
+
+interface FormulaRow {
+  name: string;
+  percent: string;
+  kind: FormulaIngredientKind;
+}
+
+const NEXT_KIND: Record<FormulaIngredientKind, FormulaIngredientKind> = {
+  flour: 'liquid',
+  liquid: 'other',
+  other: 'flour',
+};
+
 interface StepWithExtras extends Partial<Step> {
   checklistItems?: ChecklistItem[];
   youtubeUrl?: string;
+  componentDrafts?: ComponentDraft[];
+  intervalDraft?: { every: string; times: string; label: string };
 }
 
 export default function WorkflowEditorScreen() {
@@ -26,6 +52,17 @@ export default function WorkflowEditorScreen() {
   const [steps, setSteps] = useState<StepWithExtras[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [otherWorkflows, setOtherWorkflows] = useState<Workflow[]>([]);
+  const [pickingComponentFor, setPickingComponentFor] = useState<number | null>(null);
+  const [formulaEnabled, setFormulaEnabled] = useState(false);
+  const [flourWeight, setFlourWeight] = useState('');
+  const [pieceWeight, setPieceWeight] = useState('');
+  const [formulaRows, setFormulaRows] = useState<FormulaRow[]>([]);
+  const [yieldCount, setYieldCount] = useState('');
+  const [yieldUnit, setYieldUnit] = useState('');
+  const [category, setCategory] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
 
   useEffect(() => {
     loadWorkflow();
@@ -42,42 +79,43 @@ export default function WorkflowEditorScreen() {
     }
 
     setWorkflowName(workflow.name);
+    setOtherWorkflows(workflows.filter((w: Workflow) => w.id !== workflowId && !w.archived));
     setShowFermentPrompt(workflow.show_ferment_prompt ?? true);
+    setCategory(workflow.category ?? '');
+    setTagsText((workflow.tags ?? []).join(', '));
+    setKnownCategories(collectCategories(workflows));
+    if (workflow.base_yield) {
+      setYieldCount(String(workflow.base_yield.count));
+      setYieldUnit(workflow.base_yield.unit);
+    }
+    if (workflow.formula) {
+      setFormulaEnabled(true);
+      setFlourWeight(String(workflow.formula.flourWeight));
+      setPieceWeight(workflow.formula.pieceWeight ? String(workflow.formula.pieceWeight) : '');
+      setFormulaRows(workflow.formula.ingredients.map(i => ({ name: i.name, percent: String(i.percent), kind: i.kind })));
+    }
     
-    // Parse steps and extract all metadata
-    const parsedSteps: StepWithExtras[] = workflow.steps.map((step: Step) => {
-      let description = step.description;
-      let checklistItems: ChecklistItem[] = [];
-      let youtubeUrl: string | undefined;
-
-      // Extract checklist
-      const checklistMatch = description.match(/📋 Checklist:\n([\s\S]*?)(?=\n\n|$)/);
-      if (checklistMatch) {
-        const items = checklistMatch[1]
-          .split('\n')
-          .map((line: string) => line.replace(/^☐\s*/, '').trim())
-          .filter(Boolean);
-        
-        checklistItems = items.map((text: string) => ({ text }));
-        description = description.replace(/📋 Checklist:\n[\s\S]*?(?=\n\n|$)/, '').trim();
-      }
-
-      // Extract YouTube URL
-      const youtubeMatch = description.match(/🎥 Video:\s*(https?:\/\/[^\s]+)/);
-      if (youtubeMatch) {
-        youtubeUrl = youtubeMatch[1];
-        description = description.replace(/🎥 Video:\s*https?:\/\/[^\s]+/, '').trim();
-      }
-
-      return {
-        id: step.id,
-        title: step.title,
-        description,
-        timerMinutes: step.timerMinutes,
-        checklistItems,
-        youtubeUrl,
-      };
-    });
+    const parsedSteps: StepWithExtras[] = workflow.steps.map((step: Step) => ({
+      id: step.id,
+      title: step.title,
+      description: step.description,
+      timerMinutes: step.timerMinutes,
+      retardHours: step.retardHours,
+      intervalDraft: step.intervalTimer && {
+        every: String(step.intervalTimer.intervalMinutes),
+        times: String(step.intervalTimer.repetitions),
+        label: step.intervalTimer.label ?? '',
+      },
+      checklistItems: [...(step.ingredients ?? []).map(formatIngredient), ...(step.checklist ?? [])]
+        .map((text: string) => ({ text })),
+      youtubeUrl: step.videoUrl,
+      targetTemp: step.targetTemp,
+      visualCues: step.visualCues,
+      confirmationRequired: step.confirmationRequired,
+      componentDrafts: (step.components ?? []).map(c => ({
+        workflowId: c.workflowId, quantity: String(c.quantity), unit: c.unit,
+      })),
+    }));
 
     setSteps(parsedSteps);
     setLoading(false);
@@ -128,6 +166,51 @@ export default function WorkflowEditorScreen() {
     setSteps(newSteps);
   };
 
+  const addComponent = (stepIndex: number, componentWorkflowId: string) => {
+    const newSteps = [...steps];
+    newSteps[stepIndex].componentDrafts = [
+      ...(newSteps[stepIndex].componentDrafts ?? []),
+      { workflowId: componentWorkflowId, quantity: '', unit: 'g' },
+    ];
+    setSteps(newSteps);
+    setPickingComponentFor(null);
+  };
+
+  const updateComponent = (stepIndex: number, componentIndex: number, field: 'quantity' | 'unit', value: string) => {
+    const newSteps = [...steps];
+    newSteps[stepIndex].componentDrafts![componentIndex][field] = value;
+    setSteps(newSteps);
+  };
+
+  const removeComponent = (stepIndex: number, componentIndex: number) => {
+    const newSteps = [...steps];
+    newSteps[stepIndex].componentDrafts = newSteps[stepIndex].componentDrafts!.filter((_, i) => i !== componentIndex);
+    setSteps(newSteps);
+  };
+
+  const updateFormulaRow = (index: number, changes: Partial<FormulaRow>) => {
+    setFormulaRows(formulaRows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const toggleFormula = (enabled: boolean) => {
+    setFormulaEnabled(enabled);
+    if (enabled && formulaRows.length === 0) {
+      setFormulaRows([
+        { name: 'Bread flour', percent: '100', kind: 'flour' },
+        { name: 'Water', percent: '', kind: 'liquid' },
+        { name: 'Salt', percent: '2', kind: 'other' },
+      ]);
+    }
+  };
+
+  const buildFormula = (): BakersFormula => ({
+    flourWeight: parseFloat(flourWeight) || 0,
+    pieceWeight: parseFloat(pieceWeight) || undefined,
+    ingredients: formulaRows.map(row => ({
+      name: row.name.trim(), percent: parseFloat(row.percent) || 0, kind: row.kind,
+    })),
+  });
+
   const saveWorkflow = async () => {
     try {
       setIsSaving(true);
@@ -145,37 +228,72 @@ export default function WorkflowEditorScreen() {
         return;
       }
 
+      const formula = formulaEnabled ? buildFormula() : undefined;
+      const problems = formula ? formulaProblems(formula) : [];
+      if (problems.length > 0) {
+        Alert.alert("Baker's Formula", problems.join('\n'));
+        setIsSaving(false);
+        return;
+      }
+
+      const hasYield = !!(yieldCount.trim() || yieldUnit.trim());
+      if (hasYield && (!(parseFloat(yieldCount) > 0) || !yieldUnit.trim())) {
+        Alert.alert('Base Yield', 'Enter how many a 1x batch makes and what they are, or leave both empty');
+        setIsSaving(false);
+        return;
+      }
+
+      const missingQuantity = steps.some(s =>
+        (s.componentDrafts ?? []).some(c => !(parseFloat(c.quantity) > 0) || !c.unit.trim())
+      );
+      if (missingQuantity) {
+        Alert.alert('Error', 'Every sub-recipe needs a quantity and unit');
+        setIsSaving(false);
+        return;
+      }
+
+      const badInterval = steps.some(s => {
+        const draft = s.intervalDraft;
+        if (!draft || (!draft.every.trim() && !draft.times.trim() && !draft.label.trim())) return false;
+        return !(parseFloat(draft.every) > 0) || !(parseInt(draft.times) >= 2);
+      });
+      if (badInterval) {
+        Alert.alert('Repeat', 'Enter minutes between repeats and at least 2 repeats, or leave all three empty');
+        setIsSaving(false);
+        return;
+      }
+
       // Process steps
       const processedSteps: Step[] = [];
 
       for (let index = 0; index < steps.length; index++) {
         const step = steps[index];
-        let description = step.description || '';
-        
-        // Add checklist
-        if (step.checklistItems && step.checklistItems.length > 0) {
-          const checklistText = step.checklistItems
-            .filter(item => item.text.trim())
-            .map(item => `☐ ${item.text}`)
-            .join('\n');
-          
-          if (checklistText) {
-            if (description) description += '\n\n';
-            description += `📋 Checklist:\n${checklistText}`;
-          }
-        }
-
-        // Add YouTube URL
-        if (step.youtubeUrl && step.youtubeUrl.trim()) {
-          if (description) description += '\n\n';
-          description += `🎥 Video: ${step.youtubeUrl.trim()}`;
-        }
+        const checklist = (step.checklistItems ?? [])
+          .map(item => item.text.trim())
+          .filter(Boolean);
+        const components: StepComponent[] = (step.componentDrafts ?? []).map(c => ({
+          workflowId: c.workflowId, quantity: parseFloat(c.quantity), unit: c.unit.trim(),
+        }));
+        const draft = step.intervalDraft;
+        const intervalTimer = draft && draft.every.trim() ? {
+          intervalMinutes: parseFloat(draft.every),
+          repetitions: parseInt(draft.times),
+          label: draft.label.trim() || undefined,
+        } : undefined;
 
         processedSteps.push({
           id: step.id || `${workflowId}_step_${index + 1}`,
           title: step.title || '',
-          description,
+          description: (step.description || '').trim(),
           timerMinutes: step.timerMinutes,
+          intervalTimer,
+          retardHours: step.retardHours,
+          ...structureChecklist(checklist),
+          videoUrl: step.youtubeUrl?.trim() || undefined,
+          targetTemp: step.targetTemp?.trim() || undefined,
+          visualCues: step.visualCues?.trim() || undefined,
+          confirmationRequired: step.confirmationRequired || undefined,
+          components: components.length > 0 ? components : undefined,
           completed: false,
         });
       }
@@ -185,6 +303,10 @@ export default function WorkflowEditorScreen() {
         name: workflowName,
         steps: processedSteps,
         show_ferment_prompt: showFermentPrompt,
+        formula,
+        base_yield: hasYield ? { count: parseFloat(yieldCount), unit: yieldUnit.trim() } : undefined,
+        category: category.trim() || undefined,
+        tags: parseTags(tagsText),
       };
 
       // Update the workflow in the list
@@ -213,6 +335,11 @@ export default function WorkflowEditorScreen() {
     }
   };
 
+  const categoryOptions = [
+    ...knownCategories,
+    ...DEFAULT_CATEGORIES.filter(d => !knownCategories.some(k => normalizeTag(k) === normalizeTag(d))),
+  ];
+
   if (loading) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -241,6 +368,55 @@ export default function WorkflowEditorScreen() {
           />
         </View>
 
+        {/* Category & Tags */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Category</Text>
+          <View style={styles.pickerList}>
+            {categoryOptions.map(option => {
+              const selected = normalizeTag(option) === normalizeTag(category);
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.pickerChip, { borderColor: selected ? colors.primary : colors.border }]}
+                  onPress={() => setCategory(selected ? '' : option)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.pickerChipText, { color: selected ? colors.primary : colors.text }]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TextInput
+            style={[styles.input, {
+              backgroundColor: colors.surface,
+              color: colors.text,
+              borderColor: colors.border
+            }]}
+            value={category}
+            onChangeText={setCategory}
+            placeholder="Or type a new category"
+            placeholderTextColor={colors.textSecondary}
+            editable={!isSaving}
+          />
+
+          <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>Tags</Text>
+          <TextInput
+            style={[styles.input, {
+              backgroundColor: colors.surface,
+              color: colors.text,
+              borderColor: colors.border
+            }]}
+            value={tagsText}
+            onChangeText={setTagsText}
+            placeholder="e.g., sourdough, weekend, nut-free"
+            placeholderTextColor={colors.textSecondary}
+            autoCapitalize="none"
+            editable={!isSaving}
+          />
+        </View>
+
         {/* Show Ferment Prompt Toggle */}
         <View style={styles.section}>
           <View style={styles.toggleRow}>
@@ -261,6 +437,168 @@ export default function WorkflowEditorScreen() {
           </View>
         </View>
 
+        {/* Base Yield */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Base Yield</Text>
+          <View style={styles.checklistItemRow}>
+            <TextInput
+              style={[styles.quantityInput, {
+                backgroundColor: colors.surface,
+                color: colors.text,
+                borderColor: colors.border
+              }]}
+              value={yieldCount}
+              onChangeText={setYieldCount}
+              placeholder="24"
+              placeholderTextColor={colors.textSecondary}
+              keyboardType="decimal-pad"
+              editable={!isSaving}
+            />
+            <TextInput
+              style={[styles.checklistInput, {
+                backgroundColor: colors.surface,
+                color: colors.text,
+                borderColor: colors.border
+              }]}
+              value={yieldUnit}
+              onChangeText={setYieldUnit}
+              placeholder="baguettes"
+              placeholderTextColor={colors.textSecondary}
+              editable={!isSaving}
+            />
+          </View>
+          <Text style={[styles.helperText, { color: colors.textSecondary }]}>
+            What one 1x batch makes — lets new batches be sized by how many you need
+          </Text>
+        </View>
+
+        {/* Baker's Formula */}
+        <View style={styles.section}>
+          <View style={styles.toggleRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.sectionLabel, { color: colors.text }]}>
+                Baker&apos;s Formula
+              </Text>
+              <Text style={[styles.helperText, { color: colors.textSecondary, marginTop: 4 }]}>
+                Size batches by piece count or dough weight
+              </Text>
+            </View>
+            <Switch
+              value={formulaEnabled}
+              onValueChange={toggleFormula}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={colors.surface}
+            />
+          </View>
+
+          {formulaEnabled && (
+            <View style={[styles.stepCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Total flour at 1x (g) *
+              </Text>
+              <TextInput
+                style={[styles.input, {
+                  backgroundColor: colors.background,
+                  color: colors.text,
+                  borderColor: colors.border
+                }]}
+                value={flourWeight}
+                onChangeText={setFlourWeight}
+                placeholder="e.g., 1000"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="decimal-pad"
+                editable={!isSaving}
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Usual piece weight (g, optional)
+              </Text>
+              <TextInput
+                style={[styles.input, {
+                  backgroundColor: colors.background,
+                  color: colors.text,
+                  borderColor: colors.border
+                }]}
+                value={pieceWeight}
+                onChangeText={setPieceWeight}
+                placeholder="e.g., 80 for rolls"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="decimal-pad"
+                editable={!isSaving}
+              />
+
+              <View style={styles.checklistHeader}>
+                <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                  Ingredients (% of flour)
+                </Text>
+                <TouchableOpacity
+                  style={[styles.addChecklistButton, { backgroundColor: colors.success }]}
+                  onPress={() => setFormulaRows([...formulaRows, { name: '', percent: '', kind: 'other' }])}
+                  disabled={isSaving}
+                >
+                  <Text style={styles.addChecklistButtonText}>+ Item</Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.checklistItems}>
+                {formulaRows.map((row, rowIndex) => (
+                  <View key={rowIndex} style={styles.checklistItemRow}>
+                    <TextInput
+                      style={[styles.checklistInput, {
+                        backgroundColor: colors.background,
+                        color: colors.text,
+                        borderColor: colors.border
+                      }]}
+                      value={row.name}
+                      onChangeText={(text: string) => updateFormulaRow(rowIndex, { name: text })}
+                      placeholder="Ingredient"
+                      placeholderTextColor={colors.textSecondary}
+                      editable={!isSaving}
+                    />
+                    <TextInput
+                      style={[styles.quantityInput, {
+                        backgroundColor: colors.background,
+                        color: colors.text,
+                        borderColor: colors.border
+                      }]}
+                      value={row.percent}
+                      onChangeText={(text: string) => updateFormulaRow(rowIndex, { percent: text })}
+                      placeholder="%"
+                      placeholderTextColor={colors.textSecondary}
+                      keyboardType="decimal-pad"
+                      editable={!isSaving}
+                    />
+                    <TouchableOpacity
+                      style={[styles.pickerChip, { borderColor: colors.primary }]}
+                      onPress={() => updateFormulaRow(rowIndex, { kind: NEXT_KIND[row.kind] })}
+                      disabled={isSaving}
+                    >
+                      <Text style={[styles.pickerChipText, { color: colors.primary }]}>{row.kind}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => setFormulaRows(formulaRows.filter((_, i) => i !== rowIndex))}
+                      style={[styles.removeItemButton, { backgroundColor: colors.error }]}
+                      disabled={isSaving}
+                    >
+                      <Text style={styles.removeItemButtonText}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+
+              {(() => {
+                const formula = buildFormula();
+                const dough = bestUnit(doughWeight(formula), 'g');
+                return (
+                  <Text style={[styles.helperText, { color: colors.textSecondary }]}>
+                    Hydration {Math.round(hydration(formula) * 10) / 10}% · {formatQuantity(dough.quantity, dough.unit)} dough at 1x
+                  </Text>
+                );
+              })()}
+            </View>
+          )}
+        </View>
+
         {/* Steps */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -375,6 +713,81 @@ export default function WorkflowEditorScreen() {
                 )}
               </View>
 
+              {/* Sub-recipes Section */}
+              <View style={styles.checklistSection}>
+                <View style={styles.checklistHeader}>
+                  <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                    Sub-recipes
+                  </Text>
+                  <TouchableOpacity
+                    style={[styles.addChecklistButton, { backgroundColor: colors.success }]}
+                    onPress={() => setPickingComponentFor(pickingComponentFor === stepIndex ? null : stepIndex)}
+                    disabled={isSaving || otherWorkflows.length === 0}
+                  >
+                    <Text style={styles.addChecklistButtonText}>+ Sub-recipe</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {pickingComponentFor === stepIndex && (
+                  <View style={styles.pickerList}>
+                    {otherWorkflows.map(w => (
+                      <TouchableOpacity
+                        key={w.id}
+                        style={[styles.pickerChip, { borderColor: colors.primary }]}
+                        onPress={() => addComponent(stepIndex, w.id)}
+                      >
+                        <Text style={[styles.pickerChipText, { color: colors.primary }]}>{w.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                {step.componentDrafts && step.componentDrafts.length > 0 && (
+                  <View style={styles.checklistItems}>
+                    {step.componentDrafts.map((component, componentIndex) => (
+                      <View key={componentIndex} style={styles.checklistItemRow}>
+                        <Text style={[styles.componentName, { color: colors.text }]} numberOfLines={1}>
+                          {otherWorkflows.find(w => w.id === component.workflowId)?.name ?? 'Missing workflow'}
+                        </Text>
+                        <TextInput
+                          style={[styles.quantityInput, {
+                            backgroundColor: colors.background,
+                            color: colors.text,
+                            borderColor: colors.border
+                          }]}
+                          value={component.quantity}
+                          onChangeText={(text: string) => updateComponent(stepIndex, componentIndex, 'quantity', text)}
+                          placeholder="Qty"
+                          placeholderTextColor={colors.textSecondary}
+                          keyboardType="decimal-pad"
+                          editable={!isSaving}
+                        />
+                        <TextInput
+                          style={[styles.unitInput, {
+                            backgroundColor: colors.background,
+                            color: colors.text,
+                            borderColor: colors.border
+                          }]}
+                          value={component.unit}
+                          onChangeText={(text: string) => updateComponent(stepIndex, componentIndex, 'unit', text)}
+                          placeholder="g"
+                          placeholderTextColor={colors.textSecondary}
+                          autoCapitalize="none"
+                          editable={!isSaving}
+                        />
+                        <TouchableOpacity
+                          onPress={() => removeComponent(stepIndex, componentIndex)}
+                          style={[styles.removeItemButton, { backgroundColor: colors.error }]}
+                          disabled={isSaving}
+                        >
+                          <Text style={styles.removeItemButtonText}>Remove</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </View>
+
               <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
                 Timer (minutes)
               </Text>
@@ -395,6 +808,54 @@ export default function WorkflowEditorScreen() {
                 editable={!isSaving}
               />
 
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Repeat (optional - replaces the timer)
+              </Text>
+              <View style={[styles.checklistItemRow, { marginBottom: 16 }]}>
+                {([
+                  ['every', 'Every (min)', 'decimal-pad'],
+                  ['times', 'Times', 'number-pad'],
+                  ['label', 'Label, e.g. Fold', 'default'],
+                ] as const).map(([key, placeholder, keyboardType]) => (
+                  <TextInput
+                    key={key}
+                    style={[styles.checklistInput, {
+                      backgroundColor: colors.background,
+                      color: colors.text,
+                      borderColor: colors.border
+                    }]}
+                    value={step.intervalDraft?.[key] ?? ''}
+                    onChangeText={(text: string) => updateStep(stepIndex, 'intervalDraft', {
+                      every: '', times: '', label: '', ...step.intervalDraft, [key]: text,
+                    })}
+                    placeholder={placeholder}
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType={keyboardType}
+                    editable={!isSaving}
+                  />
+                ))}
+              </View>
+
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Retard here (hours)
+              </Text>
+              <TextInput
+                style={[styles.input, { 
+                  backgroundColor: colors.background, 
+                  color: colors.text,
+                  borderColor: colors.border 
+                }]}
+                value={step.retardHours?.toString() || ''}
+                onChangeText={(text: string) => {
+                  const num = parseInt(text);
+                  updateStep(stepIndex, 'retardHours', isNaN(num) || num <= 0 ? undefined : num);
+                }}
+                placeholder="Optional - cold-ferment batches pause here, e.g., 16"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="numeric"
+                editable={!isSaving}
+              />
+
               {/* YouTube Video URL */}
               <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
                 YouTube Video URL (optional)
@@ -414,6 +875,51 @@ export default function WorkflowEditorScreen() {
                 editable={!isSaving}
               />
 
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Target Temperature (optional)
+              </Text>
+              <TextInput
+                style={[styles.input, { 
+                  backgroundColor: colors.background, 
+                  color: colors.text,
+                  borderColor: colors.border 
+                }]}
+                value={step.targetTemp || ''}
+                onChangeText={(text: string) => updateStep(stepIndex, 'targetTemp', text)}
+                placeholder="e.g., 24-26°C"
+                placeholderTextColor={colors.textSecondary}
+                editable={!isSaving}
+              />
+
+              <Text style={[styles.fieldLabel, { color: colors.textSecondary }]}>
+                Visual Cues (optional)
+              </Text>
+              <TextInput
+                style={[styles.input, { 
+                  backgroundColor: colors.background, 
+                  color: colors.text,
+                  borderColor: colors.border 
+                }]}
+                value={step.visualCues || ''}
+                onChangeText={(text: string) => updateStep(stepIndex, 'visualCues', text)}
+                placeholder="e.g., Dough passes the windowpane test"
+                placeholderTextColor={colors.textSecondary}
+                editable={!isSaving}
+              />
+
+              <View style={[styles.toggleRow, { marginTop: 12 }]}>
+                <Text style={[styles.fieldLabel, { color: colors.textSecondary, flex: 1, marginBottom: 0 }]}>
+                  Require confirmation before continuing
+                </Text>
+                <Switch
+                  value={step.confirmationRequired ?? false}
+                  onValueChange={(value: boolean) => updateStep(stepIndex, 'confirmationRequired', value)}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor={colors.surface}
+                  disabled={isSaving}
+                />
+              </View>
+
               <Text style={[styles.helperText, { color: colors.textSecondary }]}>
                 💡 Tip: Add ingredient amounts like "Flour: 500g" for batch scaling
               </Text>
@@ -484,6 +990,12 @@ const styles = StyleSheet.create({
   checklistInput: { flex: 1, borderWidth: 1, borderRadius: 6, padding: 10, fontSize: 14 },
   removeItemButton: { paddingHorizontal: 10, paddingVertical: 8, borderRadius: 6 },
   removeItemButtonText: { color: 'white', fontSize: 12, fontWeight: '600' },
+  pickerList: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  pickerChip: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 12, paddingVertical: 6 },
+  pickerChipText: { fontSize: 13, fontWeight: '600' },
+  componentName: { flex: 1, fontSize: 14 },
+  quantityInput: { width: 64, borderWidth: 1, borderRadius: 6, padding: 10, fontSize: 14 },
+  unitInput: { width: 56, borderWidth: 1, borderRadius: 6, padding: 10, fontSize: 14 },
   helperText: { fontSize: 12, fontStyle: 'italic', marginTop: 8 },
   actionBar: { position: 'absolute', bottom: 0, left: 0, right: 0, flexDirection: 'row', padding: 16, gap: 12, borderTopWidth: 1 },
   cancelButton: { flex: 1, padding: 16, borderRadius: 12, alignItems: 'center' },
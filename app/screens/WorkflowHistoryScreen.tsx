@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  getWorkflowVersions,
+  getCachedWorkflows,
+  restoreWorkflowVersion,
+  WorkflowVersion,
+} from '../../services/database';
+
+export default function WorkflowHistoryScreen() {
+  const { colors } = useTheme();
+  const { workflowId } = useLocalSearchParams<{ workflowId: string }>();
+
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | undefined>(undefined);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!workflowId) return;
+    setVersions(await getWorkflowVersions(workflowId));
+    setCurrentVersion(getCachedWorkflows().find(w => w.id === workflowId)?.version);
+    setLoading(false);
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleRestore = (version: WorkflowVersion) => {
+    Alert.alert(
+      'Restore Version',
+      `Restore version ${version.version}? This saves it as a new version — running batches keep the steps they started with.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              setRestoring(true);
+              await restoreWorkflowVersion(workflowId!, version.version);
+              await loadVersions();
+            } catch (error) {
+              console.error('Error restoring version:', error);
+              Alert.alert('Error', 'Failed to restore version');
+            } finally {
+              setRestoring(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.emptyText, { color: colors.text }]}>Loading...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      {versions.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            No saved versions yet
+          </Text>
+        </View>
+      ) : (
+        versions.map(version => {
+          const isCurrent = version.version === currentVersion;
+          const isExpanded = expandedVersion === version.version;
+
+          return (
+            <TouchableOpacity
+              key={version.version}
+              style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => setExpandedVersion(isExpanded ? null : version.version)}
+              activeOpacity={0.8}
+            >
+              <View style={styles.cardHeader}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.cardTitle, { color: colors.text }]}>
+                    Version {version.version}{isCurrent ? ' (current)' : ''}
+                  </Text>
+                  <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
+                    {new Date(version.createdAt).toLocaleString()}
+                    {version.authorName ? ` · ${version.authorName}` : ''}
+                  </Text>
+                </View>
+                {!isCurrent && (
+                  <TouchableOpacity
+                    style={[styles.restoreButton, { backgroundColor: colors.primary }]}
+                    onPress={() => handleRestore(version)}
+                    disabled={restoring}
+                  >
+                    <Text style={styles.restoreButtonText}>Restore</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <Text style={[styles.summary, { color: colors.text }]}>{version.summary}</Text>
+
+              {isExpanded && (
+                <View style={[styles.stepList, { borderTopColor: colors.border }]}>
+                  <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+                    {version.name} · {version.steps.length} steps
+                  </Text>
+                  {version.steps.map((step, index) => (
+                    <Text key={step.id} style={[styles.stepItem, { color: colors.text }]}>
+                      {index + 1}. {step.title}
+                      {step.timerMinutes ? ` (${step.timerMinutes} min)` : ''}
+                      {step.intervalTimer ? ` (${step.intervalTimer.repetitions} × ${step.intervalTimer.intervalMinutes} min)` : ''}
+                      {step.retardHours ? ` (retard ${step.retardHours}h)` : ''}
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: { padding: 16 },
+  emptyState: { padding: 40, alignItems: 'center' },
+  emptyText: { fontSize: 16, textAlign: 'center' },
+  card: { borderWidth: 1, borderRadius: 12, padding: 16, marginBottom: 12 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  cardTitle: { fontSize: 18, fontWeight: '700', marginBottom: 4 },
+  cardSubtitle: { fontSize: 14 },
+  summary: { fontSize: 14, lineHeight: 20 },
+  restoreButton: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 6 },
+  restoreButtonText: { color: 'white', fontSize: 12, fontWeight: '600' },
+  stepList: { marginTop: 12, paddingTop: 12, borderTopWidth: 1 },
+  sectionLabel: { fontSize: 12, fontWeight: '600', marginBottom: 4 },
+  stepItem: { fontSize: 14, marginLeft: 8, marginTop: 2 },
+});
@@ -8,10 +8,16 @@ import {
   getWorkflows, getBatches, createBatch, duplicateBatch, 
   renameBatch, deleteBatch, batchHasProgress, getMostUrgentTimer,
   batchHasExpiredTimer, getTimerStatus, formatTimeRemaining,
-  claimWorkflow, unclaimWorkflow, getClaimedWorkflows, getUnclaimedWorkflows,
-  isWorkflowClaimedByMe, archiveWorkflow, unarchiveWorkflow,
-  Workflow, Batch
+  claimBatch, releaseBatch, getDeviceId, archiveWorkflow, unarchiveWorkflow,
+  getCachedWorkflows, subscribeToDataChanges,
+  isBatchActive, getBatchHistory, pauseBatch, resumeBatch, cancelBatch,
+  getBatch, startComponentBatches, workflowHasComponents,
+  getRetardedBatches, formatReadyAt, describeRetardTiming,
+  Workflow, Batch, BatchSizeTarget, RetardedBatch
 } from "../../services/database";
+import { formulaWeights, hydration, multiplierForTarget, multiplierForYield } from "../../utils/bakersMath";
+import { formatIngredient } from "../../utils/ingredients";
+import { collectCategories, collectTags, normalizeTag, searchWorkflows } from "../../utils/workflowSearch";
 import SettingsModal from "../components/SettingsModal";
 import { useTheme } from "../../contexts/ThemeContext";
 
@@ -30,6 +36,9 @@ const BatchItem: FC<{
   onDuplicate: (id: string) => void;
   onDelete: (id: string) => void;
   onClaim: (id: string) => void;
+  onTogglePause: (id: string) => void;
+  onCancel: (id: string) => void;
+  onTimeline: (id: string) => void;
   onPress: (id: string) => void;
 }> = ({
   item,
@@ -46,6 +55,9 @@ const BatchItem: FC<{
   onDuplicate,
   onDelete,
   onClaim,
+  onTogglePause,
+  onCancel,
+  onTimeline,
   onPress,
 }) => {
   const workflow = workflows.find(w => w.id === item.workflowId);
@@ -112,9 +124,14 @@ const BatchItem: FC<{
             ) : (
               <View>
                 <Text style={[styles.batchName, { color: colors.text }]}>{item.name}</Text>
-                {workflow.claimedByName && (
+                {item.parentBatchId && (
+                  <Text style={[styles.claimedByLabel, { color: colors.textSecondary }]}>
+                    ↳ for {getBatch(item.parentBatchId)?.name ?? 'another batch'}
+                  </Text>
+                )}
+                {item.claimedByName && (
                   <Text style={[styles.claimedByLabel, { color: colors.success }]}>
-                    {isClaimed ? 'Your batch' : `${workflow.claimedByName}`}
+                    {isClaimed ? 'Your batch' : `${item.claimedByName}`}
                   </Text>
                 )}
               </View>
@@ -122,7 +139,11 @@ const BatchItem: FC<{
           </View>
 
           <View style={styles.batchInfo}>
-            <Text style={[styles.batchMode, { color: colors.textSecondary }]}>{modeIcon} {modeText}</Text>
+            <Text style={[styles.batchMode, { color: colors.textSecondary }]}>
+              {modeIcon} {modeText}
+              {item.status === 'planned' && '  ·  Not started'}
+              {item.status === 'paused' && '  ·  ⏸ Paused'}
+            </Text>
             <Text style={[
               styles.batchTimer,
               { color: hasExpired ? colors.error : colors.primary }
@@ -168,6 +189,31 @@ const BatchItem: FC<{
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity 
+            style={[styles.contextMenuItem, { borderBottomColor: colors.border }]}
+            onPress={() => onTimeline(item.id)}
+          >
+            <Text style={[styles.contextMenuText, { color: colors.text }]}>Timeline</Text>
+          </TouchableOpacity>
+
+          {item.status !== 'planned' && (
+            <TouchableOpacity 
+              style={[styles.contextMenuItem, { borderBottomColor: colors.border }]}
+              onPress={() => onTogglePause(item.id)}
+            >
+              <Text style={[styles.contextMenuText, { color: colors.text }]}>
+                {item.status === 'paused' ? 'Resume' : 'Pause'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity 
+            style={[styles.contextMenuItem, { borderBottomColor: colors.border }]}
+            onPress={() => onCancel(item.id)}
+          >
+            <Text style={[styles.contextMenuText, { color: colors.warning }]}>Cancel Batch</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity 
             style={[styles.contextMenuItem, { borderBottomColor: colors.border, backgroundColor: colors.error + '15' }]}
             onPress={() => onDelete(item.id)}
@@ -187,15 +233,54 @@ const BatchItem: FC<{
   );
 };
 
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+const HistoryItem: FC<{
+  item: Batch;
+  colors: any;
+  onLongPress: (id: string) => void;
+}> = ({ item, colors, onLongPress }) => {
+  const isCompleted = item.status === 'completed';
+  const finishedAt = item.completedAt ?? (item.updated_at ? new Date(item.updated_at).getTime() : undefined);
+
+  return (
+    <TouchableOpacity
+      style={[styles.batchCard, styles.batchContainer, { backgroundColor: colors.surface, borderColor: colors.border }]}
+      onLongPress={() => onLongPress(item.id)}
+      delayLongPress={500}
+    >
+      <View style={styles.batchHeader}>
+        <Text style={[styles.batchName, { color: colors.text }]}>{item.name}</Text>
+        <Text style={[styles.claimedByLabel, { color: isCompleted ? colors.success : colors.error }]}>
+          {isCompleted ? '✓ Completed' : '✕ Cancelled'}
+          {finishedAt ? `  ·  ${new Date(finishedAt).toLocaleString()}` : ''}
+        </Text>
+      </View>
+      {isCompleted && item.completedAt && (
+        <Text style={[styles.batchMode, { color: colors.textSecondary }]}>
+          Took {formatDuration(item.completedAt - (item.startedAt ?? item.createdAt))}
+          {item.batchSizeMultiplier !== 1 ? `  ·  ${item.batchSizeMultiplier}x` : ''}
+        </Text>
+      )}
+      {!isCompleted && !!item.cancelledReason && (
+        <Text style={[styles.batchMode, { color: colors.textSecondary }]}>{item.cancelledReason}</Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
 const WorkflowItem: FC<{
   item: Workflow;
   colors: any;
-  hasActiveBatches: boolean;
-  isClaimed: boolean;
+  hasMyBatches: boolean;
   contextMenuOpen: boolean;
   onSelectWorkflow: (id: string) => void;
   onLongPress: (id: string) => void;
-}> = ({ item, colors, hasActiveBatches, isClaimed, contextMenuOpen, onSelectWorkflow, onLongPress }) => {
+}> = ({ item, colors, hasMyBatches, contextMenuOpen, onSelectWorkflow, onLongPress }) => {
   return (
     <View style={styles.workflowContainer}>
       <TouchableOpacity
@@ -208,14 +293,14 @@ const WorkflowItem: FC<{
           <View style={{ flex: 1 }}>
             <Text style={[styles.workflowName, { color: colors.text }]}>{item.name}</Text>
             <Text style={[styles.workflowSteps, { color: colors.textSecondary }]}>
-              {item.steps.length} steps
+              {item.category ? `${item.category} · ` : ''}{item.steps.length} steps
             </Text>
-            {item.claimedBy && !isClaimed && (
-              <Text style={[styles.claimedLabel, { color: colors.warning }]}>
-                {item.claimedByName || 'Another station'}
+            {!!item.tags?.length && (
+              <Text style={[styles.workflowTags, { color: colors.primary }]}>
+                {item.tags.map(tag => `#${tag}`).join('  ')}
               </Text>
             )}
-            {isClaimed && hasActiveBatches && (
+            {hasMyBatches && (
               <Text style={[styles.claimedLabel, { color: colors.success }]}>
                 You have active batches for this
               </Text>
@@ -257,12 +342,24 @@ export const WorkflowSelectScreen: FC = () => {
   const [renameText, setRenameText] = useState("");
   const [showNewBatchModal, setShowNewBatchModal] = useState(false);
   const [selectedWorkflow, setSelectedWorkflow] = useState<string | null>(null);
-  const [showMyWorkflows, setShowMyWorkflows] = useState(false);
+  const [batchView, setBatchView] = useState<'all' | 'mine' | 'history'>('all');
+  const showMyWorkflows = batchView === 'mine';
+  const showHistory = batchView === 'history';
+  const [cancellingBatch, setCancellingBatch] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
   const [showArchived, setShowArchived] = useState(false);
   const [displayedWorkflows, setDisplayedWorkflows] = useState<Workflow[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [batchSizeMultiplier, setBatchSizeMultiplier] = useState(1);
+  const [sizeMode, setSizeMode] = useState<'multiplier' | 'pieces' | 'dough' | 'yield'>('multiplier');
+  const [pieceCount, setPieceCount] = useState("");
+  const [pieceGrams, setPieceGrams] = useState("");
+  const [doughKg, setDoughKg] = useState("");
+  const [yieldCount, setYieldCount] = useState("");
   
-  const [claimedStatus, setClaimedStatus] = useState<Map<string, boolean>>(new Map());
+  const [myUserId, setMyUserId] = useState<string | null>(null);
   const [displayedBatches, setDisplayedBatches] = useState<Batch[]>([]);
 
   useEffect(() => {
@@ -273,66 +370,144 @@ export const WorkflowSelectScreen: FC = () => {
     return () => clearInterval(interval);
   }, []);
 
-  // CRITICAL FIX: Force refresh when screen gains focus
+  const applyData = useCallback((allWorkflows: Workflow[]) => {
+    setWorkflows(allWorkflows);
+    setBatches(getBatches());
+  }, []);
+
+  const loadData = useCallback(async () => {
+    console.log('[WorkflowSelect] Loading workflows...');
+    const allWorkflows = await getWorkflows();
+    console.log('[WorkflowSelect] Loaded', allWorkflows.length, 'workflows');
+    applyData(allWorkflows);
+  }, [applyData]);
+
+  // Refresh once on focus, then let realtime change events drive updates.
+  // database.ts falls back to polling on its own if the channel drops.
   useFocusEffect(
     useCallback(() => {
       console.log('[WorkflowSelect] Screen focused - refreshing data');
       loadData();
-      
-      // Also poll while screen is focused
-      const pollingInterval = setInterval(() => {
-        loadData();
-      }, 3000);
-      
-      return () => {
-        clearInterval(pollingInterval);
-      };
-    }, [])
+
+      const unsubscribe = subscribeToDataChanges(() => {
+        applyData(getCachedWorkflows());
+      });
+
+      return unsubscribe;
+    }, [loadData, applyData])
   );
 
-  const loadData = async () => {
-    console.log('[WorkflowSelect] Loading workflows...');
-    const allWorkflows = await getWorkflows();
-    console.log('[WorkflowSelect] Loaded', allWorkflows.length, 'workflows');
-    setWorkflows(allWorkflows);
-    setBatches(getBatches());
-    
-    const statusMap = new Map<string, boolean>();
-    for (const workflow of allWorkflows) {
-      const claimed = await isWorkflowClaimedByMe(workflow.id);
-      statusMap.set(workflow.id, claimed);
-    }
-    setClaimedStatus(statusMap);
-  };
+  useEffect(() => {
+    getDeviceId().then(id => setMyUserId(id || null));
+  }, []);
 
   useEffect(() => {
     const filtered = showArchived 
       ? workflows 
       : workflows.filter(w => !w.archived);
     
-    setDisplayedWorkflows(filtered);
-  }, [showArchived, workflows]);
+    setDisplayedWorkflows(searchWorkflows(filtered, {
+      query: searchQuery, category: categoryFilter ?? undefined, tags: tagFilter,
+    }));
+  }, [showArchived, workflows, searchQuery, categoryFilter, tagFilter]);
+
+  const workflowCategories = collectCategories(workflows);
+  const workflowTags = collectTags(workflows);
+  const isFiltering = !!searchQuery.trim() || !!categoryFilter || tagFilter.length > 0;
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag]);
+  };
 
   useEffect(() => {
+    const activeBatches = batches.filter(isBatchActive);
     if (showMyWorkflows) {
-      const myBatches = batches.filter(batch => {
-        const isClaimed = claimedStatus.get(batch.workflowId) || false;
-        return isClaimed;
-      });
+      const myBatches = activeBatches.filter(batch => !!myUserId && batch.claimedBy === myUserId);
       setDisplayedBatches(myBatches);
     } else {
-      setDisplayedBatches(batches);
+      setDisplayedBatches(activeBatches);
     }
-  }, [showMyWorkflows, batches, claimedStatus]);
+  }, [showMyWorkflows, batches, myUserId]);
 
-  const handleCreateBatch = async (mode: 'bake-today' | 'cold-ferment') => {
-    if (!selectedWorkflow) return;
-    
-    await createBatch(selectedWorkflow, mode, 1, batchSizeMultiplier);
+  const historyBatches = showHistory ? getBatchHistory() : [];
+  const selectedFormula = workflows.find(w => w.id === selectedWorkflow)?.formula;
+  const selectedYield = workflows.find(w => w.id === selectedWorkflow)?.base_yield;
+  const sizeModes = [
+    ['multiplier', 'Multiplier'] as const,
+    ...(selectedYield ? [['yield', 'Yield'] as const] : []),
+    ...(selectedFormula ? [['pieces', 'Pieces'] as const, ['dough', 'Dough'] as const] : []),
+  ];
+
+  const resetNewBatch = () => {
     setShowNewBatchModal(false);
     setSelectedWorkflow(null);
     setBatchSizeMultiplier(1);
+    setSizeMode('multiplier');
+    setPieceCount("");
+    setDoughKg("");
+    setYieldCount("");
+  };
+
+  const buildSizeTarget = (): BatchSizeTarget | null => {
+    if (sizeMode === 'pieces') {
+      const count = parseInt(pieceCount);
+      const grams = parseFloat(pieceGrams);
+      return count > 0 && grams > 0 ? { kind: 'pieces', count, pieceGrams: grams } : null;
+    }
+    if (sizeMode === 'dough') {
+      const kg = parseFloat(doughKg);
+      return kg > 0 ? { kind: 'dough', grams: kg * 1000 } : null;
+    }
+    if (sizeMode === 'yield' && selectedYield) {
+      const count = parseInt(yieldCount);
+      return count > 0 ? { kind: 'yield', count, unit: selectedYield.unit } : null;
+    }
+    return null;
+  };
+
+  const handleCreateBatch = async (mode: 'bake-today' | 'cold-ferment') => {
+    if (!selectedWorkflow) return;
+
+    const size = sizeMode === 'multiplier' ? batchSizeMultiplier : buildSizeTarget();
+    if (size === null) {
+      Alert.alert('Batch Size',
+        sizeMode === 'pieces' ? 'Enter a piece count and weight'
+          : sizeMode === 'yield' ? 'Enter how many to make' : 'Enter a dough weight');
+      return;
+    }
+
+    let batch: Batch;
+    try {
+      batch = await createBatch(selectedWorkflow, mode, 1, size);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not create batch');
+      return;
+    }
+    resetNewBatch();
     await loadData();
+
+    const workflow = workflows.find(w => w.id === batch.workflowId);
+    if (workflow && workflowHasComponents(workflow)) {
+      Alert.alert(
+        'Start Sub-recipes?',
+        `${workflow.name} uses other recipes. Start a linked batch for each now?`,
+        [
+          { text: 'Later', style: 'cancel' },
+          {
+            text: 'Start All',
+            onPress: async () => {
+              try {
+                const started = await startComponentBatches(batch.id);
+                Alert.alert('Sub-recipes Started', `${started.length} linked batch${started.length === 1 ? '' : 'es'} created`);
+              } catch (error) {
+                Alert.alert('Error', error instanceof Error ? error.message : 'Could not start sub-recipes');
+              }
+              await loadData();
+            },
+          },
+        ]
+      );
+    }
   };
 
   const handleDuplicateBatch = async (batchId: string) => {
@@ -347,7 +522,7 @@ export const WorkflowSelectScreen: FC = () => {
     if (hasProgress) {
       Alert.alert(
         'Delete Batch?',
-        'This batch has progress. Are you sure?',
+        'This batch has progress. It will be moved to the trash, where it can be restored from Settings.',
         [
           { text: 'Cancel', style: 'cancel' },
           { 
@@ -368,6 +543,94 @@ export const WorkflowSelectScreen: FC = () => {
     }
   };
 
+  const handleTogglePause = async (batchId: string) => {
+    const batch = batches.find(b => b.id === batchId);
+    if (!batch) return;
+
+    setContextMenuBatch(null);
+    try {
+      if (batch.status === 'paused') {
+        await resumeBatch(batchId);
+      } else {
+        await pauseBatch(batchId);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update batch');
+    }
+    setBatches(getBatches());
+  };
+
+  const handleResumeFromRetarder = ({ batch, state }: RetardedBatch) => {
+    const resume = async () => {
+      try {
+        await resumeBatch(batch.id);
+      } catch (error) {
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resume batch');
+        return;
+      }
+      setBatches(getBatches());
+      handleBatchPress(batch.id);
+    };
+
+    if (state === 'early' && batch.retard) {
+      Alert.alert(
+        'Not Ready Yet',
+        `${batch.name} is ready ${formatReadyAt(batch.retard.readyAt)} (${describeRetardTiming(batch.retard)}). Resume anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Resume', onPress: resume },
+        ]
+      );
+    } else {
+      resume();
+    }
+  };
+
+  const handleCancelBatch = (batchId: string) => {
+    setContextMenuBatch(null);
+    setCancelReason("");
+    setCancellingBatch(batchId);
+  };
+
+  const confirmCancelBatch = async () => {
+    if (!cancellingBatch) return;
+    try {
+      await cancelBatch(cancellingBatch, cancelReason);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to cancel batch');
+    }
+    setCancellingBatch(null);
+    setCancelReason("");
+    setBatches(getBatches());
+  };
+
+  const handleBatchTimeline = (batchId: string) => {
+    setContextMenuBatch(null);
+    router.push({
+      pathname: '/screens/BatchTimelineScreen',
+      params: { batchId }
+    });
+  };
+
+  const handleHistoryLongPress = (batchId: string) => {
+    Alert.alert(
+      'Finished Batch',
+      'Removing it moves it to the trash. Its report stays in Reports.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Timeline', onPress: () => handleBatchTimeline(batchId) },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteBatch(batchId);
+            await loadData();
+          }
+        }
+      ]
+    );
+  };
+
   const handleRenameBatch = async (batchId: string) => {
     if (renameText.trim()) {
       await renameBatch(batchId, renameText.trim());
@@ -388,16 +651,20 @@ export const WorkflowSelectScreen: FC = () => {
     const batch = batches.find(b => b.id === batchId);
     if (!batch) return;
 
-    const isClaimed = claimedStatus.get(batch.workflowId) || false;
+    const isClaimed = !!myUserId && batch.claimedBy === myUserId;
     
-    if (isClaimed) {
-      await unclaimWorkflow(batch.workflowId);
-    } else {
-      await claimWorkflow(batch.workflowId);
+    setContextMenuBatch(null);
+    const result = isClaimed ? await releaseBatch(batchId) : await claimBatch(batchId);
+    
+    if (!result.ok) {
+      if (result.heldBy) {
+        Alert.alert('Already Claimed', `${result.heldBy} is working on this batch.`);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update claim');
+      }
     }
     
-    setContextMenuBatch(null);
-    await loadData();
+    setBatches(getBatches());
   };
 
   const handleSelectWorkflow = (workflowId: string) => {
@@ -405,6 +672,9 @@ export const WorkflowSelectScreen: FC = () => {
     if (!workflow) return;
 
     setSelectedWorkflow(workflowId);
+    // Yield and formula modes only exist for workflows that declare them
+    setSizeMode('multiplier');
+    setPieceGrams(workflow.formula?.pieceWeight ? String(workflow.formula.pieceWeight) : "");
     setShowNewBatchModal(true);
   };
 
@@ -434,8 +704,16 @@ export const WorkflowSelectScreen: FC = () => {
     });
   };
 
+  const handleWorkflowHistory = (workflowId: string) => {
+    setContextMenuWorkflow(null);
+    router.push({
+      pathname: '/screens/WorkflowHistoryScreen',
+      params: { workflowId }
+    });
+  };
+
   const renderBatch = ({ item }: { item: Batch }) => {
-    const isClaimed = claimedStatus.get(item.workflowId) || false;
+    const isClaimed = !!myUserId && item.claimedBy === myUserId;
     
     return (
       <BatchItem
@@ -453,21 +731,29 @@ export const WorkflowSelectScreen: FC = () => {
         onDuplicate={handleDuplicateBatch}
         onDelete={handleDeleteBatch}
         onClaim={handleClaimBatch}
+        onTogglePause={handleTogglePause}
+        onCancel={handleCancelBatch}
+        onTimeline={handleBatchTimeline}
         onPress={handleBatchPress}
       />
     );
   };
 
+  const retardedBatches = getRetardedBatches();
+
+  const retardColor = ({ state }: RetardedBatch) =>
+    state === 'overdue' ? colors.error : state === 'ready' ? colors.success : colors.textSecondary;
+
   const renderWorkflow = ({ item, contextMenuOpen, onLongPress }: { item: Workflow; contextMenuOpen: boolean; onLongPress: (id: string) => void }) => {
-    const isClaimed = claimedStatus.get(item.id) || false;
-    const hasActiveBatches = batches.some(b => b.workflowId === item.id);
+    const hasMyBatches = !!myUserId && batches.some(b =>
+      b.workflowId === item.id && b.claimedBy === myUserId && isBatchActive(b)
+    );
     
     return (
       <WorkflowItem
         item={item}
         colors={colors}
-        hasActiveBatches={hasActiveBatches}
-        isClaimed={isClaimed}
+        hasMyBatches={hasMyBatches}
         contextMenuOpen={contextMenuOpen}
         onSelectWorkflow={handleSelectWorkflow}
         onLongPress={onLongPress}
@@ -481,13 +767,13 @@ export const WorkflowSelectScreen: FC = () => {
         <TouchableOpacity
           style={[
             styles.toggleOption,
-            !showMyWorkflows && { borderBottomColor: colors.primary, borderBottomWidth: 3 }
+            batchView === 'all' && { borderBottomColor: colors.primary, borderBottomWidth: 3 }
           ]}
-          onPress={() => setShowMyWorkflows(false)}
+          onPress={() => setBatchView('all')}
         >
           <Text style={[
             styles.toggleText,
-            { color: !showMyWorkflows ? colors.primary : colors.textSecondary }
+            { color: batchView === 'all' ? colors.primary : colors.textSecondary }
           ]}>
             All Workflows
           </Text>
@@ -498,7 +784,7 @@ export const WorkflowSelectScreen: FC = () => {
             styles.toggleOption,
             showMyWorkflows && { borderBottomColor: colors.primary, borderBottomWidth: 3 }
           ]}
-          onPress={() => setShowMyWorkflows(true)}
+          onPress={() => setBatchView('mine')}
         >
           <Text style={[
             styles.toggleText,
@@ -507,10 +793,74 @@ export const WorkflowSelectScreen: FC = () => {
             My Workflows
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[
+            styles.toggleOption,
+            showHistory && { borderBottomColor: colors.primary, borderBottomWidth: 3 }
+          ]}
+          onPress={() => setBatchView('history')}
+        >
+          <Text style={[
+            styles.toggleText,
+            { color: showHistory ? colors.primary : colors.textSecondary }
+          ]}>
+            History
+          </Text>
+        </TouchableOpacity>
       </View>
 
       <ScrollView style={{ flex: 1 }}>
-        {displayedBatches.length > 0 && (
+        {showHistory && (
+          historyBatches.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                No finished batches
+              </Text>
+              <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                Completed and cancelled batches show up here
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Batch History</Text>
+              <View style={styles.listContent}>
+                {historyBatches.map(item => (
+                  <HistoryItem key={item.id} item={item} colors={colors} onLongPress={handleHistoryLongPress} />
+                ))}
+              </View>
+            </View>
+          )
+        )}
+
+        {!showHistory && retardedBatches.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Resume from Retarder</Text>
+            <View style={styles.listContent}>
+              {retardedBatches.map(entry => (
+                <View
+                  key={entry.batch.id}
+                  style={[styles.retardRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.batchName, { color: colors.text }]}>{entry.batch.name}</Text>
+                    <Text style={[styles.batchMode, { color: retardColor(entry) }]}>
+                      Ready {formatReadyAt(entry.batch.retard!.readyAt)} · {describeRetardTiming(entry.batch.retard!)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.retardButton, { backgroundColor: entry.state === 'early' ? colors.textSecondary : colors.primary }]}
+                    onPress={() => handleResumeFromRetarder(entry)}
+                  >
+                    <Text style={styles.retardButtonText}>Resume</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {!showHistory && displayedBatches.length > 0 && (
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>Active Batches</Text>
             <View style={styles.listContent}>
@@ -523,7 +873,7 @@ export const WorkflowSelectScreen: FC = () => {
           </View>
         )}
 
-        {!showMyWorkflows && (
+        {batchView === 'all' && (
           <View style={styles.section}>
             <View style={styles.sectionTitleRow}>
               <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -541,15 +891,67 @@ export const WorkflowSelectScreen: FC = () => {
                 />
               </View>
             </View>
-            {displayedWorkflows.length === 0 ? (
-              <View style={styles.emptyState}>
-                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-                  {showArchived ? 'No archived workflows' : 'No workflows yet'}
-                </Text>
-                <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
-                  {showArchived ? 'Archive workflows by long-pressing them' : 'Tap settings to import'}
-                </Text>
+            {workflows.length > 0 && (
+              <View style={styles.filterBar}>
+                <TextInput
+                  style={[styles.searchInput, { backgroundColor: colors.surface, color: colors.text, borderColor: colors.border }]}
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder="Search names, ingredients, steps..."
+                  placeholderTextColor={colors.textSecondary}
+                  autoCorrect={false}
+                  clearButtonMode="while-editing"
+                />
+                {(workflowCategories.length > 0 || workflowTags.length > 0) && (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChips}>
+                    {workflowCategories.map(category => {
+                      const selected = categoryFilter !== null && normalizeTag(categoryFilter) === normalizeTag(category);
+                      return (
+                        <TouchableOpacity
+                          key={`category:${category}`}
+                          style={[styles.filterChip, { borderColor: selected ? colors.primary : colors.border }, selected && { backgroundColor: colors.primary }]}
+                          onPress={() => setCategoryFilter(selected ? null : category)}
+                        >
+                          <Text style={[styles.filterChipText, { color: selected ? 'white' : colors.text }]}>{category}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                    {workflowTags.map(tag => {
+                      const selected = tagFilter.includes(tag);
+                      return (
+                        <TouchableOpacity
+                          key={`tag:${tag}`}
+                          style={[styles.filterChip, { borderColor: selected ? colors.primary : colors.border }, selected && { backgroundColor: colors.primary }]}
+                          onPress={() => toggleTagFilter(tag)}
+                        >
+                          <Text style={[styles.filterChipText, { color: selected ? 'white' : colors.primary }]}>#{tag}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                )}
               </View>
+            )}
+            {displayedWorkflows.length === 0 ? (
+              isFiltering ? (
+                <View style={styles.emptyState}>
+                  <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No matching workflows</Text>
+                  <TouchableOpacity
+                    onPress={() => { setSearchQuery(""); setCategoryFilter(null); setTagFilter([]); }}
+                  >
+                    <Text style={[styles.emptySubtext, { color: colors.primary }]}>Clear search and filters</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.emptyState}>
+                  <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                    {showArchived ? 'No archived workflows' : 'No workflows yet'}
+                  </Text>
+                  <Text style={[styles.emptySubtext, { color: colors.textSecondary }]}>
+                    {showArchived ? 'Archive workflows by long-pressing them' : 'Tap settings to import'}
+                  </Text>
+                </View>
+              )
             ) : (
               <View style={styles.listContent}>
                 {displayedWorkflows.map(item => (
@@ -574,6 +976,13 @@ export const WorkflowSelectScreen: FC = () => {
                           <Text style={[styles.contextMenuText, { color: colors.text }]}>Edit Workflow</Text>
                         </TouchableOpacity>
 
+                        <TouchableOpacity 
+                          style={[styles.contextMenuItem, { borderBottomColor: colors.border }]}
+                          onPress={() => handleWorkflowHistory(item.id)}
+                        >
+                          <Text style={[styles.contextMenuText, { color: colors.text }]}>Version History</Text>
+                        </TouchableOpacity>
+
                         <TouchableOpacity 
                           style={[styles.contextMenuItem, { borderBottomColor: colors.border }]}
                           onPress={() => handleArchiveWorkflow(item.id)}
@@ -628,6 +1037,39 @@ export const WorkflowSelectScreen: FC = () => {
         onWorkflowsUpdated={loadData}
       />
 
+      <Modal
+        visible={!!cancellingBatch}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setCancellingBatch(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modeModal, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.modeModalTitle, { color: colors.text }]}>Cancel Batch?</Text>
+            <TextInput
+              style={[styles.reasonInput, { color: colors.text, borderColor: colors.border }]}
+              value={cancelReason}
+              onChangeText={setCancelReason}
+              placeholder="Reason (optional)"
+              placeholderTextColor={colors.textSecondary}
+              autoFocus
+            />
+            <TouchableOpacity 
+              style={[styles.modeButton, { backgroundColor: colors.error + '20', borderColor: colors.error }]}
+              onPress={confirmCancelBatch}
+            >
+              <Text style={[styles.modeButtonText, { color: colors.error }]}>Cancel Batch</Text>
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.modeCancelButton}
+              onPress={() => setCancellingBatch(null)}
+            >
+              <Text style={[styles.modeCancelText, { color: colors.textSecondary }]}>Keep Batch</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         visible={showNewBatchModal}
         transparent
@@ -644,29 +1086,134 @@ export const WorkflowSelectScreen: FC = () => {
             
             <View style={styles.sizeSection}>
               <Text style={[styles.sizeSectionLabel, { color: colors.textSecondary }]}>Batch Size</Text>
-              <View style={styles.sizeOptions}>
-                {[0.5, 1, 2, 3].map(size => (
-                  <TouchableOpacity
-                    key={size}
-                    style={[
-                      styles.sizeButton,
-                      { borderColor: colors.border },
-                      batchSizeMultiplier === size && { 
-                        backgroundColor: colors.primary,
-                        borderColor: colors.primary 
-                      }
-                    ]}
-                    onPress={() => setBatchSizeMultiplier(size)}
-                  >
-                    <Text style={[
-                      styles.sizeButtonText,
-                      { color: batchSizeMultiplier === size ? 'white' : colors.text }
-                    ]}>
-                      {size}x
+              {sizeModes.length > 1 && (
+                <View style={[styles.sizeOptions, { marginBottom: 8 }]}>
+                  {sizeModes.map(([value, label]) => (
+                    <TouchableOpacity
+                      key={value}
+                      style={[
+                        styles.sizeButton,
+                        { borderColor: colors.border },
+                        sizeMode === value && { borderColor: colors.primary }
+                      ]}
+                      onPress={() => setSizeMode(value)}
+                    >
+                      <Text style={[styles.sizeModeText, { color: sizeMode === value ? colors.primary : colors.textSecondary }]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {sizeMode === 'multiplier' && (
+                <View style={styles.sizeOptions}>
+                  {[0.5, 1, 2, 3].map(size => (
+                    <TouchableOpacity
+                      key={size}
+                      style={[
+                        styles.sizeButton,
+                        { borderColor: colors.border },
+                        batchSizeMultiplier === size && { 
+                          backgroundColor: colors.primary,
+                          borderColor: colors.primary 
+                        }
+                      ]}
+                      onPress={() => setBatchSizeMultiplier(size)}
+                    >
+                      <Text style={[
+                        styles.sizeButtonText,
+                        { color: batchSizeMultiplier === size ? 'white' : colors.text }
+                      ]}>
+                        {size}x
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {sizeMode === 'pieces' && (
+                <View style={styles.sizeOptions}>
+                  <TextInput
+                    style={[styles.sizeInput, { color: colors.text, borderColor: colors.border }]}
+                    value={pieceCount}
+                    onChangeText={setPieceCount}
+                    placeholder="Pieces"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="number-pad"
+                  />
+                  <Text style={[styles.sizeInputJoin, { color: colors.textSecondary }]}>×</Text>
+                  <TextInput
+                    style={[styles.sizeInput, { color: colors.text, borderColor: colors.border }]}
+                    value={pieceGrams}
+                    onChangeText={setPieceGrams}
+                    placeholder="g each"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              )}
+
+              {sizeMode === 'dough' && (
+                <View style={styles.sizeOptions}>
+                  <TextInput
+                    style={[styles.sizeInput, { color: colors.text, borderColor: colors.border }]}
+                    value={doughKg}
+                    onChangeText={setDoughKg}
+                    placeholder="Total dough"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="decimal-pad"
+                  />
+                  <Text style={[styles.sizeInputJoin, { color: colors.textSecondary }]}>kg</Text>
+                </View>
+              )}
+
+              {sizeMode === 'yield' && !!selectedYield && (
+                <View style={styles.sizeOptions}>
+                  <TextInput
+                    style={[styles.sizeInput, { color: colors.text, borderColor: colors.border }]}
+                    value={yieldCount}
+                    onChangeText={setYieldCount}
+                    placeholder="How many"
+                    placeholderTextColor={colors.textSecondary}
+                    keyboardType="number-pad"
+                  />
+                  <Text style={[styles.sizeInputJoin, { color: colors.textSecondary }]}>{selectedYield.unit}</Text>
+                </View>
+              )}
+
+              {sizeMode === 'yield' && !!selectedYield && (() => {
+                const count = parseInt(yieldCount);
+                if (!(count > 0)) return null;
+                return (
+                  <View style={styles.formulaPreview}>
+                    <Text style={[styles.formulaPreviewTitle, { color: colors.text }]}>
+                      {multiplierForYield(selectedYield, count)}x
                     </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
+                    <Text style={[styles.formulaPreviewLine, { color: colors.textSecondary }]}>
+                      1x makes {selectedYield.count} {selectedYield.unit}
+                    </Text>
+                  </View>
+                );
+              })()}
+
+              {!!selectedFormula && (sizeMode === 'pieces' || sizeMode === 'dough') && (() => {
+                const target = buildSizeTarget();
+                if (!target || target.kind === 'yield') return null;
+                const multiplier = multiplierForTarget(selectedFormula, target);
+                return (
+                  <View style={styles.formulaPreview}>
+                    <Text style={[styles.formulaPreviewTitle, { color: colors.text }]}>
+                      {multiplier}x · {Math.round(hydration(selectedFormula))}% hydration
+                    </Text>
+                    {formulaWeights(selectedFormula, multiplier).map(ingredient => (
+                      <Text key={ingredient.name} style={[styles.formulaPreviewLine, { color: colors.textSecondary }]}>
+                        {formatIngredient(ingredient)}
+                      </Text>
+                    ))}
+                  </View>
+                );
+              })()}
             </View>
 
             {selectedWorkflow && workflows.find(w => w.id === selectedWorkflow)?.show_ferment_prompt !== false && (
@@ -686,7 +1233,19 @@ export const WorkflowSelectScreen: FC = () => {
                   onPress={() => handleCreateBatch('cold-ferment')}
                 >
                   <Text style={styles.modeButtonIcon}>🔵</Text>
-                  <Text style={[styles.modeButtonText, { color: colors.text }]}>Cold Ferment</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.modeButtonText, { color: colors.text }]}>Cold Ferment</Text>
+                    {(() => {
+                      const retardStep = workflows.find(w => w.id === selectedWorkflow)?.steps.find(step => step.retardHours);
+                      return (
+                        <Text style={[styles.modeButtonHint, { color: colors.textSecondary }]}>
+                          {retardStep
+                            ? `Pauses at "${retardStep.title}" for ${retardStep.retardHours}h`
+                            : 'No retard step marked in this workflow'}
+                        </Text>
+                      );
+                    })()}
+                  </View>
                 </TouchableOpacity>
               </>
             )}
@@ -702,11 +1261,7 @@ export const WorkflowSelectScreen: FC = () => {
 
             <TouchableOpacity 
               style={styles.modeCancelButton}
-              onPress={() => {
-                setShowNewBatchModal(false);
-                setSelectedWorkflow(null);
-                setBatchSizeMultiplier(1);
-              }}
+              onPress={resetNewBatch}
             >
               <Text style={[styles.modeCancelText, { color: colors.textSecondary }]}>Cancel</Text>
             </TouchableOpacity>
@@ -749,6 +1304,12 @@ const styles = StyleSheet.create({
   workflowName: { fontSize: 18, fontWeight: '600', marginBottom: 4 },
   workflowSteps: { fontSize: 14 },
   claimedLabel: { fontSize: 12, marginTop: 4, fontWeight: '600' },
+  workflowTags: { fontSize: 12, marginTop: 4 },
+  filterBar: { paddingHorizontal: 20, marginBottom: 12, gap: 8 },
+  searchInput: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 14, paddingVertical: 10, fontSize: 16 },
+  filterChips: { gap: 8 },
+  filterChip: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 12, paddingVertical: 6 },
+  filterChipText: { fontSize: 13, fontWeight: '600' },
   workflowContainer: { marginBottom: 12 },
   settingsButton: { position: 'absolute', bottom: 30, right: 30, width: 70, height: 70, borderRadius: 35, justifyContent: 'center', alignItems: 'center', elevation: 8, shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.3, shadowRadius: 5, zIndex: 9999 },
   line: { width: 30, height: 4, backgroundColor: 'white', marginVertical: 3, borderRadius: 2 },
@@ -760,11 +1321,22 @@ const styles = StyleSheet.create({
   sizeOptions: { flexDirection: 'row', gap: 8 },
   sizeButton: { flex: 1, padding: 12, borderRadius: 8, borderWidth: 2, alignItems: 'center' },
   sizeButtonText: { fontSize: 16, fontWeight: '600' },
+  sizeModeText: { fontSize: 14, fontWeight: '600' },
+  sizeInput: { flex: 1, borderWidth: 1, borderRadius: 8, padding: 12, fontSize: 16 },
+  sizeInputJoin: { fontSize: 16, alignSelf: 'center' },
+  formulaPreview: { marginTop: 12, gap: 2 },
+  formulaPreviewTitle: { fontSize: 15, fontWeight: '600', marginBottom: 4 },
+  formulaPreviewLine: { fontSize: 13 },
   modeSectionLabel: { fontSize: 14, marginBottom: 12, fontWeight: '600' },
   modeButton: { padding: 16, borderRadius: 12, borderWidth: 2, marginBottom: 12, flexDirection: 'row', alignItems: 'center', gap: 12 },
   modeButtonIcon: { fontSize: 24 },
   modeButtonText: { fontSize: 18, fontWeight: '600' },
+  modeButtonHint: { fontSize: 12, marginTop: 2 },
+  retardRow: { flexDirection: 'row', alignItems: 'center', gap: 12, borderWidth: 1, borderRadius: 12, padding: 16, marginBottom: 12 },
+  retardButton: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8 },
+  retardButtonText: { color: 'white', fontSize: 14, fontWeight: '600' },
   modeCancelButton: { padding: 12, marginTop: 8 },
+  reasonInput: { borderWidth: 1, borderRadius: 8, padding: 12, fontSize: 16, marginBottom: 16 },
   modeCancelText: { fontSize: 16, textAlign: 'center' },
 });
 
@@ -4,11 +4,13 @@
 // Resolves quickly whether online or offline
 // by racing a real session check against a
 // timeout that falls back to cached session.
+// Demo mode (in-memory backend) skips auth.
 // ============================================
 
 import { useEffect, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
+import { isDemoMode, loadBackendMode } from '../services/backend';
 import { initializeDatabase } from '../services/database';
 import { initializeReports } from '../services/reports';
 
@@ -25,6 +27,18 @@ export function useAppInit(): { initState: InitState } {
 
     async function init() {
       try {
+        await loadBackendMode();
+
+        // Demo kitchen — no session to check, seed data is ready immediately
+        if (isDemoMode()) {
+          await Promise.all([
+            initializeDatabase().catch(e => console.warn('[useAppInit] db init error:', e)),
+            initializeReports().catch(e => console.warn('[useAppInit] reports init error:', e)),
+          ]);
+          if (!cancelled) setInitState('online');
+          return;
+        }
+
         // Race: real session check vs timeout
         const sessionResult = await Promise.race([
           supabase.auth.getSession(),
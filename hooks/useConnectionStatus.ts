@@ -1,40 +1,49 @@
 // ============================================
 // FILE: hooks/useConnectionStatus.ts
 // Tracks real-time connectivity state,
-// pending offline queue count, last sync
-// time, and exposes a manualRetry function.
+// pending offline queue count, unsynced
+// reports, last sync time, and exposes a
+// manualRetry function. While online it also
+// replays queued writes whose backoff has run
+// out.
 // ============================================
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import NetInfo from '@react-native-community/netinfo';
 import { flushOfflineQueue, getPendingCount } from '../services/offlineQueue';
 import { syncFromServer } from '../services/database';
+import { getUnsyncedReportCount, syncPendingReports } from '../services/reports';
 
 export type ConnectionState = 'online' | 'offline' | 'checking';
 
 export interface ConnectionStatus {
   state: ConnectionState;
   pendingCount: number;
+  /** Reports saved on this device that haven't reached the server. */
+  unsyncedReports: number;
   lastSyncedAt: Date | null;
   manualRetry: () => Promise<void>;
 }
 
-const POLL_INTERVAL_MS = 30_000; // re-check pending count every 30s
+const POLL_INTERVAL_MS = 30_000; // re-check pending count (and retry due writes) every 30s
 
 export function useConnectionStatus(): ConnectionStatus {
   const [state, setState] = useState<ConnectionState>('checking');
   const [pendingCount, setPendingCount] = useState(0);
+  const [unsyncedReports, setUnsyncedReports] = useState(0);
   const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const isSyncing = useRef(false);
+  const isOnline = useRef(false);
 
   // ── Sync helper ────────────────────────────────────────────────────────────
-  const performSync = useCallback(async () => {
+  const performSync = useCallback(async (ignoreBackoff = false) => {
     if (isSyncing.current) return;
     isSyncing.current = true;
 
     try {
-      await flushOfflineQueue();
+      await flushOfflineQueue({ ignoreBackoff });
+      await syncPendingReports({ includeFailed: ignoreBackoff });
       await syncFromServer();
       setLastSyncedAt(new Date());
     } catch (err) {
@@ -42,6 +51,7 @@ export function useConnectionStatus(): ConnectionStatus {
     } finally {
       const count = await getPendingCount();
       setPendingCount(count);
+      setUnsyncedReports(getUnsyncedReportCount());
       isSyncing.current = false;
     }
   }, []);
@@ -51,9 +61,11 @@ export function useConnectionStatus(): ConnectionStatus {
     // Initial check
     setState('checking');
     getPendingCount().then(setPendingCount);
+    setUnsyncedReports(getUnsyncedReportCount());
 
     const unsubscribe = NetInfo.addEventListener(netState => {
       const isConnected = netState.isConnected && netState.isInternetReachable !== false;
+      isOnline.current = !!isConnected;
 
       if (isConnected) {
         setState('online');
@@ -72,8 +84,12 @@ export function useConnectionStatus(): ConnectionStatus {
   // ── Periodic pending count poll ────────────────────────────────────────────
   useEffect(() => {
     pollRef.current = setInterval(async () => {
+      if (isOnline.current && !isSyncing.current && (await getPendingCount()) > 0) {
+        await flushOfflineQueue().catch(err => console.warn('[useConnectionStatus] retry error:', err));
+      }
       const count = await getPendingCount();
       setPendingCount(count);
+      setUnsyncedReports(getUnsyncedReportCount());
     }, POLL_INTERVAL_MS);
 
     return () => {
@@ -85,12 +101,13 @@ export function useConnectionStatus(): ConnectionStatus {
   const manualRetry = useCallback(async () => {
     setState('checking');
     try {
-      await performSync();
+      // The user asked for it — don't make them wait out the backoff
+      await performSync(true);
       setState('online');
     } catch {
       setState('offline');
     }
   }, [performSync]);
 
-  return { state, pendingCount, lastSyncedAt, manualRetry };
+  return { state, pendingCount, unsyncedReports, lastSyncedAt, manualRetry };
 }
\ No newline at end of file
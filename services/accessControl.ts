@@ -3,7 +3,7 @@
 // Determines what a user can access based on clock-in status
 // ============================================
 
-import { supabase } from './supabaseClient';
+import { getBackend } from './backend';
 
 interface AccessCheck {
   canAccess: boolean;
@@ -27,12 +27,7 @@ export async function canAccessWorkflows(userId: string, ownerId: string): Promi
   }
 
   // Get role settings for this user in this owner's network
-  const { data: roleSettings } = await supabase
-    .from('network_member_roles')
-    .select('*')
-    .eq('owner_id', ownerId)
-    .eq('user_id', userId)
-    .single();
+  const { data: roleSettings } = await getBackend().profiles.getMemberRole(ownerId, userId);
 
   if (!roleSettings) {
     return { canAccess: false, reason: 'Not a member of this network' };
@@ -49,13 +44,7 @@ export async function canAccessWorkflows(userId: string, ownerId: string): Promi
   }
 
   // Rule 4: Must be clocked in to this specific network
-  const { data: activeEntry } = await supabase
-    .from('time_entries')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('owner_id', ownerId)
-    .is('clock_out', null)
-    .single();
+  const { data: activeEntry } = await getBackend().timeEntries.getActive(userId, ownerId);
 
   if (!activeEntry) {
     return { canAccess: false, reason: 'You must clock in to access this network' };
@@ -69,12 +58,7 @@ export async function canAccessWorkflows(userId: string, ownerId: string): Promi
  * Returns null if not clocked in anywhere.
  */
 export async function getActiveNetwork(userId: string): Promise<string | null> {
-  const { data: activeEntry } = await supabase
-    .from('time_entries')
-    .select('owner_id')
-    .eq('user_id', userId)
-    .is('clock_out', null)
-    .single();
+  const { data: activeEntry } = await getBackend().timeEntries.getActive(userId);
 
   return activeEntry?.owner_id || null;
 }
@@ -140,15 +124,9 @@ export async function getAccessStatus(userId: string): Promise<{
   }
 
   // Get the owner's name
-  const { data: ownerProfile } = await supabase
-    .from('profiles')
-    .select('device_name, id')
-    .eq('id', activeOwnerId)
-    .single();
+  const { data: ownerProfile } = await getBackend().profiles.get(activeOwnerId);
 
-  const { data: { user: ownerUser } } = await supabase.auth.admin.getUserById(activeOwnerId);
-
-  const networkName = ownerProfile?.device_name || ownerUser?.email || 'Unknown';
+  const networkName = ownerProfile?.device_name || ownerProfile?.email || 'Unknown';
 
   return {
     mode: 'clocked_in',
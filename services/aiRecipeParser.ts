@@ -10,6 +10,9 @@
 
 import { supabase } from './supabaseClient';
 import NetInfo from '@react-native-community/netinfo';
+import type { Ingredient } from './database';
+import { parseIngredient } from '../utils/ingredients';
+import { normalizeUnit } from '../utils/units';
 
 // ─── TYPES ───────────────────────────────────────────────────────────────────
 
@@ -157,6 +160,18 @@ function parseRecipeResponse(data: any): ParsedRecipe {
   };
 }
 
+/** Converts the edge function's string amounts into the workflow Ingredient model. */
+export function toIngredients(parsed: ParsedIngredient[]): Ingredient[] {
+  return parsed.map(ing => {
+    const { quantity } = parseIngredient(`${ing.name}: ${ing.amount}`);
+    return {
+      name: ing.name,
+      quantity: quantity || undefined,
+      unit: normalizeUnit(ing.unit) ?? (ing.unit || undefined),
+    };
+  });
+}
+
 // ─── MAIN EXPORT ─────────────────────────────────────────────────────────────
 
 /**
@@ -328,7 +343,7 @@ export async function parseAndSaveRecipe(recipeText: string): Promise<{
         description: parsed.description,
         servings: parsed.servings || null,
         total_time_minutes: parsed.totalEstimatedMinutes,
-        ingredients: parsed.ingredients,
+        ingredients: toIngredients(parsed.ingredients),
         steps: parsed.steps,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -374,7 +389,7 @@ export function toWorkflowInsert(parsed: ParsedRecipe, userId: string) {
     description: parsed.description,
     servings: parsed.servings || null,
     total_time_minutes: parsed.totalEstimatedMinutes,
-    ingredients: parsed.ingredients,
+    ingredients: toIngredients(parsed.ingredients),
     steps: parsed.steps,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
@@ -0,0 +1,262 @@
+// ============================================
+// FILE: services/alarms.ts
+// Audible alarms for expired timers. Watches
+// every timer in scope, plays a sound per
+// alarm type, and escalates an alarm nobody
+// dismisses: louder each round and, once it
+// has been ignored, spoken aloud. Quiet hours
+// mute sound and speech; the banner still
+// shows.
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+import Tts from 'react-native-tts';
+import { getFloorTimers, describeRepetition, onTimerAcknowledged, FloorTimer } from './database';
+
+export type AlarmType = 'timer' | 'interval' | 'series';
+
+export interface AlarmSettings {
+  /** 0–1, the volume of the first ring. Escalation raises it from here. */
+  volume: number;
+  /** Seconds before an undismissed alarm escalates; 0 rings once and never escalates. */
+  escalateAfterSeconds: number;
+  spokenAnnouncements: boolean;
+  quietHours: { enabled: boolean; startHour: number; endHour: number };
+}
+
+export interface Alarm {
+  id: string;
+  timerId: string;
+  batchId: string;
+  type: AlarmType;
+  /** "Sourdough batch 3: shaping timer done" */
+  announcement: string;
+  raisedAt: number;
+  /** How many times it has escalated. */
+  level: number;
+}
+
+const SETTINGS_KEY = '@alarm_settings';
+const MAX_ESCALATIONS = 10;
+const VOLUME_STEP = 0.25;
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  volume: 0.7,
+  escalateAfterSeconds: 60,
+  spokenAnnouncements: true,
+  quietHours: { enabled: false, startHour: 22, endHour: 5 },
+};
+
+const SOUNDS: Record<AlarmType, number> = {
+  timer: require('../assets/sounds/timer.wav'),
+  interval: require('../assets/sounds/interval.wav'),
+  series: require('../assets/sounds/series.wav'),
+};
+
+// ============================================
+// SETTINGS
+// ============================================
+
+let settings: AlarmSettings = DEFAULT_ALARM_SETTINGS;
+
+export async function getAlarmSettings(): Promise<AlarmSettings> {
+  try {
+    const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+    if (saved) settings = { ...DEFAULT_ALARM_SETTINGS, ...JSON.parse(saved) };
+  } catch (err) {
+    console.warn('[Alarms] Failed to load settings:', err);
+  }
+  return settings;
+}
+
+export async function setAlarmSettings(next: AlarmSettings): Promise<void> {
+  settings = next;
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+}
+
+/** Quiet hours may wrap midnight (22 → 5). */
+export function isQuietTime(quiet: AlarmSettings['quietHours'], now = new Date()): boolean {
+  if (!quiet.enabled || quiet.startHour === quiet.endHour) return false;
+  const hour = now.getHours();
+  return quiet.startHour < quiet.endHour
+    ? hour >= quiet.startHour && hour < quiet.endHour
+    : hour >= quiet.startHour || hour < quiet.endHour;
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+async function playSound(type: AlarmType, volume: number): Promise<void> {
+  try {
+    const { sound } = await Audio.Sound.createAsync(SOUNDS[type], { volume, shouldPlay: true });
+    sound.setOnPlaybackStatusUpdate(status => {
+      if (status.isLoaded && status.didJustFinish) sound.unloadAsync().catch(() => {});
+    });
+  } catch (err) {
+    console.warn(`[Alarms] Failed to play ${type} sound:`, err);
+  }
+}
+
+function stopSpeaking(): void {
+  try {
+    Tts.stop().catch(() => {});
+  } catch {
+    // No speech engine on this device
+  }
+}
+
+function speak(text: string, volume: number): void {
+  try {
+    stopSpeaking();
+    Tts.speak(text, {
+      iosVoiceId: '',
+      rate: 0.5,
+      androidParams: { KEY_PARAM_STREAM: 'STREAM_ALARM', KEY_PARAM_VOLUME: volume, KEY_PARAM_PAN: 0 },
+    });
+  } catch (err) {
+    console.warn('[Alarms] Failed to speak announcement:', err);
+  }
+}
+
+function ring(alarm: Alarm): void {
+  if (isQuietTime(settings.quietHours)) return;
+  const volume = Math.min(1, settings.volume + alarm.level * VOLUME_STEP);
+  playSound(alarm.type, volume);
+  // The first ring is just the sound; words come once it has been ignored
+  if (alarm.level > 0 && settings.spokenAnnouncements) speak(alarm.announcement, volume);
+}
+
+// ============================================
+// ACTIVE ALARMS
+// ============================================
+
+const active = new Map<string, Alarm>();
+const escalations = new Map<string, ReturnType<typeof setInterval>>();
+/** Dismissed alarm ids, kept while their timer exists so they don't ring again. */
+const dismissed = new Set<string>();
+const listeners = new Set<(alarms: Alarm[]) => void>();
+
+function notify(): void {
+  const alarms = getActiveAlarms();
+  listeners.forEach(listener => listener(alarms));
+}
+
+export function getActiveAlarms(): Alarm[] {
+  return [...active.values()].sort((a, b) => a.raisedAt - b.raisedAt);
+}
+
+export function onAlarmsChanged(listener: (alarms: Alarm[]) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function raise(alarm: Omit<Alarm, 'raisedAt' | 'level'>): void {
+  if (active.has(alarm.id) || dismissed.has(alarm.id)) return;
+  const raised: Alarm = { ...alarm, raisedAt: Date.now(), level: 0 };
+  active.set(alarm.id, raised);
+  ring(raised);
+
+  if (settings.escalateAfterSeconds > 0) {
+    escalations.set(alarm.id, setInterval(() => {
+      raised.level += 1;
+      ring(raised);
+      notify();
+      if (raised.level >= MAX_ESCALATIONS) stopEscalating(alarm.id);
+    }, settings.escalateAfterSeconds * 1000));
+  }
+  notify();
+}
+
+function stopEscalating(alarmId: string): void {
+  const handle = escalations.get(alarmId);
+  if (handle) clearInterval(handle);
+  escalations.delete(alarmId);
+}
+
+function silence(alarmId: string): void {
+  if (!active.delete(alarmId)) return;
+  stopEscalating(alarmId);
+  if (active.size === 0) stopSpeaking();
+  notify();
+}
+
+/** Silences an alarm for good. */
+export function dismissAlarm(alarmId: string): void {
+  dismissed.add(alarmId);
+  silence(alarmId);
+}
+
+/** Silences every alarm a timer has raised, e.g. when it is acknowledged. */
+export function dismissAlarmsForTimer(timerId: string): void {
+  [...active.values()].filter(a => a.timerId === timerId).forEach(a => dismissAlarm(a.id));
+}
+
+/** An acknowledged repetition never rings, even if the monitor hasn't reached it yet. */
+function acknowledged(timerId: string, repetition: number): void {
+  dismissed.add(`${timerId}:${repetition}`);
+  dismissAlarmsForTimer(timerId);
+}
+
+// ============================================
+// MONITOR
+// ============================================
+
+/** Last repetition seen per interval timer, to catch one acknowledged between ticks. */
+const seenRepetitions = new Map<string, number>();
+
+function alarmFor(entry: FloorTimer, repetition: number): Omit<Alarm, 'raisedAt' | 'level'> {
+  const { batch, timer, stepTitle } = entry;
+  const interval = timer.interval;
+  const type: AlarmType = !interval ? 'timer' : repetition < interval.repetitions ? 'interval' : 'series';
+  const announcement = type === 'timer'
+    ? `${batch.name}: ${stepTitle.toLowerCase()} timer done`
+    : type === 'interval'
+      ? `${batch.name}: ${describeRepetition({ ...timer, repetition })}`
+      : `${batch.name}: ${stepTitle.toLowerCase()} complete`;
+  return { id: `${timer.id}:${repetition}`, timerId: timer.id, batchId: batch.id, type, announcement };
+}
+
+function checkTimers(): void {
+  const timers = getFloorTimers();
+  const liveTimerIds = new Set(timers.map(t => t.timer.id));
+
+  for (const entry of timers) {
+    const { timer } = entry;
+    const repetition = timer.repetition ?? 1;
+    const seen = seenRepetitions.get(timer.id);
+    seenRepetitions.set(timer.id, repetition);
+    // Rounds only move on once acknowledged, here or at another station
+    if (timer.interval && seen !== undefined && repetition > seen) dismissAlarm(`${timer.id}:${seen}`);
+
+    const alarmId = `${timer.id}:${repetition}`;
+    if (timer.acknowledged) dismissAlarm(alarmId);
+    // Paused or in the retarder — rings again if it resumes still expired
+    else if (entry.batch.status === 'paused') silence(alarmId);
+    else if (entry.isExpired) raise(alarmFor(entry, repetition));
+    // Extended or paused before anyone dismissed it
+    else silence(alarmId);
+  }
+
+  // Stopped timers and finished batches take their alarms with them
+  [...active.values()].filter(a => !liveTimerIds.has(a.timerId)).forEach(a => silence(a.id));
+  [...dismissed].filter(id => !liveTimerIds.has(id.split(':')[0])).forEach(id => dismissed.delete(id));
+  [...seenRepetitions.keys()].filter(id => !liveTimerIds.has(id)).forEach(id => seenRepetitions.delete(id));
+}
+
+/** Starts watching timers. Returns a function that stops the monitor and silences everything. */
+export function startAlarmMonitor(): () => void {
+  getAlarmSettings();
+  Audio.setAudioModeAsync({ playsInSilentModeIOS: true, staysActiveInBackground: false })
+    .catch(err => console.warn('[Alarms] Failed to set audio mode:', err));
+
+  const interval = setInterval(checkTimers, 1000);
+  // Acknowledging a timer anywhere — timers list, step screen — answers its alarm
+  const unsubscribe = onTimerAcknowledged(acknowledged);
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+    [...active.keys()].forEach(silence);
+  };
+}
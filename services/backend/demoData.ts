@@ -0,0 +1,154 @@
+// ============================================
+// FILE: services/backend/demoData.ts
+// Seed rows for the in-memory "demo kitchen".
+// ============================================
+
+import type { BackendUser, Row } from './types';
+
+export const DEMO_USER: BackendUser = { id: 'demo-user', email: 'demo@batchmaker.app' };
+
+export function demoProfile(): Row {
+  return {
+    id: DEMO_USER.id,
+    device_name: 'Demo Kitchen',
+    location_id: null,
+    email: DEMO_USER.email,
+    role: 'owner',
+    subscription_status: 'active',
+  };
+}
+
+const ing = (name: string, quantity: number, unit: string) => ({ name, quantity, unit });
+
+export function demoWorkflows(): Row[] {
+  const now = Date.now();
+  const base = (id: string, name: string, minutesAgo: number) => ({
+    id,
+    name,
+    user_id: DEMO_USER.id,
+    location_id: null,
+    claimed_by: null,
+    claimed_by_name: null,
+    archived: false,
+    archived_at: null,
+    show_ferment_prompt: true,
+    version: 1,
+    deleted_at: null,
+    created_at: new Date(now - minutesAgo * 60_000).toISOString(),
+    updated_at: new Date(now - minutesAgo * 60_000).toISOString(),
+  });
+
+  return [
+    {
+      ...base('demo_country_sourdough', 'Country Sourdough', 2),
+      base_yield: { count: 2, unit: 'loaves' },
+      category: 'Bread',
+      tags: ['sourdough', 'overnight'],
+      formula: {
+        flourWeight: 1000, pieceWeight: 900,
+        ingredients: [
+          { name: 'Bread flour', percent: 90, kind: 'flour' },
+          { name: 'Whole wheat flour', percent: 10, kind: 'flour' },
+          { name: 'Water', percent: 75, kind: 'liquid' },
+          { name: 'Levain', percent: 20, kind: 'other' },
+          { name: 'Salt', percent: 2.2, kind: 'other' },
+        ],
+      },
+      steps: [
+        {
+          id: 'demo_country_sourdough_step_1', title: 'Build levain',
+          description: 'Mix starter, flour and water. Leave somewhere warm until bubbly and domed.',
+          timerMinutes: 240, ingredients: [ing('Starter', 50, 'g'), ing('Bread flour', 100, 'g'), ing('Water', 100, 'g')],
+          targetTemp: '26°C',
+        },
+        {
+          id: 'demo_country_sourdough_step_2', title: 'Autolyse',
+          description: 'Combine flour and most of the water until no dry bits remain. Cover and rest.',
+          timerMinutes: 45, ingredients: [ing('Bread flour', 900, 'g'), ing('Whole wheat flour', 100, 'g'), ing('Water', 700, 'g')],
+        },
+        {
+          id: 'demo_country_sourdough_step_3', title: 'Mix',
+          description: 'Add levain, salt and the reserved water. Pinch and fold until fully incorporated.',
+          ingredients: [ing('Levain', 200, 'g'), ing('Salt', 22, 'g'), ing('Water', 50, 'g')], targetTemp: '24-26°C',
+        },
+        {
+          id: 'demo_country_sourdough_step_4', title: 'Bulk ferment',
+          description: 'Coil fold every 30 minutes for the first 2 hours, then leave undisturbed.',
+          timerMinutes: 240, visualCues: 'Dough has risen ~50%, domed edges, bubbles on the surface',
+          confirmationRequired: true,
+        },
+        {
+          id: 'demo_country_sourdough_step_5', title: 'Divide & shape',
+          description: 'Divide into two, pre-shape, bench rest 20 minutes, then final shape into bannetons.',
+          timerMinutes: 20,
+        },
+        {
+          id: 'demo_country_sourdough_step_6', title: 'Cold retard',
+          description: 'Cover and refrigerate overnight.', timerMinutes: 720, targetTemp: '3-4°C',
+        },
+        {
+          id: 'demo_country_sourdough_step_7', title: 'Bake',
+          description: 'Score and bake covered 20 minutes at 250°C, then uncovered 25 minutes at 230°C.',
+          timerMinutes: 45, visualCues: 'Deep mahogany crust, hollow when tapped', confirmationRequired: true,
+        },
+      ],
+    },
+    {
+      ...base('demo_focaccia', 'Rosemary Focaccia', 1),
+      base_yield: { count: 2, unit: 'trays' },
+      category: 'Bread',
+      tags: ['same day', 'vegan'],
+      formula: {
+        flourWeight: 1000,
+        ingredients: [
+          { name: 'Bread flour', percent: 100, kind: 'flour' },
+          { name: 'Water', percent: 80, kind: 'liquid' },
+          { name: 'Olive oil', percent: 6, kind: 'other' },
+          { name: 'Salt', percent: 2, kind: 'other' },
+          { name: 'Instant yeast', percent: 0.8, kind: 'other' },
+        ],
+      },
+      show_ferment_prompt: false,
+      steps: [
+        {
+          id: 'demo_focaccia_step_1', title: 'Mix dough',
+          description: 'Mix everything except the oil until shaggy, then rest 10 minutes.',
+          timerMinutes: 10,
+          ingredients: [ing('Bread flour', 1000, 'g'), ing('Water', 800, 'g'), ing('Salt', 20, 'g'), ing('Instant yeast', 8, 'g')],
+        },
+        {
+          id: 'demo_focaccia_step_2', title: 'Fold & proof',
+          description: 'Four sets of stretch and folds 15 minutes apart, then proof in an oiled tray.',
+          timerMinutes: 90, ingredients: [ing('Olive oil', 60, 'g')],
+          visualCues: 'Dough fills the tray corners and jiggles when shaken',
+        },
+        {
+          id: 'demo_focaccia_step_3', title: 'Dimple & top',
+          description: 'Oil your fingers, dimple all over, top with rosemary and flaky salt.',
+          ingredients: [ing('Rosemary', 2, 'sprigs'), ing('Flaky salt', 5, 'g')],
+        },
+        {
+          id: 'demo_focaccia_step_4', title: 'Bake',
+          description: 'Bake at 230°C until golden.', timerMinutes: 25,
+          visualCues: 'Golden top, crisp underside',
+        },
+      ],
+    },
+  ];
+}
+
+export function demoWorkflowVersions(): Row[] {
+  return demoWorkflows().map(workflow => ({
+    workflow_id: workflow.id,
+    version: 1,
+    name: workflow.name,
+    steps: workflow.steps,
+    formula: workflow.formula,
+    author_id: DEMO_USER.id,
+    author_name: 'Demo Kitchen',
+    summary: `Created with ${workflow.steps.length} steps`,
+    user_id: DEMO_USER.id,
+    location_id: null,
+    created_at: workflow.created_at,
+  }));
+}
@@ -0,0 +1,55 @@
+// ============================================
+// FILE: services/backend/index.ts
+// Holds the active data backend. Supabase is
+// the default; the in-memory "demo kitchen"
+// is chosen at startup via EXPO_PUBLIC_BACKEND
+// or the setting saved by setBackendMode().
+// ============================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createMemoryBackend } from './memoryBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import type { DataBackend } from './types';
+
+export type BackendMode = DataBackend['name'];
+
+const BACKEND_MODE_KEY = '@backend_mode';
+
+let activeBackend: DataBackend = createSupabaseBackend();
+
+export function getBackend(): DataBackend {
+  return activeBackend;
+}
+
+export function isDemoMode(): boolean {
+  return activeBackend.name === 'memory';
+}
+
+function switchTo(mode: BackendMode): DataBackend {
+  if (activeBackend.name !== mode) {
+    activeBackend = mode === 'memory' ? createMemoryBackend() : createSupabaseBackend();
+    console.log(`[Backend] Using ${mode} backend`);
+  }
+  return activeBackend;
+}
+
+/** Picks the backend for this launch. Call before any service initializes. */
+export async function loadBackendMode(): Promise<BackendMode> {
+  const fromEnv = process.env.EXPO_PUBLIC_BACKEND;
+  if (fromEnv === 'memory' || fromEnv === 'supabase') return switchTo(fromEnv).name;
+
+  try {
+    const saved = await AsyncStorage.getItem(BACKEND_MODE_KEY);
+    if (saved === 'memory' || saved === 'supabase') return switchTo(saved).name;
+  } catch { /* fall through to default */ }
+  return activeBackend.name;
+}
+
+/**
+ * Switches backends and remembers the choice for the next launch. Callers
+ * must re-run initializeDatabase()/initializeReports() afterwards.
+ */
+export async function setBackendMode(mode: BackendMode): Promise<void> {
+  await AsyncStorage.setItem(BACKEND_MODE_KEY, mode);
+  switchTo(mode);
+}
@@ -0,0 +1,295 @@
+// ============================================
+// FILE: services/backend/memoryBackend.ts
+// In-process adapter for the "demo kitchen"
+// and for exercising the business logic with
+// no Supabase project. Rows live in plain
+// arrays; workflow and batch writes are pushed
+// through the change feed like realtime would.
+// ============================================
+
+import type {
+  BackendError, BackendResult, ChangeHandlers, DataBackend, DataScope, Row, RowChange,
+} from './types';
+import { DEMO_USER, demoProfile, demoWorkflowVersions, demoWorkflows } from './demoData';
+
+const NOT_FOUND: BackendError = { message: 'Row not found', code: 'PGRST116' };
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function ok<T>(data: T): BackendResult<T> {
+  return { data: copy(data), error: null };
+}
+
+function single(row: Row | undefined): BackendResult<Row> {
+  return row ? ok(row) : { data: null, error: NOT_FOUND };
+}
+
+function newestFirst(key: string) {
+  return (a: Row, b: Row) => (a[key] === b[key] ? 0 : a[key] < b[key] ? 1 : -1);
+}
+
+function inScope(row: Row, scope: DataScope): boolean {
+  return scope.locationId ? row.location_id === scope.locationId : row.user_id === scope.userId;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createMemoryBackend(options: { seed?: boolean } = {}): DataBackend {
+  const tables = new Map<string, Row[]>();
+  const table = (name: string): Row[] => {
+    let rows = tables.get(name);
+    if (!rows) { rows = []; tables.set(name, rows); }
+    return rows;
+  };
+
+  if (options.seed ?? true) {
+    table('profiles').push(demoProfile());
+    table('workflows').push(...demoWorkflows());
+    table('workflow_versions').push(...demoWorkflowVersions());
+  }
+
+  // ── Change feed ─────────────────────────────────────────────────────────
+  const subscribers = new Set<{ scope: DataScope; handlers: ChangeHandlers }>();
+
+  function publish(name: 'workflows' | 'batches', change: RowChange): void {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    subscribers.forEach(({ scope, handlers }) => {
+      if (inScope(row, scope)) handlers[name](copy(change));
+    });
+  }
+
+  // ── Generic row helpers ─────────────────────────────────────────────────
+  function insert(name: string, row: Row): BackendResult<null> {
+    const rows = table(name);
+    if (row.id && rows.some(r => r.id === row.id)) {
+      return { data: null, error: { message: `duplicate key value in ${name}`, code: '23505' } };
+    }
+    const stored = copy({ ...row, id: row.id ?? newId(name) });
+    rows.push(stored);
+    if (name === 'workflows' || name === 'batches') publish(name, { eventType: 'INSERT', new: stored, old: {} });
+    return { data: null, error: null };
+  }
+
+  function update(name: string, match: (row: Row) => boolean, fields: Row): Row[] {
+    const changed: Row[] = [];
+    table(name).forEach(row => {
+      if (!match(row)) return;
+      const old = copy(row);
+      Object.assign(row, copy(fields));
+      changed.push(row);
+      if (name === 'workflows' || name === 'batches') publish(name, { eventType: 'UPDATE', new: row, old });
+    });
+    return changed;
+  }
+
+  function remove(name: string, match: (row: Row) => boolean): number {
+    const rows = table(name);
+    const removed = rows.filter(match);
+    tables.set(name, rows.filter(row => !match(row)));
+    if (name === 'workflows' || name === 'batches') {
+      removed.forEach(old => publish(name, { eventType: 'DELETE', new: {}, old }));
+    }
+    return removed.length;
+  }
+
+  function upsert(name: string, row: Row): BackendResult<null> {
+    const existing = table(name).find(r => r.id === row.id);
+    if (!existing) return insert(name, row);
+    update(name, r => r.id === row.id, row);
+    return { data: null, error: null };
+  }
+
+  return {
+    name: 'memory',
+
+    auth: {
+      async getCurrentUser() {
+        return { ...DEMO_USER };
+      },
+    },
+
+    profiles: {
+      async get(userId) {
+        return single(table('profiles').find(r => r.id === userId));
+      },
+      async upsert(userId, fields) {
+        return upsert('profiles', { ...fields, id: userId });
+      },
+      async update(userId, fields) {
+        update('profiles', r => r.id === userId, fields);
+        return { data: null, error: null };
+      },
+      async getMemberRole(ownerId, userId) {
+        return single(table('network_member_roles').find(r => r.owner_id === ownerId && r.user_id === userId));
+      },
+    },
+
+    workflows: {
+      async list(scope) {
+        return ok(table('workflows').filter(r => !r.deleted_at && inScope(r, scope)).sort(newestFirst('created_at')));
+      },
+      async insert(row) {
+        return insert('workflows', { deleted_at: null, created_at: new Date().toISOString(), ...row });
+      },
+      async upsert(row) {
+        return upsert('workflows', { deleted_at: null, created_at: new Date().toISOString(), ...row });
+      },
+      async update(id, fields) {
+        update('workflows', r => r.id === id, fields);
+        return { data: null, error: null };
+      },
+      async remove(id) {
+        return { data: remove('workflows', r => r.id === id) > 0, error: null };
+      },
+      async softDeleteAll(userId, deletion) {
+        update('workflows', r => r.user_id === userId && !r.deleted_at, deletion);
+        return { data: null, error: null };
+      },
+      async listDeleted(scope) {
+        return ok(table('workflows').filter(r => r.deleted_at && inScope(r, scope)).sort(newestFirst('deleted_at')));
+      },
+      async listVersions(workflowId) {
+        return ok(table('workflow_versions').filter(r => r.workflow_id === workflowId).sort(newestFirst('version')));
+      },
+      async getVersion(workflowId, version) {
+        const row = table('workflow_versions').find(r => r.workflow_id === workflowId && r.version === version);
+        return { data: row ? copy(row) : null, error: null };
+      },
+      async insertVersion(row) {
+        const rows = table('workflow_versions').filter(r => r.workflow_id === row.workflow_id);
+        const landed = rows.find(r => r.author_id === row.author_id && r.created_at === row.created_at);
+        if (landed) return { data: landed.version, error: null };
+
+        const version = Math.max(0, ...rows.map(r => r.version)) + 1;
+        table('workflow_versions').push(copy({ ...row, version }));
+        return { data: version, error: null };
+      },
+    },
+
+    batches: {
+      async list(scope) {
+        return ok(table('batches').filter(r => !r.deleted_at && inScope(r, scope)).sort(newestFirst('created_at')));
+      },
+      async listDeleted(scope) {
+        return ok(table('batches').filter(r => r.deleted_at && inScope(r, scope)).sort(newestFirst('deleted_at')));
+      },
+      async get(id) {
+        return { data: copy(table('batches').find(r => r.id === id)) ?? null, error: null };
+      },
+      async insert(row) {
+        return insert('batches', row);
+      },
+      async update(id, fields) {
+        update('batches', r => r.id === id, fields);
+        return { data: null, error: null };
+      },
+      async remove(id) {
+        return { data: remove('batches', r => r.id === id) > 0, error: null };
+      },
+      async updateClaim(id, userId, condition, fields) {
+        const changed = update('batches', r => r.id === id && (
+          condition === 'mine' ? r.claimed_by === userId : !r.claimed_by || r.claimed_by === userId
+        ), fields);
+        return { data: changed.length > 0, error: null };
+      },
+      async updateIfRevision(id, revision, fields) {
+        const changed = update('batches', r => r.id === id && (r.revision ?? 0) === revision, fields);
+        return { data: changed.length > 0, error: null };
+      },
+    },
+
+    batchEvents: {
+      async list(batchId) {
+        return ok(table('batch_events').filter(r => r.batch_id === batchId).sort(newestFirst('created_at')).reverse());
+      },
+      async insert(row) {
+        return insert('batch_events', row);
+      },
+    },
+
+    reports: {
+      async list(name, userId) {
+        return ok(table(name).filter(r => r.user_id === userId).sort(newestFirst('timestamp')));
+      },
+      async upsert(name, row) {
+        return upsert(name, row);
+      },
+      async remove(name, id, userId) {
+        remove(name, r => r.id === id && r.user_id === userId);
+        return { data: null, error: null };
+      },
+    },
+
+    purchaseOrders: {
+      async create(row) {
+        const stored = { id: newId('po'), created_at: new Date().toISOString(), ...row };
+        const result = insert('purchase_orders', stored);
+        return result.error ? { data: null, error: result.error } : ok(stored);
+      },
+      async get(id) {
+        return single(table('purchase_orders').find(r => r.id === id));
+      },
+      async list(userId) {
+        return ok(table('purchase_orders').filter(r => r.user_id === userId).sort(newestFirst('order_date')));
+      },
+      async update(id, fields) {
+        update('purchase_orders', r => r.id === id, fields);
+        return { data: null, error: null };
+      },
+      async insertItems(rows) {
+        rows.forEach(row => insert('purchase_order_items', row));
+        return { data: null, error: null };
+      },
+      async listItems(poId) {
+        return ok(table('purchase_order_items').filter(r => r.po_id === poId));
+      },
+      async insertReceipts(rows) {
+        rows.forEach(row => insert('po_receipts', row));
+        return { data: null, error: null };
+      },
+      async insertDiscrepancies(rows) {
+        rows.forEach(row => insert('po_discrepancies', row));
+        return { data: null, error: null };
+      },
+      async listDiscrepancies(poId) {
+        return ok(table('po_discrepancies').filter(r => r.po_id === poId).sort(newestFirst('created_at')));
+      },
+      async updateDiscrepancy(id, fields) {
+        update('po_discrepancies', r => r.id === id, fields);
+        return { data: null, error: null };
+      },
+      async notify(row) {
+        return insert('notifications', row);
+      },
+    },
+
+    timeEntries: {
+      async getActive(userId, ownerId) {
+        return single(table('time_entries').find(r =>
+          r.user_id === userId && !r.clock_out && (!ownerId || r.owner_id === ownerId)
+        ));
+      },
+      async clockIn(row) {
+        return insert('time_entries', row);
+      },
+      async clockOut(id, clockOut) {
+        update('time_entries', r => r.id === id, { clock_out: clockOut });
+        return { data: null, error: null };
+      },
+    },
+
+    changes: {
+      subscribe(scope, handlers, onStatus) {
+        const subscriber = { scope, handlers };
+        subscribers.add(subscriber);
+        // Nothing to connect to — the feed is live immediately
+        setTimeout(() => onStatus(true), 0);
+        return async () => { subscribers.delete(subscriber); };
+      },
+    },
+  };
+}
@@ -0,0 +1,227 @@
+// ============================================
+// FILE: services/backend/supabaseBackend.ts
+// Production adapter — every repository call
+// maps onto the existing Supabase tables.
+// ============================================
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import type { BackendResult, DataBackend, DataScope, RowChange } from './types';
+
+// Stations saving the same workflow at once race for its next version number
+const VERSION_INSERT_TRIES = 3;
+
+function scoped(query: any, scope: DataScope): any {
+  return scope.locationId ? query.eq('location_id', scope.locationId) : query.eq('user_id', scope.userId);
+}
+
+function toChange(payload: RealtimePostgresChangesPayload<any>): RowChange {
+  return { eventType: payload.eventType, new: payload.new ?? {}, old: payload.old ?? {} };
+}
+
+async function done(query: PromiseLike<{ error: any }>): Promise<BackendResult<null>> {
+  const { error } = await query;
+  return { data: null, error };
+}
+
+export function createSupabaseBackend(): DataBackend {
+  return {
+    name: 'supabase',
+
+    auth: {
+      async getCurrentUser() {
+        const { data: { user } } = await supabase.auth.getUser();
+        return user ? { id: user.id, email: user.email } : null;
+      },
+    },
+
+    profiles: {
+      async get(userId) {
+        return supabase
+          .from('profiles')
+          .select('id, device_name, location_id, email, role, subscription_status')
+          .eq('id', userId)
+          .single();
+      },
+      upsert: (userId, fields) => done(supabase.from('profiles').upsert({ id: userId, ...fields })),
+      update: (userId, fields) => done(supabase.from('profiles').update(fields).eq('id', userId)),
+      async getMemberRole(ownerId, userId) {
+        return supabase
+          .from('network_member_roles')
+          .select('*')
+          .eq('owner_id', ownerId)
+          .eq('user_id', userId)
+          .single();
+      },
+    },
+
+    workflows: {
+      async list(scope) {
+        return scoped(
+          supabase.from('workflows').select('*').is('deleted_at', null).order('created_at', { ascending: false }),
+          scope
+        );
+      },
+      insert: row => done(supabase.from('workflows').insert(row)),
+      upsert: row => done(supabase.from('workflows').upsert(row)),
+      update: (id, fields) => done(supabase.from('workflows').update(fields).eq('id', id)),
+      async remove(id) {
+        const { data, error } = await supabase.from('workflows').delete().eq('id', id).select('id');
+        return { data: !!data && data.length > 0, error };
+      },
+      softDeleteAll: (userId, deletion) =>
+        done(supabase.from('workflows').update(deletion).eq('user_id', userId).is('deleted_at', null)),
+      async listDeleted(scope) {
+        return scoped(
+          supabase.from('workflows').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+          scope
+        );
+      },
+      async listVersions(workflowId) {
+        return supabase
+          .from('workflow_versions')
+          .select('*')
+          .eq('workflow_id', workflowId)
+          .order('version', { ascending: false });
+      },
+      async getVersion(workflowId, version) {
+        return supabase
+          .from('workflow_versions')
+          .select('*')
+          .eq('workflow_id', workflowId)
+          .eq('version', version)
+          .maybeSingle();
+      },
+      async insertVersion(row) {
+        const { data: landed, error: landedError } = await supabase
+          .from('workflow_versions')
+          .select('version')
+          .eq('workflow_id', row.workflow_id)
+          .eq('author_id', row.author_id)
+          .eq('created_at', row.created_at)
+          .maybeSingle();
+        if (landedError) return { data: null, error: landedError };
+        if (landed) return { data: landed.version, error: null };
+
+        for (let attempt = 0; attempt < VERSION_INSERT_TRIES; attempt++) {
+          const { data: latest, error } = await supabase
+            .from('workflow_versions')
+            .select('version')
+            .eq('workflow_id', row.workflow_id)
+            .order('version', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          if (error) return { data: null, error };
+
+          const version = (latest?.version ?? 0) + 1;
+          const { error: insertError } = await supabase.from('workflow_versions').insert({ ...row, version });
+          if (!insertError) return { data: version, error: null };
+          if (insertError.code !== '23505') return { data: null, error: insertError };
+        }
+        return { data: null, error: { message: `Workflow ${row.workflow_id} kept changing while saving a version` } };
+      },
+    },
+
+    batches: {
+      async list(scope) {
+        return scoped(
+          supabase.from('batches').select('*').is('deleted_at', null).order('created_at', { ascending: false }),
+          scope
+        );
+      },
+      async listDeleted(scope) {
+        return scoped(
+          supabase.from('batches').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+          scope
+        );
+      },
+      async get(id) {
+        return supabase.from('batches').select('*').eq('id', id).maybeSingle();
+      },
+      insert: row => done(supabase.from('batches').insert(row)),
+      update: (id, fields) => done(supabase.from('batches').update(fields).eq('id', id)),
+      async remove(id) {
+        const { data, error } = await supabase.from('batches').delete().eq('id', id).select('id');
+        return { data: !!data && data.length > 0, error };
+      },
+      async updateClaim(id, userId, condition, fields) {
+        const query = supabase.from('batches').update(fields).eq('id', id);
+        const guarded = condition === 'mine'
+          ? query.eq('claimed_by', userId)
+          : query.or(`claimed_by.is.null,claimed_by.eq.${userId}`);
+        const { data, error } = await guarded.select('id');
+        return { data: !!data && data.length > 0, error };
+      },
+      async updateIfRevision(id, revision, fields) {
+        const query = supabase.from('batches').update(fields).eq('id', id);
+        const guarded = revision === 0 ? query.or('revision.is.null,revision.eq.0') : query.eq('revision', revision);
+        const { data, error } = await guarded.select('id');
+        return { data: !!data && data.length > 0, error };
+      },
+    },
+
+    batchEvents: {
+      async list(batchId) {
+        return supabase.from('batch_events').select('*').eq('batch_id', batchId).order('created_at', { ascending: true });
+      },
+      insert: row => done(supabase.from('batch_events').insert(row)),
+    },
+
+    reports: {
+      async list(table, userId) {
+        return supabase.from(table).select('*').eq('user_id', userId).order('timestamp', { ascending: false });
+      },
+      upsert: (table, row) => done(supabase.from(table).upsert(row, { onConflict: 'id' })),
+      remove: (table, id, userId) => done(supabase.from(table).delete().eq('id', id).eq('user_id', userId)),
+    },
+
+    purchaseOrders: {
+      async create(row) {
+        return supabase.from('purchase_orders').insert(row).select('*').single();
+      },
+      async get(id) {
+        return supabase.from('purchase_orders').select('*').eq('id', id).single();
+      },
+      async list(userId) {
+        return supabase.from('purchase_orders').select('*').eq('user_id', userId).order('order_date', { ascending: false });
+      },
+      update: (id, fields) => done(supabase.from('purchase_orders').update(fields).eq('id', id)),
+      insertItems: rows => done(supabase.from('purchase_order_items').insert(rows)),
+      async listItems(poId) {
+        return supabase.from('purchase_order_items').select('*').eq('po_id', poId);
+      },
+      insertReceipts: rows => done(supabase.from('po_receipts').insert(rows)),
+      insertDiscrepancies: rows => done(supabase.from('po_discrepancies').insert(rows)),
+      async listDiscrepancies(poId) {
+        return supabase.from('po_discrepancies').select('*').eq('po_id', poId).order('created_at', { ascending: false });
+      },
+      updateDiscrepancy: (id, fields) => done(supabase.from('po_discrepancies').update(fields).eq('id', id)),
+      notify: row => done(supabase.from('notifications').insert(row)),
+    },
+
+    timeEntries: {
+      async getActive(userId, ownerId) {
+        let query = supabase.from('time_entries').select('*').eq('user_id', userId).is('clock_out', null);
+        if (ownerId) query = query.eq('owner_id', ownerId);
+        return query.single();
+      },
+      clockIn: row => done(supabase.from('time_entries').insert(row)),
+      clockOut: (id, clockOut) => done(supabase.from('time_entries').update({ clock_out: clockOut }).eq('id', id)),
+    },
+
+    changes: {
+      subscribe(scope, handlers, onStatus) {
+        const filter = scope.locationId ? `location_id=eq.${scope.locationId}` : `user_id=eq.${scope.userId}`;
+        const channel = supabase
+          .channel(`db-changes:${scope.locationId ?? scope.userId}`)
+          .on('postgres_changes', { event: '*', schema: 'public', table: 'workflows', filter },
+            payload => handlers.workflows(toChange(payload)))
+          .on('postgres_changes', { event: '*', schema: 'public', table: 'batches', filter },
+            payload => handlers.batches(toChange(payload)));
+
+        channel.subscribe(status => onStatus(status === 'SUBSCRIBED'));
+        return async () => { await supabase.removeChannel(channel); };
+      },
+    },
+  };
+}
@@ -0,0 +1,171 @@
+// ============================================
+// FILE: services/backend/types.ts
+// Repository interfaces the services talk to
+// instead of calling supabase directly. Rows
+// stay in database (snake_case) shape — the
+// services keep doing their own mapping.
+// ============================================
+
+/** Mirrors supabase-js results so call sites keep their `{ data, error }` handling. */
+export interface BackendError {
+  message: string;
+  code?: string;
+}
+
+export interface BackendResult<T> {
+  data: T | null;
+  error: BackendError | null;
+}
+
+export type Row = Record<string, any>;
+
+export interface BackendUser {
+  id: string;
+  email?: string;
+}
+
+/** Location scope when clocked in, user scope when solo. */
+export interface DataScope {
+  userId: string;
+  locationId?: string | null;
+}
+
+export type ClaimCondition = 'unclaimed_or_mine' | 'mine';
+
+export type ReportTable = 'batch_completion_reports' | 'environmental_reports';
+
+export interface RowChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Row;
+  old: Row;
+}
+
+export interface ChangeHandlers {
+  workflows: (change: RowChange) => void;
+  batches: (change: RowChange) => void;
+}
+
+// ============================================
+// REPOSITORIES
+// ============================================
+
+export interface AuthRepository {
+  getCurrentUser(): Promise<BackendUser | null>;
+}
+
+export interface ProfileRepository {
+  get(userId: string): Promise<BackendResult<Row>>;
+  upsert(userId: string, fields: Row): Promise<BackendResult<null>>;
+  update(userId: string, fields: Row): Promise<BackendResult<null>>;
+  getMemberRole(ownerId: string, userId: string): Promise<BackendResult<Row>>;
+}
+
+export interface WorkflowRepository {
+  /** Non-deleted workflows in scope, newest first. */
+  list(scope: DataScope): Promise<BackendResult<Row[]>>;
+  insert(row: Row): Promise<BackendResult<null>>;
+  upsert(row: Row): Promise<BackendResult<null>>;
+  update(id: string, fields: Row): Promise<BackendResult<null>>;
+  /**
+   * Permanent delete — normal deletes set deleted_at via update(). Resolves
+   * `data: true` when a row was deleted.
+   */
+  remove(id: string): Promise<BackendResult<boolean>>;
+  /** Writes the deletion stamp (deleted_at, deleted_by, …) onto every live workflow the user owns. */
+  softDeleteAll(userId: string, deletion: Row): Promise<BackendResult<null>>;
+  /** Soft-deleted workflows in scope, most recently deleted first. */
+  listDeleted(scope: DataScope): Promise<BackendResult<Row[]>>;
+  listVersions(workflowId: string): Promise<BackendResult<Row[]>>;
+  getVersion(workflowId: string, version: number): Promise<BackendResult<Row>>;
+  /**
+   * Inserts at the next free version number for the row's workflow, trying
+   * again when another station takes that number first. Resolves the number
+   * written; a replay of a row that already landed resolves its number.
+   */
+  insertVersion(row: Row): Promise<BackendResult<number>>;
+}
+
+export interface BatchRepository {
+  /** Non-deleted batches in scope, newest first. */
+  list(scope: DataScope): Promise<BackendResult<Row[]>>;
+  /** Soft-deleted batches in scope, most recently deleted first. */
+  listDeleted(scope: DataScope): Promise<BackendResult<Row[]>>;
+  get(id: string): Promise<BackendResult<Row>>;
+  insert(row: Row): Promise<BackendResult<null>>;
+  update(id: string, fields: Row): Promise<BackendResult<null>>;
+  /**
+   * Permanent delete — normal deletes set deleted_at via update(). Resolves
+   * `data: true` when a row was deleted.
+   */
+  remove(id: string): Promise<BackendResult<boolean>>;
+  /**
+   * Writes claim fields only if the row's current holder satisfies the
+   * condition for `userId`. Resolves `data: true` when the row was updated.
+   */
+  updateClaim(id: string, userId: string, condition: ClaimCondition, fields: Row): Promise<BackendResult<boolean>>;
+  /**
+   * Writes `fields` only if the row is still at `revision` (rows that
+   * predate revisions count as 0). Resolves `data: true` when it was.
+   */
+  updateIfRevision(id: string, revision: number, fields: Row): Promise<BackendResult<boolean>>;
+}
+
+/** Append-only — events are never updated or deleted. */
+export interface BatchEventRepository {
+  /** Events for one batch, oldest first. */
+  list(batchId: string): Promise<BackendResult<Row[]>>;
+  insert(row: Row): Promise<BackendResult<null>>;
+}
+
+export interface ReportRepository {
+  list(table: ReportTable, userId: string): Promise<BackendResult<Row[]>>;
+  upsert(table: ReportTable, row: Row): Promise<BackendResult<null>>;
+  remove(table: ReportTable, id: string, userId: string): Promise<BackendResult<null>>;
+}
+
+export interface PurchaseOrderRepository {
+  /** Inserts an order and returns the stored row (with its generated id). */
+  create(row: Row): Promise<BackendResult<Row>>;
+  get(id: string): Promise<BackendResult<Row>>;
+  list(userId: string): Promise<BackendResult<Row[]>>;
+  update(id: string, fields: Row): Promise<BackendResult<null>>;
+  insertItems(rows: Row[]): Promise<BackendResult<null>>;
+  listItems(poId: string): Promise<BackendResult<Row[]>>;
+  insertReceipts(rows: Row[]): Promise<BackendResult<null>>;
+  insertDiscrepancies(rows: Row[]): Promise<BackendResult<null>>;
+  listDiscrepancies(poId: string): Promise<BackendResult<Row[]>>;
+  updateDiscrepancy(id: string, fields: Row): Promise<BackendResult<null>>;
+  notify(row: Row): Promise<BackendResult<null>>;
+}
+
+export interface TimeEntryRepository {
+  /** The user's open entry (no clock_out), optionally within one owner's network. */
+  getActive(userId: string, ownerId?: string): Promise<BackendResult<Row>>;
+  clockIn(row: Row): Promise<BackendResult<null>>;
+  clockOut(id: string, clockOut: string): Promise<BackendResult<null>>;
+}
+
+export interface ChangeFeed {
+  /**
+   * Streams workflow and batch row changes for a scope. `onStatus` reports
+   * whether the feed is live. Returns an async unsubscribe.
+   */
+  subscribe(
+    scope: DataScope,
+    handlers: ChangeHandlers,
+    onStatus: (connected: boolean) => void
+  ): () => Promise<void>;
+}
+
+export interface DataBackend {
+  name: 'supabase' | 'memory';
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  workflows: WorkflowRepository;
+  batches: BatchRepository;
+  batchEvents: BatchEventRepository;
+  reports: ReportRepository;
+  purchaseOrders: PurchaseOrderRepository;
+  timeEntries: TimeEntryRepository;
+  changes: ChangeFeed;
+}
@@ -3,19 +3,97 @@
 // Location-aware: scopes to location_id when clocked in, user_id when solo
 // ============================================
 
-import { supabase } from '../lib/supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { enqueue, isSupabaseNetworkError } from './offlineQueue';
+import { getBackend } from './backend';
+import type { ClaimCondition, DataScope, RowChange } from './backend/types';
+import { applyMutation, applyVersionInsert, onBatchMerged, type BatchMerge } from './offlineQueue';
+import { createBatchCompletionReport, type BatchCompletionReport } from './reports';
+import { cancelTimerNotification, scheduleTimerNotification } from './timerNotifications';
+import { hasLegacyStepMarkup, migrateLegacyStep } from '../utils/legacyStepMarkup';
+import { summarizeWorkflowChanges, workflowContentChanged } from '../utils/workflowDiff';
+import { bestUnit, formatQuantity } from '../utils/units';
+import { describeTarget, multiplierForTarget, multiplierForYield } from '../utils/bakersMath';
+import { describeConflict, mergeBatchOps, type BatchOp, type FieldConflict } from '../utils/batchOps';
+import {
+  loadWorkflowsLocal, saveWorkflowsLocal, clearWorkflowsLocal,
+  loadWorkflowVersionsLocal, saveWorkflowVersionsLocal,
+  loadBatchesLocal, saveBatchesLocal, saveBatchLocal, deleteBatchLocal,
+  loadBatchEventsLocal, saveBatchEventsLocal,
+} from './localStore';
+
+/** One measured line of a recipe. No quantity means "to taste" style text. */
+export interface Ingredient {
+  name: string;
+  quantity?: number;
+  unit?: string;
+  note?: string;
+}
+
+/** A sub-recipe the step needs, e.g. pastry cream for an éclair fill. */
+export interface StepComponent {
+  workflowId: string;
+  quantity: number;
+  unit: string;
+}
+
+/** "Fold every 30 minutes, 4 times". Used instead of `timerMinutes` when set. */
+export interface StepIntervalTimer {
+  intervalMinutes: number;
+  repetitions: number;
+  /** What happens at each interval, e.g. "Fold" — shown as "Fold 2 of 4". */
+  label?: string;
+}
 
 export interface Step {
   id: string;
   title: string;
   description: string;
   timerMinutes?: number;
+  intervalTimer?: StepIntervalTimer;
+  /** Marks where cold-ferment batches go into the retarder, and for how long by default. */
+  retardHours?: number;
   completed?: boolean;
-  ingredients?: string[];
+  /** Measured checklist lines; `checklist` holds the unmeasured ones. */
+  ingredients?: Ingredient[];
+  checklist?: string[];
+  videoUrl?: string;
+  targetTemp?: string;
+  visualCues?: string;
+  confirmationRequired?: boolean;
+  components?: StepComponent[];
+}
+
+export type FormulaIngredientKind = 'flour' | 'liquid' | 'other';
+
+export interface FormulaIngredient {
+  name: string;
+  /** Percent of total flour weight. Flours add up to 100. */
+  percent: number;
+  kind: FormulaIngredientKind;
+}
+
+/** Baker's percentages for a workflow, anchored on the flour weight of one 1x batch. */
+export interface BakersFormula {
+  flourWeight: number;
+  ingredients: FormulaIngredient[];
+  /** Usual scaled piece, e.g. 80g rolls — the default when sizing by pieces. */
+  pieceWeight?: number;
+}
+
+/** What one 1x batch of a workflow makes, e.g. 24 baguettes. */
+export interface WorkflowYield {
+  count: number;
+  unit: string;
 }
 
+/** Targets sized from the baker's formula. */
+export type DoughTarget =
+  | { kind: 'dough'; grams: number }
+  | { kind: 'pieces'; count: number; pieceGrams: number };
+
+/** Size a batch by what it should make rather than by a multiplier. */
+export type BatchSizeTarget = DoughTarget | { kind: 'yield'; count: number; unit: string };
+
 export interface Workflow {
   id: string;
   name: string;
@@ -25,7 +103,7 @@ export interface Workflow {
   user_id?: string;
   location_id?: string;
   description?: string;
-  ingredients?: any[];
+  ingredients?: Ingredient[];
   servings?: string;
   source_url?: string;
   total_time_minutes?: number;
@@ -34,33 +112,127 @@ export interface Workflow {
   archived?: boolean;
   archived_at?: string;
   show_ferment_prompt?: boolean;
+  version?: number;
+  formula?: BakersFormula;
+  base_yield?: WorkflowYield;
+  /** One shelf per workflow, e.g. "Bread" or "Opening checklist". */
+  category?: string;
+  /** Normalized with normalizeTag from utils/workflowSearch. */
+  tags?: string[];
+}
+
+/** Immutable snapshot written on every workflow save. */
+export interface WorkflowVersion {
+  workflowId: string;
+  version: number;
+  name: string;
+  steps: Step[];
+  formula?: BakersFormula;
+  authorId: string;
+  authorName?: string;
+  createdAt: string;
+  summary: string;
 }
 
 export interface Timer {
   id: string;
   stepId: string;
   startedAt: number;
+  /** Seconds, including any extensions. */
   duration: number;
   acknowledged: boolean;
+  paused?: boolean;
+  /** When the current pause began; unset while running. */
+  pausedAt?: number;
+  /** Time spent in earlier, finished pauses — doesn't count towards elapsed. */
+  accumulatedPausedMs?: number;
+  /** Set on interval timers; `duration` is then the current repetition's countdown. */
+  interval?: { seconds: number; repetitions: number; label?: string };
+  /** Which repetition is counting down, from 1. */
+  repetition?: number;
+  /** Paused by pausing its batch rather than by hand; resumes when the batch does. */
+  heldByBatch?: boolean;
+}
+
+/** A cold-ferment batch sitting in the retarder, paused after `stepId`. */
+export interface BatchRetard {
+  stepId: string;
+  startedAt: number;
+  readyAt: number;
 }
 
+export type BatchStatus = 'planned' | 'in_progress' | 'paused' | 'completed' | 'cancelled';
+
 export interface Batch {
   id: string;
   workflowId: string;
+  workflowVersion?: number;
   name: string;
   mode: 'bake-today' | 'cold-ferment';
+  status: BatchStatus;
+  startedAt?: number;
+  completedAt?: number;
+  cancelledReason?: string;
+  /** Set on child batches launched for a parent step's component. */
+  parentBatchId?: string;
+  parentStepId?: string;
+  /** Units one 1x batch makes, copied from the workflow's base yield at creation. */
   unitsPerBatch: number;
+  /** Unit of `unitsPerBatch`; unset when the workflow declared no yield. */
+  yieldUnit?: string;
   batchSizeMultiplier: number;
+  /** What the batch was sized for, when it wasn't a plain multiplier. */
+  sizeTarget?: BatchSizeTarget;
   currentStepIndex: number;
   completedSteps: string[];
   activeTimers: Timer[];
+  retard?: BatchRetard;
+  /** Server revision this copy was last merged at; bumped by every progress write. */
+  revision?: number;
   createdAt: number;
+  claimedBy?: string;
+  claimedByName?: string;
+  claimedAt?: string;
   user_id?: string;
   location_id?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+export type BatchEventType =
+  | 'batch_created'
+  | 'status_changed'
+  | 'step_started'
+  | 'step_completed'
+  | 'checklist_checked'
+  | 'timer_started'
+  | 'timer_stopped'
+  | 'timer_acknowledged'
+  | 'timer_paused'
+  | 'timer_resumed'
+  | 'timer_extended'
+  | 'claimed'
+  | 'released'
+  | 'note_added'
+  | 'component_started'
+  | 'deleted'
+  | 'restored'
+  | 'merge_conflict'
+  | 'retard_started'
+  | 'retard_ended';
+
+export interface BatchEvent {
+  id: string;
+  batchId: string;
+  type: BatchEventType;
+  at: number;
+  stepId?: string;
+  /** Checklist item, note text, timer length or new status, depending on type. */
+  detail?: string;
+  actorId: string;
+  actorName: string;
+}
+
 export interface UserProfile {
   id: string;
   device_name?: string;
@@ -76,42 +248,86 @@ export interface UserProfile {
 
 let cachedWorkflows: Workflow[] = [];
 let cachedBatches: Batch[] = [];
+let cachedWorkflowVersions: WorkflowVersion[] = [];
 
 // ============================================
-// ASYNCSTORAGE PERSISTENCE KEYS
-// Workflows are persisted locally so the UI
-// shows stale-while-revalidate on every launch
-// instead of a blank "no workflows" flash.
+// CHANGE EVENTS
+// Screens subscribe here instead of polling.
+// Fired whenever the cache changes — from a
+// realtime delta, a full refresh or a local
+// batch update.
 // ============================================
 
-const STORAGE_KEY_WORKFLOWS = '@db_workflows_v2';
-const STORAGE_KEY_BATCHES   = '@db_batches_v2';
+export interface DataChangeEvent {
+  table: 'workflows' | 'batches';
+  type: 'INSERT' | 'UPDATE' | 'DELETE' | 'REFRESH';
+  id?: string;
+}
+
+type DataChangeListener = (event: DataChangeEvent) => void;
 
-async function persistWorkflows(workflows: Workflow[]): Promise<void> {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEY_WORKFLOWS, JSON.stringify(workflows));
-  } catch { /* non-fatal */ }
+const changeListeners = new Set<DataChangeListener>();
+
+/** Subscribe to cache changes. Returns an unsubscribe function. */
+export function subscribeToDataChanges(listener: DataChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+}
+
+function emitChange(event: DataChangeEvent): void {
+  changeListeners.forEach(listener => {
+    try { listener(event); } catch (err) { console.warn('[DB] change listener error:', err); }
+  });
+}
+
+// ============================================
+// LOCAL PERSISTENCE
+// Workflows and batches are persisted to the
+// SQLite local store so the UI shows
+// stale-while-revalidate on every launch
+// instead of a blank "no workflows" flash.
+// ============================================
+
+function persistWorkflows(workflows: Workflow[]): void {
+  saveWorkflowsLocal(workflows).catch(err => console.warn('[DB] Failed to persist workflows:', err));
 }
 
 async function loadPersistedWorkflows(): Promise<Workflow[]> {
-  try {
-    const raw = await AsyncStorage.getItem(STORAGE_KEY_WORKFLOWS);
-    return raw ? JSON.parse(raw) : [];
-  } catch { return []; }
+  try { return await loadWorkflowsLocal(); } catch { return []; }
 }
 
-async function persistBatches(batches: Batch[]): Promise<void> {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEY_BATCHES, JSON.stringify(batches));
-  } catch { /* non-fatal */ }
+/** Replaces all persisted batches — for full refreshes only. */
+function persistBatches(batches: Batch[]): void {
+  saveBatchesLocal(batches).catch(err => console.warn('[DB] Failed to persist batches:', err));
+}
+
+function persistBatch(batch: Batch): void {
+  saveBatchLocal(batch).catch(err => console.warn('[DB] Failed to persist batch:', err));
+}
+
+function unpersistBatch(batchId: string): void {
+  deleteBatchLocal(batchId).catch(err => console.warn('[DB] Failed to remove batch:', err));
 }
 
 async function loadPersistedBatches(): Promise<Batch[]> {
   try {
-    const raw = await AsyncStorage.getItem(STORAGE_KEY_BATCHES);
-    return raw ? JSON.parse(raw) : [];
+    // Batches cached before lifecycle states existed have no status yet
+    return (await loadBatchesLocal()).map(b => b.status ? b : {
+      ...b,
+      status: legacyBatchStatus({
+        current_step_index: b.currentStepIndex, completed_steps: b.completedSteps, active_timers: b.activeTimers,
+      }),
+    });
   } catch { return []; }
 }
+
+function persistWorkflowVersions(versions: WorkflowVersion[]): void {
+  saveWorkflowVersionsLocal(versions).catch(err => console.warn('[DB] Failed to persist versions:', err));
+}
+
+async function loadPersistedWorkflowVersions(): Promise<WorkflowVersion[]> {
+  try { return await loadWorkflowVersionsLocal(); } catch { return []; }
+}
 let cachedProfile: UserProfile | null = null;
 let profileLastFetched = 0;
 const PROFILE_CACHE_TTL_MS = 10_000;
@@ -126,14 +342,10 @@ async function getProfile(forceRefresh = false): Promise<UserProfile | null> {
     return cachedProfile;
   }
 
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   if (!user) { cachedProfile = null; return null; }
 
-  const { data, error } = await supabase
-    .from('profiles')
-    .select('id, device_name, location_id, email, role, subscription_status')
-    .eq('id', user.id)
-    .single();
+  const { data, error } = await getBackend().profiles.get(user.id);
 
   if (error || !data) {
     cachedProfile = { id: user.id, email: user.email };
@@ -145,12 +357,10 @@ async function getProfile(forceRefresh = false): Promise<UserProfile | null> {
 }
 
 async function updateProfile(updates: Partial<UserProfile>): Promise<void> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { error } = await supabase
-    .from('profiles')
-    .upsert({ id: user.id, ...updates, updated_at: new Date().toISOString() });
+  const { error } = await getBackend().profiles.upsert(user.id, { ...updates, updated_at: new Date().toISOString() });
 
   if (error) throw error;
 
@@ -163,14 +373,14 @@ async function updateProfile(updates: Partial<UserProfile>): Promise<void> {
 // ============================================
 
 export async function getDeviceId(): Promise<string> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   return user?.id || '';
 }
 
 export async function getDeviceName(): Promise<string> {
   const profile = await getProfile();
   if (profile?.device_name) return profile.device_name;
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   return user?.email || 'Unnamed Station';
 }
 
@@ -187,6 +397,13 @@ export async function getActiveLocationId(): Promise<string | null> {
   return profile?.location_id ?? null;
 }
 
+/** Location scope when clocked in, user scope when solo. Null when signed out. */
+async function getDataScope(): Promise<DataScope | null> {
+  const user = await getBackend().auth.getCurrentUser();
+  if (!user) return null;
+  return { userId: user.id, locationId: await getActiveLocationId() };
+}
+
 /**
  * Called after successful clock-in. Sets profile.location_id and reloads
  * all data under the new location scope so batches are immediately visible.
@@ -194,6 +411,7 @@ export async function getActiveLocationId(): Promise<string | null> {
 export async function setActiveLocation(locationId: string): Promise<void> {
   await updateProfile({ location_id: locationId });
   await Promise.all([getWorkflows(), _refreshBatches()]);
+  await startRealtimeSync();
 }
 
 /**
@@ -201,13 +419,12 @@ export async function setActiveLocation(locationId: string): Promise<void> {
  * queries to solo (user_id) scope.
  */
 export async function clearActiveLocation(): Promise<void> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   if (!user) return;
 
-  const { error } = await supabase
-    .from('profiles')
-    .update({ location_id: null, updated_at: new Date().toISOString() })
-    .eq('id', user.id);
+  const { error } = await getBackend().profiles.update(user.id, {
+    location_id: null, updated_at: new Date().toISOString(),
+  });
 
   if (error) throw error;
 
@@ -215,6 +432,7 @@ export async function clearActiveLocation(): Promise<void> {
   profileLastFetched = 0;
 
   await Promise.all([getWorkflows(), _refreshBatches()]);
+  await startRealtimeSync();
 }
 
 // ============================================
@@ -223,23 +441,27 @@ export async function clearActiveLocation(): Promise<void> {
 
 export async function initializeDatabase(): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) {
       cachedWorkflows = [];
       cachedBatches = [];
+      cachedWorkflowVersions = [];
       cachedProfile = null;
+      await stopRealtimeSync();
       return;
     }
 
     // ── Stale-while-revalidate ──────────────────────────────────────────────
     // Load persisted data immediately so the UI never shows a blank "no
     // workflows" flash on launch — even before Supabase responds.
-    const [persistedWorkflows, persistedBatches] = await Promise.all([
+    const [persistedWorkflows, persistedBatches, persistedVersions] = await Promise.all([
       loadPersistedWorkflows(),
       loadPersistedBatches(),
+      loadPersistedWorkflowVersions(),
     ]);
-    if (persistedWorkflows.length > 0) cachedWorkflows = persistedWorkflows;
+    if (persistedWorkflows.length > 0) cachedWorkflows = persistedWorkflows.map(normalizeWorkflowSteps);
     if (persistedBatches.length > 0)   cachedBatches   = persistedBatches;
+    cachedWorkflowVersions = persistedVersions;
 
     // Then fetch fresh from Supabase in the background.
     // getWorkflows() and _refreshBatches() will update the cache
@@ -250,40 +472,76 @@ export async function initializeDatabase(): Promise<void> {
       _refreshBatches(),
     ]);
     console.log(`[DB] Loaded ${freshWorkflows.length} workflows, ${freshBatches.length} batches`);
+
+    await migrateLegacyStepMarkup();
+
+    purgeExpiredTrash().catch(err => console.warn('[DB] Trash purge failed:', err));
+
+    await startRealtimeSync();
   } catch (error) {
     console.error('[DB] Error initializing:', error);
   }
 }
 
 // ============================================
-// WORKFLOW MANAGEMENT
+// STRUCTURED STEP MIGRATION
+// Checklists, videos, target temps and visual
+// cues used to be embedded in description text.
+// Reads always normalize; the migration writes
+// the structured form back once per scope.
 // ============================================
 
-export async function getWorkflows(): Promise<Workflow[]> {
-  try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return [];
+const MIGRATION_KEY_STRUCTURED_STEPS = '@migration_structured_steps_v1';
 
-    const profile = await getProfile();
-    const locationId = profile?.location_id;
+function normalizeWorkflowSteps<T extends Workflow>(workflow: T): T {
+  if (!workflow.steps?.some(hasLegacyStepMarkup)) return workflow;
+  return { ...workflow, steps: workflow.steps.map(migrateLegacyStep) };
+}
 
-    let query = supabase
-      .from('workflows')
-      .select('*')
-      .is('deleted_at', null)
-      .order('created_at', { ascending: false });
+async function migrateLegacyStepMarkup(): Promise<void> {
+  const scope = await getDataScope();
+  if (!scope) return;
 
-    if (locationId) {
-      query = query.eq('location_id', locationId);
-    } else {
-      query = query.eq('user_id', user.id);
-    }
+  const flagKey = `${MIGRATION_KEY_STRUCTURED_STEPS}:${scope.locationId ?? scope.userId}`;
+  if (await AsyncStorage.getItem(flagKey)) return;
+
+  const { data, error } = await getBackend().workflows.list(scope);
+  if (error) { console.warn('[DB] Step migration skipped:', error.message); return; }
+
+  let failures = 0;
+  for (const row of data || []) {
+    const steps: Step[] = row.steps || [];
+    if (!steps.some(hasLegacyStepMarkup)) continue;
+
+    const { error: updateError } = await getBackend().workflows.update(row.id, {
+      steps: steps.map(migrateLegacyStep), updated_at: new Date().toISOString(),
+    });
+    if (updateError) failures++;
+  }
+
+  if (failures === 0) {
+    await AsyncStorage.setItem(flagKey, new Date().toISOString());
+    console.log('[DB] Structured step migration complete');
+  } else {
+    console.warn(`[DB] Structured step migration: ${failures} workflow(s) will retry next launch`);
+  }
+}
+
+// ============================================
+// WORKFLOW MANAGEMENT
+// ============================================
+
+export async function getWorkflows(): Promise<Workflow[]> {
+  try {
+    const scope = await getDataScope();
+    if (!scope) return [];
 
-    const { data, error } = await query;
+    const { data, error } = await getBackend().workflows.list(scope);
     if (error) { console.error('Error fetching workflows:', error); return cachedWorkflows; }
 
-    cachedWorkflows = data || [];
+    cachedWorkflows = ((data || []) as Workflow[]).map(normalizeWorkflowSteps);
     persistWorkflows(cachedWorkflows); // keep local cache fresh
+    emitChange({ table: 'workflows', type: 'REFRESH' });
     return cachedWorkflows;
   } catch (err) {
     console.error('Error in getWorkflows:', err);
@@ -291,39 +549,42 @@ export async function getWorkflows(): Promise<Workflow[]> {
   }
 }
 
+/** Synchronous read of the workflow cache — no network round-trip. */
+export function getCachedWorkflows(): Workflow[] {
+  return JSON.parse(JSON.stringify(cachedWorkflows));
+}
+
 export async function setWorkflows(newWorkflows: Workflow[]): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
 
     const currentWorkflows = await getWorkflows();
     const newWorkflowIds = new Set(newWorkflows.map(w => w.id));
     const toDelete = currentWorkflows.filter(w => !newWorkflowIds.has(w.id));
 
-    for (const workflow of toDelete) {
-      await supabase.from('workflows').delete().eq('id', workflow.id).eq('user_id', user.id);
+    // Removed workflows go to the trash rather than being dropped
+    if (toDelete.length > 0) {
+      const deletion = await deletionStamp(user.id);
+      for (const workflow of toDelete) {
+        const { error } = await getBackend().workflows.update(workflow.id, deletion);
+        if (error) throw error;
+      }
     }
 
     const profile = await getProfile();
     const locationId = profile?.location_id ?? null;
+    const authorName = await getDeviceName();
 
+    const savedWorkflows: Workflow[] = [];
     for (const workflow of newWorkflows) {
-      await supabase.from('workflows').upsert({
-        id: workflow.id,
-        name: workflow.name,
-        steps: workflow.steps,
-        user_id: user.id,
-        location_id: workflow.location_id ?? locationId,
-        claimed_by: workflow.claimedBy || null,
-        claimed_by_name: workflow.claimedByName || null,
-        archived: workflow.archived || false,
-        archived_at: workflow.archived_at || null,
-        show_ferment_prompt: workflow.show_ferment_prompt ?? true,
-        updated_at: new Date().toISOString(),
-      });
+      const previous = currentWorkflows.find(w => w.id === workflow.id);
+      savedWorkflows.push(await saveWorkflowRow(workflow, previous, {
+        userId: user.id, authorName, locationId: workflow.location_id ?? locationId,
+      }));
     }
 
-    cachedWorkflows = newWorkflows;
+    cachedWorkflows = savedWorkflows;
   } catch (err) {
     console.error('Error setting workflows:', err);
     throw err;
@@ -332,13 +593,13 @@ export async function setWorkflows(newWorkflows: Workflow[]): Promise<void> {
 
 export async function addWorkflow(newWorkflow: Workflow): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
 
     const profile = await getProfile();
     const locationId = newWorkflow.location_id ?? profile?.location_id ?? null;
 
-    const { error } = await supabase.from('workflows').insert({
+    const error = await applyMutation({ table: 'workflows', op: 'insert', row: {
       id: newWorkflow.id,
       name: newWorkflow.name,
       steps: newWorkflow.steps,
@@ -349,27 +610,20 @@ export async function addWorkflow(newWorkflow: Workflow): Promise<void> {
       archived: newWorkflow.archived || false,
       archived_at: newWorkflow.archived_at || null,
       show_ferment_prompt: newWorkflow.show_ferment_prompt ?? true,
+      formula: newWorkflow.formula ?? null,
+      base_yield: newWorkflow.base_yield ?? null,
+      category: newWorkflow.category ?? null,
+      tags: newWorkflow.tags ?? [],
+      version: 1,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
-    });
+    }});
+    if (error) throw error;
 
-    if (error) {
-      if (isSupabaseNetworkError(error)) {
-        await enqueue({ type: 'insert', table: 'workflows', payload: {
-          id: newWorkflow.id, name: newWorkflow.name, steps: newWorkflow.steps,
-          user_id: user.id, location_id: locationId,
-          claimed_by: newWorkflow.claimedBy || null,
-          claimed_by_name: newWorkflow.claimedByName || null,
-          archived: newWorkflow.archived || false,
-          archived_at: newWorkflow.archived_at || null,
-          show_ferment_prompt: newWorkflow.show_ferment_prompt ?? true,
-          created_at: new Date().toISOString(), updated_at: new Date().toISOString(),
-        }});
-      } else {
-        throw error;
-      }
-    }
-    cachedWorkflows.push({ ...newWorkflow, user_id: user.id, location_id: locationId ?? undefined });
+    await recordWorkflowVersion(newWorkflow, 1, summarizeWorkflowChanges(undefined, newWorkflow), {
+      userId: user.id, authorName: await getDeviceName(), locationId,
+    });
+    cachedWorkflows.push({ ...newWorkflow, version: 1, user_id: user.id, location_id: locationId ?? undefined });
     persistWorkflows(cachedWorkflows);
   } catch (err) {
     console.error('Error adding workflow:', err);
@@ -379,17 +633,14 @@ export async function addWorkflow(newWorkflow: Workflow): Promise<void> {
 
 export async function resetWorkflows(): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) return;
 
-    await supabase
-      .from('workflows')
-      .update({ deleted_at: new Date().toISOString() })
-      .eq('user_id', user.id)
-      .is('deleted_at', null);
+    const { error } = await getBackend().workflows.softDeleteAll(user.id, await deletionStamp(user.id));
+    if (error) throw error;
 
     cachedWorkflows = [];
-    await AsyncStorage.removeItem(STORAGE_KEY_WORKFLOWS);
+    await clearWorkflowsLocal();
   } catch (err) {
     console.error('Error resetting workflows:', err);
     throw err;
@@ -402,14 +653,14 @@ export async function markStepCompleted(workflowId: string, stepId: string, comp
   const step = workflow.steps.find(s => s.id === stepId);
   if (!step) return;
   step.completed = completed;
-  await supabase.from('workflows').update({ steps: workflow.steps, updated_at: new Date().toISOString() }).eq('id', workflowId);
+  await getBackend().workflows.update(workflowId, { steps: workflow.steps, updated_at: new Date().toISOString() });
 }
 
 export async function archiveWorkflow(workflowId: string): Promise<void> {
   try {
-    const { error } = await supabase.from('workflows').update({
+    const { error } = await getBackend().workflows.update(workflowId, {
       archived: true, archived_at: new Date().toISOString(), updated_at: new Date().toISOString(),
-    }).eq('id', workflowId);
+    });
     if (error) throw error;
     const wf = cachedWorkflows.find(w => w.id === workflowId);
     if (wf) { wf.archived = true; wf.archived_at = new Date().toISOString(); }
@@ -419,9 +670,9 @@ export async function archiveWorkflow(workflowId: string): Promise<void> {
 
 export async function unarchiveWorkflow(workflowId: string): Promise<void> {
   try {
-    const { error } = await supabase.from('workflows').update({
+    const { error } = await getBackend().workflows.update(workflowId, {
       archived: false, archived_at: null, updated_at: new Date().toISOString(),
-    }).eq('id', workflowId);
+    });
     if (error) throw error;
     const wf = cachedWorkflows.find(w => w.id === workflowId);
     if (wf) { wf.archived = false; wf.archived_at = undefined; }
@@ -429,18 +680,214 @@ export async function unarchiveWorkflow(workflowId: string): Promise<void> {
   } catch (err) { console.error('Error unarchiving workflow:', err); throw err; }
 }
 
+// ============================================
+// WORKFLOW VERSIONS
+// Every save that changes content writes an
+// immutable snapshot. Batches pin the version
+// they started on so mid-run edits can't shift
+// the steps under currentStepIndex.
+// ============================================
+
+interface VersionAuthor {
+  userId: string;
+  authorName: string;
+  locationId: string | null;
+}
+
+function dbVersionToApp(row: any): WorkflowVersion {
+  return {
+    workflowId: row.workflow_id,
+    version: row.version,
+    name: row.name,
+    steps: (row.steps || []).map(migrateLegacyStep),
+    formula: row.formula ?? undefined,
+    authorId: row.author_id,
+    authorName: row.author_name ?? undefined,
+    createdAt: row.created_at,
+    summary: row.summary || '',
+  };
+}
+
+function cacheWorkflowVersions(versions: WorkflowVersion[]): void {
+  const key = (v: WorkflowVersion) => `${v.workflowId}@${v.version}`;
+  const incoming = new Set(versions.map(key));
+  cachedWorkflowVersions = [...cachedWorkflowVersions.filter(v => !incoming.has(key(v))), ...versions];
+  persistWorkflowVersions(versions);
+}
+
+/**
+ * Writes a version row and returns the number the server gave it. Offline
+ * the write is queued and `expected` stands in until it replays.
+ */
+async function recordWorkflowVersion(
+  workflow: Workflow,
+  expected: number,
+  summary: string,
+  author: VersionAuthor
+): Promise<number> {
+  const createdAt = new Date().toISOString();
+  const row = {
+    workflow_id: workflow.id, version: expected, name: workflow.name, steps: workflow.steps, formula: workflow.formula ?? null,
+    author_id: author.userId, author_name: author.authorName, summary,
+    user_id: author.userId, location_id: author.locationId, created_at: createdAt,
+  };
+
+  const { data: version, error } = await applyVersionInsert(row);
+  if (error) throw error;
+  cacheWorkflowVersions([dbVersionToApp({ ...row, version: version ?? expected })]);
+  return version ?? expected;
+}
+
+/**
+ * Upserts a workflow row, then writes a new version when its content
+ * changed. Workflows saved before versioning existed get their previous
+ * state recorded as version 1 so nothing already running loses its steps.
+ */
+async function saveWorkflowRow(
+  workflow: Workflow,
+  previous: Workflow | undefined,
+  author: VersionAuthor,
+  summary?: string
+): Promise<Workflow> {
+  const unversioned = previous && !previous.version ? previous : undefined;
+  const changed = !previous || workflowContentChanged(previous, workflow);
+  const written = (previous?.version || (unversioned ? 1 : 0)) + (changed ? 1 : 0);
+
+  const error = await applyMutation({ table: 'workflows', op: 'upsert', row: {
+    id: workflow.id,
+    name: workflow.name,
+    steps: workflow.steps,
+    user_id: author.userId,
+    location_id: author.locationId,
+    claimed_by: workflow.claimedBy || null,
+    claimed_by_name: workflow.claimedByName || null,
+    archived: workflow.archived || false,
+    archived_at: workflow.archived_at || null,
+    show_ferment_prompt: workflow.show_ferment_prompt ?? true,
+    formula: workflow.formula ?? null,
+    base_yield: workflow.base_yield ?? null,
+    category: workflow.category ?? null,
+    tags: workflow.tags ?? [],
+    version: written,
+    updated_at: new Date().toISOString(),
+  }});
+  if (error) throw error;
+
+  let version = previous?.version ?? 0;
+  if (unversioned) version = await recordWorkflowVersion(unversioned, 1, 'Initial version', author);
+  if (changed) {
+    version = await recordWorkflowVersion(workflow, version + 1, summary ?? summarizeWorkflowChanges(previous, workflow), author);
+  }
+  // Another station saved a version in between, so ours got the next number
+  if (version !== written) {
+    const versionError = await applyMutation({ table: 'workflows', op: 'update', id: workflow.id, fields: { version } });
+    if (versionError) throw versionError;
+  }
+
+  return { ...workflow, version };
+}
+
+/** Returns the workflow's current version, recording one if it has never been versioned. */
+async function ensureWorkflowVersion(workflow: Workflow, userId: string, locationId: string | null): Promise<number> {
+  if (workflow.version) return workflow.version;
+
+  const version = await recordWorkflowVersion(workflow, 1, 'Initial version', {
+    userId, authorName: await getDeviceName(), locationId,
+  });
+  workflow.version = version;
+  await getBackend().workflows.update(workflow.id, { version });
+  persistWorkflows(cachedWorkflows);
+  return version;
+}
+
+/** Version history for a workflow, newest first. Falls back to the local copy offline. */
+export async function getWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+  try {
+    const { data, error } = await getBackend().workflows.listVersions(workflowId);
+    if (error) throw error;
+    cacheWorkflowVersions((data || []).map(dbVersionToApp));
+  } catch (err) {
+    console.warn('[DB] Using cached workflow versions:', err);
+  }
+  return cachedWorkflowVersions
+    .filter(v => v.workflowId === workflowId)
+    .sort((a, b) => b.version - a.version);
+}
+
+export async function getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+  const cached = cachedWorkflowVersions.find(v => v.workflowId === workflowId && v.version === version);
+  if (cached) return cached;
+
+  const { data, error } = await getBackend().workflows.getVersion(workflowId, version);
+  if (error || !data) return undefined;
+
+  const fetched = dbVersionToApp(data);
+  cacheWorkflowVersions([fetched]);
+  return fetched;
+}
+
+/**
+ * The workflow as the batch should see it — the version it was started on.
+ * Batches from before versioning fall back to the live workflow.
+ */
+export async function getWorkflowForBatch(batch: Batch): Promise<Workflow | undefined> {
+  const current = cachedWorkflows.find(w => w.id === batch.workflowId);
+  if (!batch.workflowVersion || current?.version === batch.workflowVersion) return current;
+
+  const pinned = await getWorkflowVersion(batch.workflowId, batch.workflowVersion);
+  if (!pinned) return current;
+
+  return {
+    ...(current ?? {}), id: batch.workflowId, name: pinned.name, steps: pinned.steps, formula: pinned.formula, version: pinned.version,
+  };
+}
+
+/** Makes an old version current again by saving it as a new version. */
+export async function restoreWorkflowVersion(workflowId: string, version: number): Promise<void> {
+  try {
+    const user = await getBackend().auth.getCurrentUser();
+    if (!user) throw new Error('Must be signed in');
+
+    const snapshot = await getWorkflowVersion(workflowId, version);
+    if (!snapshot) throw new Error('Version not found');
+
+    const current = (await getWorkflows()).find(w => w.id === workflowId);
+    if (!current) throw new Error('Workflow not found');
+
+    const profile = await getProfile();
+    const saved = await saveWorkflowRow(
+      // Snapshots from before formulas existed keep the current one
+      { ...current, name: snapshot.name, steps: snapshot.steps, formula: snapshot.formula ?? current.formula },
+      current,
+      {
+        userId: user.id,
+        authorName: await getDeviceName(),
+        locationId: current.location_id ?? profile?.location_id ?? null,
+      },
+      `Restored version ${version}`
+    );
+
+    cachedWorkflows = cachedWorkflows.map(w => (w.id === workflowId ? saved : w));
+    persistWorkflows(cachedWorkflows);
+    emitChange({ table: 'workflows', type: 'UPDATE', id: workflowId });
+  } catch (err) {
+    console.error('Error restoring workflow version:', err);
+    throw err;
+  }
+}
+
 // ============================================
 // WORKFLOW CLAIMS
 // ============================================
 
 export async function claimWorkflow(workflowId: string): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
     const deviceName = await getDeviceName();
-    const { error } = await supabase.from('workflows').update({
+    const { error } = await getBackend().workflows.update(workflowId, {
       claimed_by: user.id, claimed_by_name: deviceName, updated_at: new Date().toISOString(),
-    }).eq('id', workflowId);
+    });
     if (error) throw error;
     const wf = cachedWorkflows.find(w => w.id === workflowId);
     if (wf) { wf.claimedBy = user.id; wf.claimedByName = deviceName; }
@@ -449,19 +896,20 @@ export async function claimWorkflow(workflowId: string): Promise<void> {
 
 export async function unclaimWorkflow(workflowId: string): Promise<void> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
-    const { error } = await supabase.from('workflows').update({
+    const wf = cachedWorkflows.find(w => w.id === workflowId);
+    if (wf && wf.claimedBy !== user.id) return;
+    const { error } = await getBackend().workflows.update(workflowId, {
       claimed_by: null, claimed_by_name: null, updated_at: new Date().toISOString(),
-    }).eq('id', workflowId).eq('claimed_by', user.id);
+    });
     if (error) throw error;
-    const wf = cachedWorkflows.find(w => w.id === workflowId);
     if (wf) { wf.claimedBy = undefined; wf.claimedByName = undefined; }
   } catch (err) { console.error('Error unclaiming workflow:', err); throw err; }
 }
 
 export async function getClaimedWorkflows(): Promise<Workflow[]> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   if (!user) return [];
   return cachedWorkflows.filter(w => w.claimedBy === user.id);
 }
@@ -471,7 +919,7 @@ export async function getUnclaimedWorkflows(): Promise<Workflow[]> {
 }
 
 export async function isWorkflowClaimedByMe(workflowId: string): Promise<boolean> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getBackend().auth.getCurrentUser();
   if (!user) return false;
   return cachedWorkflows.find(w => w.id === workflowId)?.claimedBy === user.id;
 }
@@ -480,18 +928,40 @@ export async function isWorkflowClaimedByMe(workflowId: string): Promise<boolean
 // BATCH MANAGEMENT
 // ============================================
 
+// Rows written before lifecycle states existed
+function legacyBatchStatus(dbBatch: any): BatchStatus {
+  const started = (dbBatch.current_step_index || 0) > 0
+    || (dbBatch.completed_steps || []).length > 0
+    || (dbBatch.active_timers || []).length > 0;
+  return started ? 'in_progress' : 'planned';
+}
+
 function dbBatchToApp(dbBatch: any): Batch {
   return {
     id: dbBatch.id,
     workflowId: dbBatch.workflow_id,
+    workflowVersion: dbBatch.workflow_version ?? undefined,
     name: dbBatch.name,
     mode: dbBatch.mode,
+    status: dbBatch.status ?? legacyBatchStatus(dbBatch),
+    startedAt: dbBatch.started_at ? new Date(dbBatch.started_at).getTime() : undefined,
+    completedAt: dbBatch.completed_at ? new Date(dbBatch.completed_at).getTime() : undefined,
+    cancelledReason: dbBatch.cancelled_reason ?? undefined,
+    parentBatchId: dbBatch.parent_batch_id ?? undefined,
+    parentStepId: dbBatch.parent_step_id ?? undefined,
     unitsPerBatch: dbBatch.units_per_batch || 1,
+    yieldUnit: dbBatch.yield_unit ?? undefined,
     batchSizeMultiplier: dbBatch.batch_size_multiplier || 1,
+    sizeTarget: dbBatch.size_target ?? undefined,
     currentStepIndex: dbBatch.current_step_index || 0,
     completedSteps: dbBatch.completed_steps || [],
     activeTimers: dbBatch.active_timers || [],
+    retard: dbBatch.retard ?? undefined,
+    revision: dbBatch.revision ?? 0,
     createdAt: new Date(dbBatch.created_at).getTime(),
+    claimedBy: dbBatch.claimed_by ?? undefined,
+    claimedByName: dbBatch.claimed_by_name ?? undefined,
+    claimedAt: dbBatch.claimed_at ?? undefined,
     user_id: dbBatch.user_id,
     location_id: dbBatch.location_id,
     created_at: dbBatch.created_at,
@@ -505,25 +975,15 @@ export function getBatches(): Batch[] {
 
 export async function _refreshBatches(): Promise<Batch[]> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return [];
-
-    const profile = await getProfile();
-    const locationId = profile?.location_id;
-
-    let query = supabase.from('batches').select('*').order('created_at', { ascending: false });
-
-    if (locationId) {
-      query = query.eq('location_id', locationId);
-    } else {
-      query = query.eq('user_id', user.id);
-    }
+    const scope = await getDataScope();
+    if (!scope) return [];
 
-    const { data, error } = await query;
+    const { data, error } = await getBackend().batches.list(scope);
     if (error) { console.error('Error fetching batches:', error); return cachedBatches; }
 
-    cachedBatches = (data || []).map(dbBatchToApp);
+    cachedBatches = (data || []).map(dbBatchToApp).map(overlayPendingClaim);
     persistBatches(cachedBatches); // keep local cache fresh
+    emitChange({ table: 'batches', type: 'REFRESH' });
     return cachedBatches;
   } catch (err) {
     console.error('Error refreshing batches:', err);
@@ -536,49 +996,77 @@ export function getBatch(batchId: string): Batch | undefined {
   return batch ? JSON.parse(JSON.stringify(batch)) : undefined;
 }
 
+/** Multiplier for a target: yields divide by the workflow's base yield, the rest go through its formula. */
+function multiplierForWorkflowTarget(workflow: Workflow, target: BatchSizeTarget): number {
+  if (target.kind === 'yield') {
+    if (!workflow.base_yield) throw new Error(`${workflow.name} has no base yield to size from`);
+    return multiplierForYield(workflow.base_yield, target.count);
+  }
+  if (!workflow.formula) throw new Error(`${workflow.name} has no baker's formula to size from`);
+  return multiplierForTarget(workflow.formula, target);
+}
+
+/** What the batch should make at its current size, when its workflow declared a yield. */
+export function expectedYield(batch: Batch): WorkflowYield | undefined {
+  if (!batch.yieldUnit) return undefined;
+  return { count: Math.round(batch.unitsPerBatch * batch.batchSizeMultiplier), unit: batch.yieldUnit };
+}
+
 export async function createBatch(
   workflowId: string,
   mode: 'bake-today' | 'cold-ferment',
   unitsPerBatch = 1,
-  batchSizeMultiplier = 1
+  size: number | BatchSizeTarget = 1,
+  parent?: { batchId: string; stepId: string }
 ): Promise<Batch> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
 
     const workflow = cachedWorkflows.find(w => w.id === workflowId);
     if (!workflow) throw new Error('Workflow not found');
 
+    const sizeTarget = typeof size === 'number' ? undefined : size;
+    const batchSizeMultiplier = sizeTarget ? multiplierForWorkflowTarget(workflow, sizeTarget) : size as number;
+    // A declared yield replaces the caller's units so expected output follows the recipe
+    const baseYield = workflow.base_yield;
+
     const profile = await getProfile();
     const locationId = workflow.location_id ?? profile?.location_id ?? null;
+    const workflowVersion = await ensureWorkflowVersion(workflow, user.id, locationId);
+
+    // Workflows that never cold-ferment don't offer the choice, so don't take it either
+    const batchMode = workflow.show_ferment_prompt === false ? 'bake-today' : mode;
 
     const batch: Batch = {
       id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      workflowId, name: workflow.name, mode, unitsPerBatch, batchSizeMultiplier,
+      workflowId, workflowVersion, name: workflow.name, mode: batchMode, status: 'planned',
+      unitsPerBatch: baseYield?.count ?? unitsPerBatch, yieldUnit: baseYield?.unit, batchSizeMultiplier, sizeTarget,
       currentStepIndex: 0, completedSteps: [], activeTimers: [], createdAt: Date.now(),
+      parentBatchId: parent?.batchId, parentStepId: parent?.stepId,
     };
 
     const insertPayload = {
-      id: batch.id, workflow_id: batch.workflowId, name: batch.name, mode: batch.mode,
-      units_per_batch: batch.unitsPerBatch, batch_size_multiplier: batch.batchSizeMultiplier,
+      id: batch.id, workflow_id: batch.workflowId, workflow_version: workflowVersion,
+      name: batch.name, mode: batch.mode, status: batch.status,
+      parent_batch_id: parent?.batchId ?? null, parent_step_id: parent?.stepId ?? null,
+      units_per_batch: batch.unitsPerBatch, yield_unit: batch.yieldUnit ?? null,
+      batch_size_multiplier: batch.batchSizeMultiplier, size_target: sizeTarget ?? null,
       current_step_index: 0, completed_steps: [], active_timers: [],
       user_id: user.id, location_id: locationId,
       created_at: new Date(batch.createdAt).toISOString(), updated_at: new Date().toISOString(),
     };
 
     // Always add to local cache first — works offline
-    cachedBatches.push({ ...batch, user_id: user.id, location_id: locationId ?? undefined });
-    persistBatches(cachedBatches);
+    const cached = { ...batch, user_id: user.id, location_id: locationId ?? undefined };
+    cachedBatches.push(cached);
+    persistBatch(cached);
 
-    const { error } = await supabase.from('batches').insert(insertPayload);
-    if (error) {
-      if (isSupabaseNetworkError(error)) {
-        await enqueue({ type: 'insert', table: 'batches', payload: insertPayload });
-      } else {
-        throw error;
-      }
-    }
+    const error = await applyMutation({ table: 'batches', op: 'insert', row: insertPayload });
+    if (error) throw error;
 
+    const sizeDetail = sizeTarget ? `${describeTarget(sizeTarget)} (${batchSizeMultiplier}x)` : `${batchSizeMultiplier}x`;
+    await logBatchEvent(cached, 'batch_created', { detail: `v${workflowVersion}, ${batchMode}, ${sizeDetail}` });
     return batch;
   } catch (err) {
     console.error('Error creating batch:', err);
@@ -591,40 +1079,38 @@ export async function duplicateBatch(batchId: string): Promise<Batch> {
     const original = cachedBatches.find(b => b.id === batchId);
     if (!original) throw new Error('Batch not found');
 
-    const { data: { user } } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     if (!user) throw new Error('Must be signed in');
 
+    // A duplicate starts fresh, so it pins the workflow as it is now
+    const workflow = cachedWorkflows.find(w => w.id === original.workflowId);
+    const workflowVersion = workflow
+      ? await ensureWorkflowVersion(workflow, user.id, original.location_id ?? null)
+      : original.workflowVersion;
+
     const newBatch: Batch = {
       id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      workflowId: original.workflowId, name: original.name, mode: original.mode,
-      unitsPerBatch: original.unitsPerBatch, batchSizeMultiplier: original.batchSizeMultiplier,
+      workflowId: original.workflowId, workflowVersion, name: original.name, mode: original.mode, status: 'planned',
+      unitsPerBatch: original.unitsPerBatch, yieldUnit: original.yieldUnit,
+      batchSizeMultiplier: original.batchSizeMultiplier, sizeTarget: original.sizeTarget,
       currentStepIndex: 0, completedSteps: [], activeTimers: [], createdAt: Date.now(),
     };
 
-    const { error } = await supabase.from('batches').insert({
-      id: newBatch.id, workflow_id: newBatch.workflowId, name: newBatch.name, mode: newBatch.mode,
-      units_per_batch: newBatch.unitsPerBatch, batch_size_multiplier: newBatch.batchSizeMultiplier,
+    const error = await applyMutation({ table: 'batches', op: 'insert', row: {
+      id: newBatch.id, workflow_id: newBatch.workflowId, workflow_version: workflowVersion ?? null,
+      name: newBatch.name, mode: newBatch.mode, status: newBatch.status,
+      units_per_batch: newBatch.unitsPerBatch, yield_unit: newBatch.yieldUnit ?? null,
+      batch_size_multiplier: newBatch.batchSizeMultiplier, size_target: newBatch.sizeTarget ?? null,
       current_step_index: 0, completed_steps: [], active_timers: [],
       user_id: user.id, location_id: original.location_id || null,
       created_at: new Date(newBatch.createdAt).toISOString(), updated_at: new Date().toISOString(),
-    });
-
-    if (error) {
-      if (isSupabaseNetworkError(error)) {
-        await enqueue({ type: 'insert', table: 'batches', payload: {
-          id: newBatch.id, workflow_id: newBatch.workflowId, name: newBatch.name, mode: newBatch.mode,
-          units_per_batch: newBatch.unitsPerBatch, batch_size_multiplier: newBatch.batchSizeMultiplier,
-          current_step_index: 0, completed_steps: [], active_timers: [],
-          user_id: user.id, location_id: original.location_id || null,
-          created_at: new Date(newBatch.createdAt).toISOString(), updated_at: new Date().toISOString(),
-        }});
-      } else {
-        throw error;
-      }
-    }
+    }});
+    if (error) throw error;
 
-    cachedBatches.push({ ...newBatch, user_id: user.id, location_id: original.location_id });
-    persistBatches(cachedBatches);
+    const cached = { ...newBatch, user_id: user.id, location_id: original.location_id };
+    cachedBatches.push(cached);
+    persistBatch(cached);
+    await logBatchEvent(cached, 'batch_created', { detail: `Duplicated from ${original.name}` });
     return newBatch;
   } catch (err) {
     console.error('Error duplicating batch:', err);
@@ -637,14 +1123,30 @@ export async function renameBatch(batchId: string, newName: string): Promise<voi
     const batch = cachedBatches.find(b => b.id === batchId);
     if (!batch) return;
     batch.name = newName;
-    await supabase.from('batches').update({ name: newName, updated_at: new Date().toISOString() }).eq('id', batchId);
+    persistBatch(batch);
+    await getBackend().batches.update(batchId, { name: newName, updated_at: new Date().toISOString() });
   } catch (err) { console.error('Error renaming batch:', err); throw err; }
 }
 
+/** Moves a batch to the trash. It can be restored until purged. */
 export async function deleteBatch(batchId: string): Promise<void> {
   try {
-    await supabase.from('batches').delete().eq('id', batchId);
+    const user = await getBackend().auth.getCurrentUser();
+    if (!user) throw new Error('Must be signed in');
+
+    const batch = cachedBatches.find(b => b.id === batchId);
+    if (batch) {
+      await logBatchEvent(batch, 'deleted');
+      batch.activeTimers.forEach(t => cancelTimerNotification(t.id));
+    }
+
+    const deletion = await deletionStamp(user.id);
     cachedBatches = cachedBatches.filter(b => b.id !== batchId);
+    unpersistBatch(batchId);
+    emitChange({ table: 'batches', type: 'DELETE', id: batchId });
+
+    const error = await applyMutation({ table: 'batches', op: 'update', id: batchId, fields: deletion });
+    if (error) throw error;
   } catch (err) { console.error('Error deleting batch:', err); throw err; }
 }
 
@@ -655,83 +1157,971 @@ export function batchHasProgress(batchId: string): boolean {
 }
 
 // ============================================
-// BATCH STEP MANAGEMENT
+// TRASH
+// Deletes are soft: rows get deleted_at /
+// deleted_by and drop out of every list, but
+// can be restored from Settings → Trash until
+// purged by hand or by the retention sweep
+// that runs on startup.
 // ============================================
 
-async function _updateBatch(batchId: string, updates: any): Promise<void> {
-  const batch = cachedBatches.find(b => b.id === batchId);
-  if (!batch) return;
+const TRASH_RETENTION_KEY = '@trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
 
-  const dbUpdates: any = { updated_at: new Date().toISOString() };
-  if (updates.batchSizeMultiplier !== undefined) dbUpdates.batch_size_multiplier = updates.batchSizeMultiplier;
-  if (updates.currentStepIndex !== undefined) dbUpdates.current_step_index = updates.currentStepIndex;
-  if (updates.completedSteps !== undefined) dbUpdates.completed_steps = updates.completedSteps;
-  if (updates.activeTimers !== undefined) dbUpdates.active_timers = updates.activeTimers;
+export interface TrashItem {
+  kind: 'workflow' | 'batch';
+  id: string;
+  name: string;
+  deletedAt: string;
+  deletedBy?: string;
+  deletedByName?: string;
+}
 
-  // Always update local cache — works offline
-  Object.assign(batch, updates);
-  persistBatches(cachedBatches);
+async function deletionStamp(userId: string) {
+  const now = new Date().toISOString();
+  return { deleted_at: now, deleted_by: userId, deleted_by_name: await getDeviceName(), updated_at: now };
+}
+
+function dbTrashItem(kind: TrashItem['kind'], row: any): TrashItem {
+  return {
+    kind,
+    id: row.id,
+    name: row.name,
+    deletedAt: row.deleted_at,
+    deletedBy: row.deleted_by ?? undefined,
+    deletedByName: row.deleted_by_name ?? undefined,
+  };
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const saved = await AsyncStorage.getItem(TRASH_RETENTION_KEY);
+  const days = saved ? parseInt(saved, 10) : NaN;
+  return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
 
-  const { error } = await supabase.from('batches').update(dbUpdates).eq('id', batchId);
-  if (error && isSupabaseNetworkError(error)) {
-    await enqueue({ type: 'update', table: 'batches', payload: dbUpdates, match: { id: batchId } });
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await AsyncStorage.setItem(TRASH_RETENTION_KEY, String(days));
+}
+
+/** Deleted workflows and batches in scope, most recently deleted first. */
+export async function getTrash(): Promise<TrashItem[]> {
+  try {
+    const scope = await getDataScope();
+    if (!scope) return [];
+
+    const [workflows, batches] = await Promise.all([
+      getBackend().workflows.listDeleted(scope),
+      getBackend().batches.listDeleted(scope),
+    ]);
+    if (workflows.error) throw workflows.error;
+    if (batches.error) throw batches.error;
+
+    return [
+      ...(workflows.data || []).map(row => dbTrashItem('workflow', row)),
+      ...(batches.data || []).map(row => dbTrashItem('batch', row)),
+    ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  } catch (err) {
+    console.error('Error loading trash:', err);
+    throw err;
   }
 }
 
-export async function updateBatchSize(batchId: string, multiplier: number): Promise<void> {
-  await _updateBatch(batchId, { batchSizeMultiplier: multiplier });
+export async function restoreFromTrash(item: TrashItem): Promise<void> {
+  try {
+    const restored = {
+      deleted_at: null, deleted_by: null, deleted_by_name: null, updated_at: new Date().toISOString(),
+    };
+
+    if (item.kind === 'workflow') {
+      const { error } = await getBackend().workflows.update(item.id, restored);
+      if (error) throw error;
+      await getWorkflows();
+    } else {
+      const { error } = await getBackend().batches.update(item.id, restored);
+      if (error) throw error;
+      await _refreshBatches();
+      await logBatchEventById(item.id, 'restored');
+    }
+  } catch (err) {
+    console.error('Error restoring from trash:', err);
+    throw err;
+  }
 }
 
-export async function updateBatchStep(batchId: string, stepIndex: number): Promise<void> {
-  await _updateBatch(batchId, { currentStepIndex: stepIndex });
+/** Permanently deletes a trashed workflow or batch. */
+export async function purgeFromTrash(item: TrashItem): Promise<void> {
+  try {
+    const user = await getBackend().auth.getCurrentUser();
+    if (!user) throw new Error('Must be signed in');
+
+    // By id, like the trash listing — row-level security decides who may purge
+    const { data: deleted, error } = item.kind === 'workflow'
+      ? await getBackend().workflows.remove(item.id)
+      : await getBackend().batches.remove(item.id);
+    if (error) throw error;
+    if (!deleted) throw new Error(`${item.name} was not deleted — it is already gone or you don't have permission`);
+  } catch (err) {
+    console.error('Error purging from trash:', err);
+    throw err;
+  }
 }
 
-export async function completeBatchStep(batchId: string, stepId: string): Promise<void> {
-  const batch = cachedBatches.find(b => b.id === batchId);
-  if (!batch) return;
-  if (!batch.completedSteps.includes(stepId)) {
-    batch.completedSteps.push(stepId);
-    await _updateBatch(batchId, { completedSteps: batch.completedSteps });
+/** Purges everything deleted longer ago than the retention period. Returns how many rows went. */
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = Date.now() - (await getTrashRetentionDays()) * 24 * 60 * 60 * 1000;
+  const expired = (await getTrash()).filter(item => new Date(item.deletedAt).getTime() < cutoff);
+
+  let purged = 0;
+  for (const item of expired) {
+    try {
+      await purgeFromTrash(item);
+      purged++;
+    } catch {
+      // Left for the next sweep
+    }
   }
+  if (purged > 0) console.log(`[DB] Purged ${purged} expired trash item(s)`);
+  return purged;
 }
 
 // ============================================
-// TIMER MANAGEMENT
+// BATCH CLAIMS
+// Claims live on the batch row so two batches
+// of the same workflow can be owned by
+// different stations. Claiming is a
+// compare-and-swap: the update only matches
+// while the row is unclaimed (or already ours),
+// so two stations tapping at once can't both
+// win. The cache is updated optimistically and
+// rolled back if the server rejects the claim.
 // ============================================
 
-export async function startTimer(batchId: string, stepId: string, durationMinutes: number): Promise<void> {
-  const batch = cachedBatches.find(b => b.id === batchId);
-  if (!batch) return;
-  const timer: Timer = {
-    id: `timer_${Date.now()}`, stepId, startedAt: Date.now(),
-    duration: durationMinutes * 60, acknowledged: false,
-  };
-  batch.activeTimers.push(timer);
-  await _updateBatch(batchId, { activeTimers: batch.activeTimers });
-}
+export type ClaimResult =
+  | { ok: true }
+  | { ok: false; heldBy?: string; error?: string };
 
-export async function stopTimer(batchId: string, timerId: string): Promise<void> {
-  const batch = cachedBatches.find(b => b.id === batchId);
-  if (!batch) return;
-  batch.activeTimers = batch.activeTimers.filter(t => t.id !== timerId);
-  await _updateBatch(batchId, { activeTimers: batch.activeTimers });
+type ClaimFields = Pick<Batch, 'claimedBy' | 'claimedByName' | 'claimedAt'>;
+
+// Claims in flight — overlaid on refreshes and realtime deltas so a stale
+// read can't flip the optimistic state back before the server answers.
+const pendingClaims = new Map<string, ClaimFields>();
+
+function overlayPendingClaim(batch: Batch): Batch {
+  const pending = pendingClaims.get(batch.id);
+  return pending ? { ...batch, ...pending } : batch;
 }
 
-export async function acknowledgeTimer(batchId: string, timerId: string): Promise<void> {
+function setCachedClaim(batchId: string, claim: ClaimFields): void {
   const batch = cachedBatches.find(b => b.id === batchId);
   if (!batch) return;
-  const timer = batch.activeTimers.find(t => t.id === timerId);
-  if (timer) {
-    timer.acknowledged = true;
-    await _updateBatch(batchId, { activeTimers: batch.activeTimers });
-  }
+  batch.claimedBy = claim.claimedBy;
+  batch.claimedByName = claim.claimedByName;
+  batch.claimedAt = claim.claimedAt;
+  persistBatch(batch);
+  emitChange({ table: 'batches', type: 'UPDATE', id: batchId });
 }
 
-export function getTimerStatus(timer: Timer): { remainingSeconds: number; isExpired: boolean; elapsedSeconds: number } {
-  const elapsedSeconds = Math.floor((Date.now() - timer.startedAt) / 1000);
-  const remainingSeconds = timer.duration - elapsedSeconds;
-  return { remainingSeconds: Math.max(0, remainingSeconds), isExpired: remainingSeconds <= 0, elapsedSeconds };
-}
+/** Reads the server's current claim and writes it into the cache. */
+async function reconcileClaim(batchId: string, fallback: ClaimFields): Promise<ClaimFields> {
+  const { data } = await getBackend().batches.get(batchId);
+
+  const current: ClaimFields = data
+    ? {
+        claimedBy: data.claimed_by ?? undefined,
+        claimedByName: data.claimed_by_name ?? undefined,
+        claimedAt: data.claimed_at ?? undefined,
+      }
+    : fallback;
+  setCachedClaim(batchId, current);
+  return current;
+}
+
+async function swapClaim(
+  batchId: string,
+  buildClaim: (userId: string) => ClaimFields,
+  condition: ClaimCondition,
+): Promise<ClaimResult> {
+  const user = await getBackend().auth.getCurrentUser();
+  if (!user) return { ok: false, error: 'Must be signed in' };
+
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return { ok: false, error: 'Batch not found' };
+
+  const previous: ClaimFields = {
+    claimedBy: batch.claimedBy, claimedByName: batch.claimedByName, claimedAt: batch.claimedAt,
+  };
+
+  const claim = buildClaim(user.id);
+  pendingClaims.set(batchId, claim);
+  setCachedClaim(batchId, claim);
+
+  try {
+    const { data: updated, error } = await getBackend().batches.updateClaim(batchId, user.id, condition, {
+      claimed_by: claim.claimedBy ?? null,
+      claimed_by_name: claim.claimedByName ?? null,
+      claimed_at: claim.claimedAt ?? null,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+
+    pendingClaims.delete(batchId);
+    if (updated) return { ok: true };
+
+    // Condition didn't match — another station got there first
+    const current = await reconcileClaim(batchId, previous);
+    return { ok: false, heldBy: current.claimedByName };
+  } catch (err) {
+    console.error('Error swapping batch claim:', err);
+    pendingClaims.delete(batchId);
+    setCachedClaim(batchId, previous);
+    return { ok: false, error: (err as { message?: string })?.message ?? 'Claim failed' };
+  }
+}
+
+/** Claims a batch only if it is unclaimed or already held by this user. */
+export async function claimBatch(batchId: string): Promise<ClaimResult> {
+  const deviceName = await getDeviceName();
+  const result = await swapClaim(
+    batchId,
+    userId => ({ claimedBy: userId, claimedByName: deviceName, claimedAt: new Date().toISOString() }),
+    'unclaimed_or_mine',
+  );
+  if (result.ok) await logBatchEventById(batchId, 'claimed');
+  return result;
+}
+
+/** Releases a batch only if this user currently holds it. */
+export async function releaseBatch(batchId: string): Promise<ClaimResult> {
+  const result = await swapClaim(
+    batchId,
+    () => ({ claimedBy: undefined, claimedByName: undefined, claimedAt: undefined }),
+    'mine',
+  );
+  if (result.ok) await logBatchEventById(batchId, 'released');
+  return result;
+}
+
+export async function getMyBatches(): Promise<Batch[]> {
+  const user = await getBackend().auth.getCurrentUser();
+  if (!user) return [];
+  return getBatches().filter(b => b.claimedBy === user.id);
+}
+
+// ============================================
+// BATCH STEP MANAGEMENT
+// ============================================
+
+function batchFieldsToDb(fields: Partial<Batch>): Record<string, any> {
+  const row: Record<string, any> = {};
+  if (fields.batchSizeMultiplier !== undefined) row.batch_size_multiplier = fields.batchSizeMultiplier;
+  if ('sizeTarget' in fields) row.size_target = fields.sizeTarget ?? null;
+  if (fields.status !== undefined) row.status = fields.status;
+  if (fields.startedAt !== undefined) row.started_at = new Date(fields.startedAt).toISOString();
+  if (fields.completedAt !== undefined) row.completed_at = new Date(fields.completedAt).toISOString();
+  if (fields.cancelledReason !== undefined) row.cancelled_reason = fields.cancelledReason;
+  if ('retard' in fields) row.retard = fields.retard ?? null;
+  return row;
+}
+
+/**
+ * Applies a change locally, then sends it as mergeable ops: `updates` set
+ * plain fields (step index, size, lifecycle) and `ops` edit the completed
+ * steps and timers, so another station's offline work isn't overwritten.
+ */
+async function _updateBatch(batchId: string, updates: Partial<Batch>, ops: BatchOp[] = []): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+
+  if (updates.status === undefined) {
+    if (!isBatchActive(batch)) {
+      console.warn(`[DB] Ignoring update to ${batch.status} batch ${batchId}`);
+      return;
+    }
+    // Working a step is what starts a planned batch (or resumes a paused one);
+    // looking after its timers is not
+    const isProgress = updates.currentStepIndex !== undefined
+      || ops.some(op => op.type === 'complete_step' || op.type === 'set_step_index');
+    if (isProgress && batch.status !== 'in_progress') {
+      updates = { ...updates, ...lifecycleFields(batch, 'in_progress') };
+    }
+  }
+
+  // Timers held when the batch was paused pick up again with it
+  const released = batch.status === 'paused' && updates.status === 'in_progress' ? releaseTimerOps(batch) : [];
+  ops = [...ops, ...released];
+
+  const { currentStepIndex, ...fieldUpdates } = updates;
+  const sent: BatchOp[] = [];
+  const fields = batchFieldsToDb(fieldUpdates);
+  if (Object.keys(fields).length > 0) {
+    const seen = Object.fromEntries(Object.keys(fieldUpdates).map(key => [key, batch[key as keyof Batch]]));
+    sent.push({ type: 'set', fields, expected: batchFieldsToDb(seen) });
+  }
+  if (currentStepIndex !== undefined) {
+    sent.push({ type: 'set_step_index', from: batch.currentStepIndex, to: currentStepIndex });
+  }
+  sent.push(...ops);
+
+  // Always update local cache — works offline
+  const previousStatus = batch.status;
+  const local = mergeBatchOps({ completed_steps: batch.completedSteps, active_timers: batch.activeTimers }, ops);
+  Object.assign(batch, updates);
+  if (local.fields.completed_steps) batch.completedSteps = local.fields.completed_steps;
+  if (local.fields.active_timers) batch.activeTimers = local.fields.active_timers;
+  persistBatch(batch);
+  emitChange({ table: 'batches', type: 'UPDATE', id: batchId });
+  for (const op of released) await scheduleTimerAlert(batchId, op.timerId);
+
+  if (batch.status !== previousStatus) {
+    const reason = batch.status === 'cancelled' && batch.cancelledReason ? `: ${batch.cancelledReason}` : '';
+    await logBatchEvent(batch, 'status_changed', { detail: `${batch.status}${reason}` });
+    if (previousStatus === 'planned' && currentStepIndex === undefined) {
+      await logBatchEvent(batch, 'step_started', { stepId: await stepIdAt(batch, batch.currentStepIndex) });
+    }
+  }
+
+  // Queued ops for the same batch are replayed together against the server's latest row
+  const error = await applyMutation({ table: 'batches', op: 'merge', id: batchId, ops: sent });
+  if (error) console.error('Error updating batch:', error);
+}
+
+export async function updateBatchSize(batchId: string, multiplier: number): Promise<void> {
+  // A hand-set multiplier no longer matches whatever target the batch was sized for
+  await _updateBatch(batchId, { batchSizeMultiplier: multiplier, sizeTarget: undefined });
+}
+
+export async function updateBatchStep(batchId: string, stepIndex: number): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch || !isBatchActive(batch)) return;
+  const moved = batch.currentStepIndex !== stepIndex;
+  await _updateBatch(batchId, { currentStepIndex: stepIndex });
+  if (moved) await logBatchEvent(batch, 'step_started', { stepId: await stepIdAt(batch, stepIndex) });
+}
+
+export async function completeBatchStep(batchId: string, stepId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch || !isBatchActive(batch)) return;
+  if (!batch.completedSteps.includes(stepId)) {
+    await _updateBatch(batchId, {}, [{ type: 'complete_step', stepId }]);
+    await logBatchEvent(batch, 'step_completed', { stepId });
+  }
+}
+
+// ============================================
+// MERGE CONFLICTS
+// Progress ops are merged into the server's
+// latest row. Fields two stations changed to
+// different values keep the other station's
+// value and are listed here until dismissed.
+// ============================================
+
+export interface BatchConflict extends FieldConflict {
+  id: string;
+  batchId: string;
+  at: number;
+  /** Human-readable, e.g. "Step: you chose step 3, another station step 5 — kept step 5". */
+  summary: string;
+}
+
+let batchConflicts: BatchConflict[] = [];
+
+export function getBatchConflicts(batchId: string): BatchConflict[] {
+  return batchConflicts.filter(c => c.batchId === batchId);
+}
+
+export function dismissBatchConflicts(batchId: string): void {
+  batchConflicts = batchConflicts.filter(c => c.batchId !== batchId);
+  emitChange({ table: 'batches', type: 'UPDATE', id: batchId });
+}
+
+function applyBatchMerge({ batchId, row, conflicts }: BatchMerge): void {
+  const index = cachedBatches.findIndex(b => b.id === batchId);
+  if (index < 0) return;
+
+  // A slower merge finishing late mustn't roll back a newer one
+  if ((row.revision ?? 0) >= (cachedBatches[index].revision ?? 0)) {
+    cachedBatches[index] = overlayPendingClaim(dbBatchToApp(row));
+    persistBatch(cachedBatches[index]);
+  }
+
+  const batch = cachedBatches[index];
+  for (const conflict of conflicts) {
+    const summary = describeConflict(conflict);
+    console.warn(`[DB] Merge conflict on batch ${batchId}: ${summary}`);
+    batchConflicts.push({
+      ...conflict, id: `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      batchId, at: Date.now(), summary,
+    });
+    logBatchEvent(batch, 'merge_conflict', { detail: summary });
+  }
+  emitChange({ table: 'batches', type: 'UPDATE', id: batchId });
+}
+
+onBatchMerged(applyBatchMerge);
+
+// ============================================
+// BATCH LIFECYCLE
+// planned → in_progress ⇄ paused → completed,
+// with cancel allowed from any live state.
+// Completed and cancelled are terminal: they
+// drop out of the active list and into history.
+// ============================================
+
+const BATCH_TRANSITIONS: Record<BatchStatus, BatchStatus[]> = {
+  planned: ['in_progress', 'cancelled'],
+  in_progress: ['paused', 'completed', 'cancelled'],
+  paused: ['in_progress', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export function isBatchActive(batch: Batch): boolean {
+  return batch.status !== 'completed' && batch.status !== 'cancelled';
+}
+
+export function canTransitionBatch(batch: Batch, to: BatchStatus): boolean {
+  return BATCH_TRANSITIONS[batch.status].includes(to);
+}
+
+/** Completed and cancelled batches, most recently finished first. */
+export function getBatchHistory(): Batch[] {
+  const finishedAt = (b: Batch) => b.completedAt ?? (b.updated_at ? new Date(b.updated_at).getTime() : b.createdAt);
+  return getBatches()
+    .filter(b => !isBatchActive(b))
+    .sort((a, b) => finishedAt(b) - finishedAt(a));
+}
+
+function lifecycleFields(batch: Batch, to: BatchStatus, cancelledReason?: string): Partial<Batch> {
+  const fields: Partial<Batch> = { status: to };
+  if (to === 'in_progress' && !batch.startedAt) fields.startedAt = Date.now();
+  if (to === 'completed') fields.completedAt = Date.now();
+  if (to === 'cancelled') fields.cancelledReason = cancelledReason?.trim() || '';
+  // Leaving the paused state, however it happens, takes the batch out of the retarder
+  if (to !== 'paused' && batch.retard) fields.retard = undefined;
+  return fields;
+}
+
+async function transitionBatch(batchId: string, to: BatchStatus, cancelledReason?: string): Promise<Batch> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) throw new Error('Batch not found');
+  if (!canTransitionBatch(batch, to)) {
+    throw new Error(`Cannot move batch from ${batch.status} to ${to}`);
+  }
+
+  // Finished batches shouldn't keep alarms going; paused ones hold their timers
+  const finished = to === 'completed' || to === 'cancelled';
+  const held = to === 'paused' ? holdTimerOps(batch) : [];
+  const ops: BatchOp[] = finished ? [{ type: 'clear_timers' }] : held;
+  if (finished) batch.activeTimers.forEach(t => cancelTimerNotification(t.id));
+  held.forEach(op => cancelTimerNotification(op.timerId));
+  await _updateBatch(batchId, lifecycleFields(batch, to, cancelledReason), ops);
+  return JSON.parse(JSON.stringify(batch));
+}
+
+type TimerUpdateOp = Extract<BatchOp, { type: 'update_timer' }>;
+
+/** Pauses every timer still counting down, marked so the batch's resume restarts them. */
+function holdTimerOps(batch: Batch): TimerUpdateOp[] {
+  const now = Date.now();
+  return batch.activeTimers
+    .filter(t => !t.paused && !t.acknowledged && !getTimerStatus(t).isExpired)
+    .map(t => ({ type: 'update_timer', timerId: t.id, changes: { paused: true, pausedAt: now, heldByBatch: true } }));
+}
+
+function releaseTimerOps(batch: Batch): TimerUpdateOp[] {
+  const now = Date.now();
+  return batch.activeTimers
+    .filter(t => t.paused && t.heldByBatch)
+    .map(t => ({
+      type: 'update_timer', timerId: t.id,
+      changes: {
+        paused: false, pausedAt: undefined, heldByBatch: undefined,
+        accumulatedPausedMs: (t.accumulatedPausedMs ?? 0) + now - (t.pausedAt ?? now),
+      },
+    }));
+}
+
+export async function startBatch(batchId: string): Promise<void> {
+  await transitionBatch(batchId, 'in_progress');
+}
+
+export async function pauseBatch(batchId: string): Promise<void> {
+  await transitionBatch(batchId, 'paused');
+}
+
+export async function resumeBatch(batchId: string): Promise<void> {
+  const retard = cachedBatches.find(b => b.id === batchId)?.retard;
+  await transitionBatch(batchId, 'in_progress');
+  if (retard) await logRetardEnded(batchId, retard);
+}
+
+export async function cancelBatch(batchId: string, reason?: string): Promise<void> {
+  await transitionBatch(batchId, 'cancelled', reason);
+}
+
+/**
+ * Moves a batch to completed and files its completion report. The report is
+ * best-effort — a failure there never rolls back the completion. `actualYield`
+ * is what came out, in the batch's yield unit, reported against the expected yield.
+ */
+export async function completeBatch(batchId: string, actualYield?: number): Promise<BatchCompletionReport | null> {
+  const batch = await transitionBatch(batchId, 'completed');
+
+  try {
+    const workflow = await getWorkflowForBatch(batch);
+    const startTime = batch.startedAt ?? batch.createdAt;
+    const actualDuration = Math.round(((batch.completedAt ?? Date.now()) - startTime) / 1000 / 60);
+
+    return await createBatchCompletionReport(
+      batch.id,
+      batch.name,
+      batch.workflowId,
+      workflow?.name ?? batch.name,
+      await getDeviceName(),
+      batch.batchSizeMultiplier,
+      actualDuration,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      actualYield,
+      batch.yieldUnit,
+      expectedYield(batch)?.count
+    );
+  } catch (err) {
+    console.error('Error creating batch report:', err);
+    return null;
+  }
+}
+
+// ============================================
+// COLD FERMENT
+// Cold-ferment batches stop at the step a
+// workflow marks with `retardHours`: the step
+// is completed, the batch pauses with a ready
+// time, and the morning crew resumes it from
+// the retarder list.
+// ============================================
+
+/** How long after its ready time a retarded batch still counts as ready rather than overdue. */
+const RETARD_READY_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export type RetardState = 'early' | 'ready' | 'overdue';
+
+export interface RetardedBatch {
+  batch: Batch;
+  state: RetardState;
+  /** Negative once the ready time has passed. */
+  minutesUntilReady: number;
+}
+
+export function getRetardState(retard: BatchRetard, now = Date.now()): RetardState {
+  if (now < retard.readyAt) return 'early';
+  return now - retard.readyAt <= RETARD_READY_WINDOW_MS ? 'ready' : 'overdue';
+}
+
+/** Batches in the retarder, soonest ready first. */
+export function getRetardedBatches(): RetardedBatch[] {
+  const now = Date.now();
+  return getBatches()
+    .filter(b => b.status === 'paused' && b.retard)
+    .map(batch => ({
+      batch,
+      state: getRetardState(batch.retard!, now),
+      minutesUntilReady: Math.round((batch.retard!.readyAt - now) / 60000),
+    }))
+    .sort((a, b) => a.batch.retard!.readyAt - b.batch.retard!.readyAt);
+}
+
+/** "Tue 6:00 AM" */
+export function formatReadyAt(readyAt: number): string {
+  return new Date(readyAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+/** "2h 15m early", "on time", "40m overdue" */
+export function describeRetardTiming(retard: BatchRetard, now = Date.now()): string {
+  const state = getRetardState(retard, now);
+  if (state === 'ready') return 'on time';
+  const minutes = Math.abs(Math.round((retard.readyAt - now) / 60000));
+  const span = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  return state === 'early' ? `${span} early` : `${span} overdue`;
+}
+
+/**
+ * Completes the retard step and parks a cold-ferment batch in the retarder
+ * until `readyAt`. The batch resumes on the step after it.
+ */
+export async function retardBatch(batchId: string, readyAt: number): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) throw new Error('Batch not found');
+  if (batch.mode !== 'cold-ferment') throw new Error('Only cold-ferment batches go into the retarder');
+  if (!canTransitionBatch(batch, 'paused')) {
+    throw new Error(`Cannot move batch from ${batch.status} to the retarder`);
+  }
+
+  const workflow = await getWorkflowForBatch(batch);
+  const step = workflow?.steps[batch.currentStepIndex];
+  if (!workflow || !step?.retardHours) throw new Error('This step is not a retard step');
+
+  const retard: BatchRetard = { stepId: step.id, startedAt: Date.now(), readyAt };
+  const nextIndex = Math.min(batch.currentStepIndex + 1, workflow.steps.length - 1);
+  // Nothing counts down in the retarder — its timers would only ring overnight
+  batch.activeTimers.forEach(t => cancelTimerNotification(t.id));
+  await _updateBatch(
+    batchId,
+    { ...lifecycleFields(batch, 'paused'), retard, currentStepIndex: nextIndex },
+    [{ type: 'complete_step', stepId: step.id }, { type: 'clear_timers' }]
+  );
+  await logBatchEvent(batch, 'step_completed', { stepId: step.id });
+  await logBatchEvent(batch, 'retard_started', {
+    stepId: step.id,
+    detail: `ready ${formatReadyAt(readyAt)}`,
+  });
+}
+
+async function logRetardEnded(batchId: string, retard: BatchRetard): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (batch) await logBatchEvent(batch, 'retard_ended', { stepId: retard.stepId, detail: describeRetardTiming(retard) });
+}
+
+// ============================================
+// COMPONENT BATCHES
+// A step can list sub-recipe workflows it
+// needs (pastry cream for an éclair fill).
+// Each is made as its own child batch, linked
+// back to the parent batch and step, at the
+// parent's size multiplier.
+// ============================================
+
+export function getChildBatches(parentBatchId: string): Batch[] {
+  return getBatches().filter(b => b.parentBatchId === parentBatchId);
+}
+
+/** The child batch making this component, if one was started and not cancelled. */
+export function getComponentBatch(parentBatchId: string, stepId: string, workflowId: string): Batch | undefined {
+  return getChildBatches(parentBatchId).find(b =>
+    b.parentStepId === stepId && b.workflowId === workflowId && b.status !== 'cancelled'
+  );
+}
+
+/** Starts a child batch for one component. Returns the existing one if already started. */
+export async function startComponentBatch(
+  parentBatchId: string,
+  stepId: string,
+  component: StepComponent
+): Promise<Batch> {
+  const existing = getComponentBatch(parentBatchId, stepId, component.workflowId);
+  if (existing) return existing;
+
+  const parent = cachedBatches.find(b => b.id === parentBatchId);
+  if (!parent) throw new Error('Batch not found');
+  if (!isBatchActive(parent)) throw new Error(`Cannot start components for a ${parent.status} batch`);
+
+  const child = await createBatch(
+    component.workflowId, parent.mode, 1, parent.batchSizeMultiplier,
+    { batchId: parentBatchId, stepId }
+  );
+  await logBatchEvent(parent, 'component_started', {
+    stepId,
+    detail: `${child.name} — ${formatComponentQuantity(component, parent.batchSizeMultiplier)}`,
+  });
+  return child;
+}
+
+/**
+ * Starts every component the parent's workflow links to that isn't already
+ * under way. Components whose workflow no longer exists are skipped.
+ */
+export async function startComponentBatches(parentBatchId: string): Promise<Batch[]> {
+  const parent = cachedBatches.find(b => b.id === parentBatchId);
+  if (!parent) throw new Error('Batch not found');
+
+  const workflow = await getWorkflowForBatch(parent);
+  const started: Batch[] = [];
+  for (const step of workflow?.steps ?? []) {
+    for (const component of step.components ?? []) {
+      if (!cachedWorkflows.some(w => w.id === component.workflowId)) {
+        console.warn(`[Components] Skipping missing workflow ${component.workflowId}`);
+        continue;
+      }
+      if (getComponentBatch(parentBatchId, step.id, component.workflowId)) continue;
+      started.push(await startComponentBatch(parentBatchId, step.id, component));
+    }
+  }
+  return started;
+}
+
+export function workflowHasComponents(workflow: Workflow): boolean {
+  return workflow.steps.some(step => (step.components?.length ?? 0) > 0);
+}
+
+export function formatComponentQuantity(component: StepComponent, multiplier = 1): string {
+  const scaled = multiplier === 1
+    ? { quantity: component.quantity, unit: component.unit }
+    : bestUnit(component.quantity * multiplier, component.unit);
+  return formatQuantity(scaled.quantity, scaled.unit);
+}
+
+// ============================================
+// BATCH EVENT LOG
+// Append-only audit trail — who did what to a
+// batch, and when. Events are written locally
+// first so the trail survives going offline;
+// logging never blocks or fails the action
+// that produced it.
+// ============================================
+
+async function stepIdAt(batch: Batch, index: number): Promise<string | undefined> {
+  const workflow = await getWorkflowForBatch(batch);
+  return workflow?.steps[index]?.id;
+}
+
+function dbEventToApp(row: any): BatchEvent {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    type: row.type,
+    at: new Date(row.created_at).getTime(),
+    stepId: row.step_id ?? undefined,
+    detail: row.detail ?? undefined,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+  };
+}
+
+async function logBatchEvent(
+  batch: Batch,
+  type: BatchEventType,
+  fields: { stepId?: string; detail?: string } = {}
+): Promise<void> {
+  try {
+    const user = await getBackend().auth.getCurrentUser();
+    const event: BatchEvent = {
+      id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      batchId: batch.id, type, at: Date.now(), ...fields,
+      actorId: user?.id ?? '', actorName: await getDeviceName(),
+    };
+    await saveBatchEventsLocal([event]);
+
+    const payload = {
+      id: event.id, batch_id: event.batchId, type: event.type,
+      step_id: event.stepId ?? null, detail: event.detail ?? null,
+      actor_id: event.actorId, actor_name: event.actorName,
+      user_id: batch.user_id ?? event.actorId, location_id: batch.location_id ?? null,
+      created_at: new Date(event.at).toISOString(),
+    };
+    const error = await applyMutation({ table: 'batch_events', op: 'insert', row: payload });
+    if (error) console.warn(`[DB] Failed to log ${type} for batch ${batch.id}:`, error.message);
+  } catch (err) {
+    console.warn(`[DB] Failed to log ${type} for batch ${batch.id}:`, err);
+  }
+}
+
+async function logBatchEventById(
+  batchId: string,
+  type: BatchEventType,
+  fields?: { stepId?: string; detail?: string }
+): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (batch) await logBatchEvent(batch, type, fields);
+}
+
+export async function recordChecklistCheck(batchId: string, stepId: string, item: string): Promise<void> {
+  await logBatchEventById(batchId, 'checklist_checked', { stepId, detail: item });
+}
+
+export async function addBatchNote(batchId: string, note: string, stepId?: string): Promise<void> {
+  if (!note.trim()) return;
+  await logBatchEventById(batchId, 'note_added', { stepId, detail: note.trim() });
+}
+
+/** Every event for a batch, oldest first — server copy merged with anything not yet synced. */
+export async function getBatchTimeline(batchId: string): Promise<BatchEvent[]> {
+  const local = await loadBatchEventsLocal(batchId).catch(() => [] as BatchEvent[]);
+
+  const { data, error } = await getBackend().batchEvents.list(batchId);
+  if (error) {
+    console.warn('[DB] Timeline fetch failed, showing local events:', error.message);
+    return local;
+  }
+
+  const remote = (data || []).map(dbEventToApp);
+  saveBatchEventsLocal(remote).catch(err => console.warn('[DB] Failed to persist events:', err));
+
+  const byId = new Map<string, BatchEvent>();
+  [...remote, ...local].forEach(event => { if (!byId.has(event.id)) byId.set(event.id, event); });
+  return [...byId.values()].sort((a, b) => a.at - b.at);
+}
+
+// ============================================
+// TIMER MANAGEMENT
+// Every change to a running timer also moves
+// its OS notification (keyed by timer id), so
+// expiry is announced with the app closed.
+// ============================================
+
+async function scheduleTimerAlert(batchId: string, timerId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  const timer = batch?.activeTimers.find(t => t.id === timerId);
+  if (!batch || !timer) return;
+
+  const { remainingSeconds, isExpired, isPaused } = getTimerStatus(timer);
+  if (isExpired || isPaused) return;
+  const workflow = await getWorkflowForBatch(batch).catch(() => undefined);
+  await scheduleTimerNotification({
+    timerId, batchId, batchName: batch.name,
+    stepName: workflow?.steps.find(s => s.id === timer.stepId)?.title ?? 'Timer',
+    seconds: remainingSeconds,
+    repeat: timer.interval && {
+      every: timer.interval.seconds, from: timer.repetition ?? 1, of: timer.interval.repetitions,
+      label: timer.interval.label || 'Round',
+    },
+  });
+}
+
+export async function startTimer(
+  batchId: string,
+  stepId: string,
+  durationMinutes: number,
+  interval?: StepIntervalTimer,
+): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  if (!isBatchActive(batch)) return;
+  const minutes = interval?.intervalMinutes ?? durationMinutes;
+  const timer: Timer = {
+    id: `timer_${Date.now()}`, stepId, startedAt: Date.now(),
+    duration: minutes * 60, acknowledged: false,
+    ...(interval && {
+      interval: { seconds: minutes * 60, repetitions: interval.repetitions, label: interval.label },
+      repetition: 1,
+    }),
+  };
+  await _updateBatch(batchId, {}, [{ type: 'add_timer', timer }]);
+  await scheduleTimerAlert(batchId, timer.id);
+  await logBatchEvent(batch, 'timer_started', {
+    stepId, detail: interval ? `${interval.repetitions} × ${minutes} min` : `${minutes} min`,
+  });
+}
+
+export async function stopTimer(batchId: string, timerId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  const timer = batch.activeTimers.find(t => t.id === timerId);
+  if (!timer || !isBatchActive(batch)) return;
+  await _updateBatch(batchId, {}, [{ type: 'remove_timer', timerId }]);
+  await cancelTimerNotification(timerId);
+  await logBatchEvent(batch, 'timer_stopped', { stepId: timer.stepId });
+}
+
+type AcknowledgeListener = (timerId: string, repetition: number) => void;
+
+const acknowledgeListeners = new Set<AcknowledgeListener>();
+
+/** Called whenever a timer, or one repetition of it, is acknowledged — from any screen. */
+export function onTimerAcknowledged(listener: AcknowledgeListener): () => void {
+  acknowledgeListeners.add(listener);
+  return () => { acknowledgeListeners.delete(listener); };
+}
+
+function emitAcknowledged(timerId: string, repetition: number): void {
+  acknowledgeListeners.forEach(listener => {
+    try { listener(timerId, repetition); } catch (err) { console.warn('[DB] acknowledge listener error:', err); }
+  });
+}
+
+/**
+ * Answers an expired timer. Interval timers only move to their next round
+ * here — a round nobody acknowledges holds the series where it is.
+ */
+export async function acknowledgeTimer(batchId: string, timerId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  const timer = batch.activeTimers.find(t => t.id === timerId);
+  if (timer && !timer.acknowledged && isBatchActive(batch)) {
+    if (timer.interval && (timer.repetition ?? 1) < timer.interval.repetitions) {
+      // Next repetition counts from when this one fell due, so the series keeps its rhythm
+      const dueAt = timer.startedAt + (timer.accumulatedPausedMs ?? 0) + timer.duration * 1000;
+      await _updateBatch(batchId, {}, [{
+        type: 'update_timer', timerId,
+        changes: { repetition: (timer.repetition ?? 1) + 1, startedAt: dueAt, duration: timer.interval.seconds, accumulatedPausedMs: 0 },
+      }]);
+      emitAcknowledged(timerId, timer.repetition ?? 1);
+      await logBatchEvent(batch, 'timer_acknowledged', { stepId: timer.stepId, detail: describeRepetition(timer) ?? undefined });
+      return;
+    }
+    await _updateBatch(batchId, {}, [{ type: 'update_timer', timerId, changes: { acknowledged: true } }]);
+    emitAcknowledged(timerId, timer.repetition ?? 1);
+    // Nothing left to announce — clears the delivered notification too
+    await cancelTimerNotification(timerId);
+    await logBatchEvent(batch, 'timer_acknowledged', { stepId: timer.stepId });
+  }
+}
+
+export async function pauseTimer(batchId: string, timerId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  const timer = batch.activeTimers.find(t => t.id === timerId);
+  if (!timer || timer.paused || getTimerStatus(timer).isExpired || !isBatchActive(batch)) return;
+  await _updateBatch(batchId, {}, [{ type: 'update_timer', timerId, changes: { paused: true, pausedAt: Date.now() } }]);
+  await cancelTimerNotification(timerId);
+  await logBatchEvent(batch, 'timer_paused', { stepId: timer.stepId });
+}
+
+export async function resumeTimer(batchId: string, timerId: string): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  const timer = batch.activeTimers.find(t => t.id === timerId);
+  if (!timer || !timer.paused || !isBatchActive(batch)) return;
+  const pausedMs = Date.now() - (timer.pausedAt ?? Date.now());
+  await _updateBatch(batchId, {}, [{
+    type: 'update_timer', timerId,
+    changes: {
+      paused: false, pausedAt: undefined, heldByBatch: undefined,
+      accumulatedPausedMs: (timer.accumulatedPausedMs ?? 0) + pausedMs,
+    },
+  }]);
+  await scheduleTimerAlert(batchId, timerId);
+  await logBatchEvent(batch, 'timer_resumed', { stepId: timer.stepId });
+}
+
+/**
+ * Adds time to a timer without restarting it. An expired timer gets
+ * `seconds` from now rather than from when it ran out, and alerts again.
+ */
+export async function extendTimer(batchId: string, timerId: string, seconds: number): Promise<void> {
+  const batch = cachedBatches.find(b => b.id === batchId);
+  if (!batch) return;
+  const timer = batch.activeTimers.find(t => t.id === timerId);
+  if (!timer || !(seconds > 0) || !isBatchActive(batch)) return;
+  const { elapsedSeconds, isExpired } = getTimerStatus(timer);
+  const extra = isExpired ? elapsedSeconds - timer.duration + seconds : seconds;
+  await _updateBatch(batchId, {}, [{ type: 'extend_timer', timerId, seconds: extra }]);
+  await scheduleTimerAlert(batchId, timerId);
+  await logBatchEvent(batch, 'timer_extended', {
+    stepId: timer.stepId,
+    detail: seconds % 60 === 0 ? `+${seconds / 60} min` : `+${seconds} sec`,
+  });
+}
+
+/** "Fold 2 of 4" for interval timers, null for single-shot ones. */
+export function describeRepetition(timer: Timer): string | null {
+  if (!timer.interval) return null;
+  return `${timer.interval.label || 'Round'} ${timer.repetition ?? 1} of ${timer.interval.repetitions}`;
+}
+
+/** Paused time doesn't count, so a paused timer never runs out. */
+export function getTimerStatus(timer: Timer): {
+  remainingSeconds: number; isExpired: boolean; elapsedSeconds: number; isPaused: boolean;
+} {
+  const now = timer.paused && timer.pausedAt ? timer.pausedAt : Date.now();
+  const elapsedSeconds = Math.floor((now - timer.startedAt - (timer.accumulatedPausedMs ?? 0)) / 1000);
+  const remainingSeconds = timer.duration - elapsedSeconds;
+  return {
+    remainingSeconds: Math.max(0, remainingSeconds), isExpired: remainingSeconds <= 0, elapsedSeconds,
+    isPaused: !!timer.paused,
+  };
+}
 
 export function getMostUrgentTimer(batch: Batch): Timer | null {
   if (batch.activeTimers.length === 0) return null;
@@ -746,6 +2136,154 @@ export function batchHasExpiredTimer(batch: Batch): boolean {
   return batch.activeTimers.some(t => getTimerStatus(t).isExpired && !t.acknowledged);
 }
 
+export interface FloorTimer {
+  batch: Batch;
+  timer: Timer;
+  stepTitle: string;
+  remainingSeconds: number;
+  isExpired: boolean;
+  isPaused: boolean;
+}
+
+/**
+ * Every timer on every active batch in the current scope. Expired timers
+ * come first (unacknowledged before acknowledged), then by time remaining.
+ */
+export function getFloorTimers(): FloorTimer[] {
+  const rank = (t: FloorTimer) => (t.isExpired ? (t.timer.acknowledged ? 1 : 0) : 2);
+  return getBatches()
+    .filter(isBatchActive)
+    .flatMap(batch => batch.activeTimers.map(timer => {
+      const status = getTimerStatus(timer);
+      const step = cachedWorkflows.find(w => w.id === batch.workflowId)?.steps.find(s => s.id === timer.stepId);
+      return {
+        batch, timer, stepTitle: step?.title ?? 'Timer',
+        remainingSeconds: status.remainingSeconds, isExpired: status.isExpired, isPaused: status.isPaused,
+      };
+    }))
+    .sort((a, b) => rank(a) - rank(b) || a.remainingSeconds - b.remainingSeconds);
+}
+
+// ============================================
+// REALTIME SYNC
+// Subscribes to workflow and batch row changes
+// for the current scope (location when clocked
+// in, user when solo) and applies the deltas to
+// the cache. Polling only runs while the
+// channel is down.
+// ============================================
+
+const FALLBACK_POLL_INTERVAL_MS = 3_000;
+
+let realtimeUnsubscribe: (() => Promise<void>) | null = null;
+let realtimeConnected = false;
+let fallbackPoll: ReturnType<typeof setInterval> | null = null;
+
+export function isRealtimeConnected(): boolean {
+  return realtimeConnected;
+}
+
+function startFallbackPolling(): void {
+  if (fallbackPoll) return;
+  console.log('[DB] Realtime unavailable — falling back to polling');
+  fallbackPoll = setInterval(() => {
+    syncFromServer().catch(err => console.warn('[DB] fallback poll error:', err));
+  }, FALLBACK_POLL_INTERVAL_MS);
+}
+
+function stopFallbackPolling(): void {
+  if (!fallbackPoll) return;
+  clearInterval(fallbackPoll);
+  fallbackPoll = null;
+}
+
+function applyWorkflowChange(payload: RowChange): void {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old?.id;
+    cachedWorkflows = cachedWorkflows.filter(w => w.id !== id);
+    persistWorkflows(cachedWorkflows);
+    emitChange({ table: 'workflows', type: 'DELETE', id });
+    return;
+  }
+
+  const row = normalizeWorkflowSteps(payload.new as Workflow & { deleted_at?: string | null });
+  if (row.deleted_at) {
+    // Soft-deleted rows arrive as updates — drop them like getWorkflows() does
+    cachedWorkflows = cachedWorkflows.filter(w => w.id !== row.id);
+  } else {
+    const index = cachedWorkflows.findIndex(w => w.id === row.id);
+    if (index >= 0) cachedWorkflows[index] = row;
+    else cachedWorkflows.unshift(row);
+  }
+  persistWorkflows(cachedWorkflows);
+  emitChange({ table: 'workflows', type: payload.eventType, id: row.id });
+}
+
+function applyBatchChange(payload: RowChange): void {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old?.id;
+    cachedBatches = cachedBatches.filter(b => b.id !== id);
+    unpersistBatch(id);
+    emitChange({ table: 'batches', type: 'DELETE', id });
+    return;
+  }
+
+  if (payload.new.deleted_at) {
+    // Soft-deleted rows arrive as updates — drop them like _refreshBatches() does
+    cachedBatches = cachedBatches.filter(b => b.id !== payload.new.id);
+    unpersistBatch(payload.new.id);
+    emitChange({ table: 'batches', type: 'DELETE', id: payload.new.id });
+    return;
+  }
+
+  const batch = overlayPendingClaim(dbBatchToApp(payload.new));
+  const index = cachedBatches.findIndex(b => b.id === batch.id);
+  // A late or reordered event mustn't roll back a newer merge, same as applyBatchMerge()
+  if (index >= 0 && (payload.new.revision ?? 0) < (cachedBatches[index].revision ?? 0)) return;
+  if (index >= 0) cachedBatches[index] = batch;
+  else cachedBatches.unshift(batch);
+  persistBatch(batch);
+  emitChange({ table: 'batches', type: payload.eventType, id: batch.id });
+}
+
+/**
+ * (Re)subscribes to realtime changes for the current scope. Safe to call
+ * repeatedly — any existing channel is torn down first.
+ */
+export async function startRealtimeSync(): Promise<void> {
+  await stopRealtimeSync();
+
+  const scope = await getDataScope();
+  if (!scope) return;
+
+  const unsubscribe = getBackend().changes.subscribe(
+    scope,
+    { workflows: applyWorkflowChange, batches: applyBatchChange },
+    (connected) => {
+      if (realtimeUnsubscribe !== unsubscribe) return; // superseded by a newer subscription
+
+      if (connected) {
+        realtimeConnected = true;
+        stopFallbackPolling();
+        // Catch up on anything missed while the channel was down
+        syncFromServer().catch(err => console.warn('[DB] realtime catch-up error:', err));
+      } else {
+        realtimeConnected = false;
+        startFallbackPolling();
+      }
+    }
+  );
+  realtimeUnsubscribe = unsubscribe;
+}
+
+export async function stopRealtimeSync(): Promise<void> {
+  const unsubscribe = realtimeUnsubscribe;
+  realtimeUnsubscribe = null;
+  realtimeConnected = false;
+  stopFallbackPolling();
+  if (unsubscribe) await unsubscribe();
+}
+
 // ============================================
 // UTILITY
 // ============================================
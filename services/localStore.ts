@@ -0,0 +1,399 @@
+// ============================================
+// FILE: services/localStore.ts
+// SQLite-backed local persistence for
+// workflows, batches, timers, batch events
+// and reports.
+// Replaces the single-blob AsyncStorage keys —
+// rows are written individually inside
+// transactions so a crash mid-write can't
+// corrupt everything at once.
+// ============================================
+
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Batch, BatchEvent, Timer, Workflow, WorkflowVersion } from './database';
+import { isDemoMode } from './backend';
+
+const DATABASE_NAME = 'batchmaker.db';
+// Demo kitchen rows never mix with real account data
+const DEMO_DATABASE_NAME = 'batchmaker-demo.db';
+const SCHEMA_VERSION = 2; // 2: batch_events
+
+// Legacy AsyncStorage keys migrated on first open
+const LEGACY_KEY_WORKFLOWS = '@db_workflows_v2';
+const LEGACY_KEY_BATCHES = '@db_batches_v2';
+const LEGACY_KEY_WORKFLOW_VERSIONS = '@db_workflow_versions_v1';
+const LEGACY_KEY_REPORTS = '@reports';
+
+export type ReportKind = 'environmental' | 'batch_completion' | 'daily';
+
+interface StoredReport {
+  id: string;
+  timestamp: number;
+  date: string;
+  workflowId?: string;
+  batchId?: string;
+}
+
+// ============================================
+// CONNECTION & SCHEMA
+// ============================================
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+let dbName: string | null = null;
+
+// Writes are chained so a full replace can't interleave with a row upsert
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+  const run = writeChain.then(async () => task(await getLocalDb()));
+  writeChain = run.catch(() => {});
+  return run;
+}
+
+function getLocalDb(): Promise<SQLite.SQLiteDatabase> {
+  const name = isDemoMode() ? DEMO_DATABASE_NAME : DATABASE_NAME;
+  if (!dbPromise || dbName !== name) {
+    dbName = name;
+    dbPromise = openLocalDb(name).catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+async function openLocalDb(name: string): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(name);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const version = row?.user_version ?? 0;
+  if (version < SCHEMA_VERSION) {
+    const legacy = version < 1 && name === DATABASE_NAME ? await readLegacyData() : null;
+    // The version moves in the same commit as the schema and copied rows,
+    // so an interrupted open simply runs again
+    await db.withTransactionAsync(async () => {
+      // CREATE IF NOT EXISTS throughout, so older schemas just gain the new tables
+      await createSchema(db);
+      if (legacy) await writeLegacyData(db, legacy);
+      await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    });
+    if (legacy) await removeLegacyKeys(legacy);
+  }
+  return db;
+}
+
+async function createSchema(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS workflows (
+      id TEXT PRIMARY KEY NOT NULL,
+      sort_order INTEGER NOT NULL,
+      location_id TEXT,
+      user_id TEXT,
+      updated_at TEXT,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_workflows_location ON workflows (location_id);
+    CREATE INDEX IF NOT EXISTS idx_workflows_user ON workflows (user_id);
+
+    CREATE TABLE IF NOT EXISTS workflow_versions (
+      workflow_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      created_at TEXT,
+      data TEXT NOT NULL,
+      PRIMARY KEY (workflow_id, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS batches (
+      id TEXT PRIMARY KEY NOT NULL,
+      workflow_id TEXT NOT NULL,
+      location_id TEXT,
+      user_id TEXT,
+      created_at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_batches_workflow ON batches (workflow_id);
+    CREATE INDEX IF NOT EXISTS idx_batches_location ON batches (location_id);
+    CREATE INDEX IF NOT EXISTS idx_batches_created ON batches (created_at);
+
+    CREATE TABLE IF NOT EXISTS timers (
+      id TEXT PRIMARY KEY NOT NULL,
+      batch_id TEXT NOT NULL,
+      step_id TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      duration INTEGER NOT NULL,
+      acknowledged INTEGER NOT NULL DEFAULT 0,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_timers_batch ON timers (batch_id);
+
+    CREATE TABLE IF NOT EXISTS batch_events (
+      id TEXT PRIMARY KEY NOT NULL,
+      batch_id TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_batch_events_batch ON batch_events (batch_id, at);
+
+    CREATE TABLE IF NOT EXISTS reports (
+      id TEXT PRIMARY KEY NOT NULL,
+      kind TEXT NOT NULL,
+      date TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      workflow_id TEXT,
+      batch_id TEXT,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_reports_kind_date ON reports (kind, date);
+    CREATE INDEX IF NOT EXISTS idx_reports_kind_timestamp ON reports (kind, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_reports_workflow ON reports (workflow_id);
+  `);
+}
+
+// ============================================
+// ASYNCSTORAGE MIGRATION
+// One-time copy of the old JSON blobs. The
+// legacy keys are only removed once every row
+// and the schema version have been committed.
+// ============================================
+
+interface LegacyData {
+  workflows: Workflow[];
+  batches: Batch[];
+  versions: WorkflowVersion[];
+  reports: any;
+}
+
+async function readLegacyKey<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (err) {
+    console.warn(`[LocalStore] Could not read ${key}:`, err);
+    return fallback;
+  }
+}
+
+async function readLegacyData(): Promise<LegacyData> {
+  return {
+    workflows: await readLegacyKey<Workflow[]>(LEGACY_KEY_WORKFLOWS, []),
+    batches: await readLegacyKey<Batch[]>(LEGACY_KEY_BATCHES, []),
+    versions: await readLegacyKey<WorkflowVersion[]>(LEGACY_KEY_WORKFLOW_VERSIONS, []),
+    reports: await readLegacyKey<any>(LEGACY_KEY_REPORTS, null),
+  };
+}
+
+/** Runs inside the schema transaction. */
+async function writeLegacyData(db: SQLite.SQLiteDatabase, { workflows, batches, versions, reports }: LegacyData): Promise<void> {
+  await writeWorkflows(db, workflows);
+  for (const batch of batches) await writeBatch(db, batch);
+  for (const version of versions) await writeWorkflowVersion(db, version);
+  for (const report of reports?.environmental ?? []) await writeReport(db, 'environmental', report);
+  for (const report of reports?.batchCompletions ?? []) await writeReport(db, 'batch_completion', report);
+  for (const report of reports?.daily ?? []) await writeReport(db, 'daily', report);
+}
+
+async function removeLegacyKeys({ workflows, batches }: LegacyData): Promise<void> {
+  await AsyncStorage.multiRemove([
+    LEGACY_KEY_WORKFLOWS, LEGACY_KEY_BATCHES, LEGACY_KEY_WORKFLOW_VERSIONS, LEGACY_KEY_REPORTS,
+  ]);
+  console.log(
+    `[LocalStore] Migrated ${workflows.length} workflows, ${batches.length} batches from AsyncStorage`
+  );
+}
+
+// ============================================
+// ROW WRITERS
+// Called inside transactions — no chaining.
+// ============================================
+
+async function writeWorkflows(db: SQLite.SQLiteDatabase, workflows: Workflow[]): Promise<void> {
+  await db.runAsync('DELETE FROM workflows');
+  for (let i = 0; i < workflows.length; i++) {
+    const workflow = workflows[i];
+    await db.runAsync(
+      'INSERT OR REPLACE INTO workflows (id, sort_order, location_id, user_id, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)',
+      workflow.id, i, workflow.location_id ?? null, workflow.user_id ?? null,
+      workflow.updated_at ?? null, JSON.stringify(workflow)
+    );
+  }
+}
+
+async function writeBatch(db: SQLite.SQLiteDatabase, batch: Batch): Promise<void> {
+  const { activeTimers, ...rest } = batch;
+  await db.runAsync(
+    'INSERT OR REPLACE INTO batches (id, workflow_id, location_id, user_id, created_at, data) VALUES (?, ?, ?, ?, ?, ?)',
+    batch.id, batch.workflowId, batch.location_id ?? null, batch.user_id ?? null,
+    batch.createdAt, JSON.stringify(rest)
+  );
+  await db.runAsync('DELETE FROM timers WHERE batch_id = ?', batch.id);
+  for (const timer of activeTimers ?? []) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO timers (id, batch_id, step_id, started_at, duration, acknowledged, data) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      timer.id, batch.id, timer.stepId, timer.startedAt, timer.duration,
+      timer.acknowledged ? 1 : 0, JSON.stringify(timer)
+    );
+  }
+}
+
+async function writeWorkflowVersion(db: SQLite.SQLiteDatabase, version: WorkflowVersion): Promise<void> {
+  await db.runAsync(
+    'INSERT OR REPLACE INTO workflow_versions (workflow_id, version, created_at, data) VALUES (?, ?, ?, ?)',
+    version.workflowId, version.version, version.createdAt, JSON.stringify(version)
+  );
+}
+
+async function writeReport(db: SQLite.SQLiteDatabase, kind: ReportKind, report: StoredReport): Promise<void> {
+  await db.runAsync(
+    'INSERT OR REPLACE INTO reports (id, kind, date, timestamp, workflow_id, batch_id, data) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    report.id, kind, report.date, report.timestamp,
+    report.workflowId ?? null, report.batchId ?? null, JSON.stringify(report)
+  );
+}
+
+// ============================================
+// WORKFLOWS
+// ============================================
+
+export async function loadWorkflowsLocal(): Promise<Workflow[]> {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM workflows ORDER BY sort_order');
+  return rows.map(row => JSON.parse(row.data));
+}
+
+/** Replaces the stored workflow list, keeping the given order. */
+export function saveWorkflowsLocal(workflows: Workflow[]): Promise<void> {
+  return serialized(db => db.withTransactionAsync(() => writeWorkflows(db, workflows)));
+}
+
+export function clearWorkflowsLocal(): Promise<void> {
+  return serialized(async db => { await db.runAsync('DELETE FROM workflows'); });
+}
+
+export async function loadWorkflowVersionsLocal(): Promise<WorkflowVersion[]> {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<{ data: string }>('SELECT data FROM workflow_versions');
+  return rows.map(row => JSON.parse(row.data));
+}
+
+export function saveWorkflowVersionsLocal(versions: WorkflowVersion[]): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    for (const version of versions) await writeWorkflowVersion(db, version);
+  }));
+}
+
+// ============================================
+// BATCHES & TIMERS
+// Timers get their own rows; they're joined
+// back onto Batch.activeTimers on load.
+// ============================================
+
+export async function loadBatchesLocal(): Promise<Batch[]> {
+  // On the write chain, so a batch can't be rewritten between reading it and its timers
+  const { batchRows, timerRows } = await serialized(async db => ({
+    batchRows: await db.getAllAsync<{ id: string; data: string }>('SELECT id, data FROM batches ORDER BY created_at DESC'),
+    timerRows: await db.getAllAsync<{ batch_id: string; data: string }>('SELECT batch_id, data FROM timers ORDER BY started_at'),
+  }));
+
+  const timersByBatch = new Map<string, Timer[]>();
+  for (const row of timerRows) {
+    const timers = timersByBatch.get(row.batch_id) ?? [];
+    timers.push(JSON.parse(row.data));
+    timersByBatch.set(row.batch_id, timers);
+  }
+
+  return batchRows.map(row => ({ ...JSON.parse(row.data), activeTimers: timersByBatch.get(row.id) ?? [] }));
+}
+
+/** Replaces every stored batch — used after a full refresh from the server. */
+export function saveBatchesLocal(batches: Batch[]): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM timers');
+    await db.runAsync('DELETE FROM batches');
+    for (const batch of batches) await writeBatch(db, batch);
+  }));
+}
+
+export function saveBatchLocal(batch: Batch): Promise<void> {
+  return serialized(db => db.withTransactionAsync(() => writeBatch(db, batch)));
+}
+
+export function deleteBatchLocal(batchId: string): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM timers WHERE batch_id = ?', batchId);
+    await db.runAsync('DELETE FROM batches WHERE id = ?', batchId);
+  }));
+}
+
+// ============================================
+// BATCH EVENTS
+// Append-only: INSERT OR IGNORE so a re-fetch
+// never rewrites an event already stored.
+// ============================================
+
+export async function loadBatchEventsLocal(batchId: string): Promise<BatchEvent[]> {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<{ data: string }>(
+    'SELECT data FROM batch_events WHERE batch_id = ? ORDER BY at',
+    batchId
+  );
+  return rows.map(row => JSON.parse(row.data));
+}
+
+export function saveBatchEventsLocal(events: BatchEvent[]): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    for (const event of events) {
+      await db.runAsync(
+        'INSERT OR IGNORE INTO batch_events (id, batch_id, at, data) VALUES (?, ?, ?, ?)',
+        event.id, event.batchId, event.at, JSON.stringify(event)
+      );
+    }
+  }));
+}
+
+// ============================================
+// REPORTS
+// ============================================
+
+export async function loadReportsLocal<T>(kind: ReportKind): Promise<T[]> {
+  const db = await getLocalDb();
+  const rows = await db.getAllAsync<{ data: string }>(
+    'SELECT data FROM reports WHERE kind = ? ORDER BY timestamp',
+    kind
+  );
+  return rows.map(row => JSON.parse(row.data));
+}
+
+export function saveReportLocal(kind: ReportKind, report: StoredReport): Promise<void> {
+  return serialized(async db => { await writeReport(db, kind, report); });
+}
+
+/** Upserts many reports of one kind in a single transaction. */
+export function saveReportsLocal(kind: ReportKind, reports: StoredReport[]): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    for (const report of reports) await writeReport(db, kind, report);
+  }));
+}
+
+export function deleteReportLocal(id: string): Promise<void> {
+  return serialized(async db => { await db.runAsync('DELETE FROM reports WHERE id = ?', id); });
+}
+
+/** Replaces every stored report with the given ones in a single transaction. */
+export function replaceReportsLocal(reports: Record<ReportKind, StoredReport[]>): Promise<void> {
+  return serialized(db => db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM reports');
+    for (const kind of Object.keys(reports) as ReportKind[]) {
+      for (const report of reports[kind]) await writeReport(db, kind, report);
+    }
+  }));
+}
+
+/** Removes every report, or only those of one kind. */
+export function clearReportsLocal(kind?: ReportKind): Promise<void> {
+  return serialized(async db => {
+    if (kind) await db.runAsync('DELETE FROM reports WHERE kind = ?', kind);
+    else await db.runAsync('DELETE FROM reports');
+  });
+}
@@ -1,99 +1,522 @@
 // ============================================
 // FILE: services/offlineQueue.ts
-// Stores mutations that failed offline and
-// replays them when internet is restored.
+// One typed mutation API for every service.
+// Writes go straight to the backend unless the
+// row already has queued work; network
+// failures are queued and replayed in order
+// per row, with exponential backoff. Anything
+// that can never succeed moves to a
+// dead-letter list instead of blocking the row.
+// Batch progress travels as mergeable ops
+// (utils/batchOps) guarded by the row's
+// revision, so concurrent stations don't
+// overwrite each other.
 // ============================================
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { supabase } from './supabaseClient';
+import { getBackend } from './backend';
+import type { BackendError, BackendResult, ReportTable, Row } from './backend/types';
+import { mergeBatchOps, type BatchOp, type FieldConflict } from '../utils/batchOps';
 
-const QUEUE_KEY = '@offline_queue';
+const QUEUE_KEY = '@offline_queue_v2';
+const DEAD_LETTER_KEY = '@offline_queue_dead_letters';
 
-export interface QueuedOperation {
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 15 * 60_000;
+const MAX_ATTEMPTS = 10;
+// Re-reads allowed when another station writes between our read and our write
+const MAX_MERGE_TRIES = 3;
+
+export type Mutation =
+  | { table: 'workflows'; op: 'insert' | 'upsert'; row: Row }
+  | { table: 'workflows'; op: 'update'; id: string; fields: Row }
+  | { table: 'workflow_versions'; op: 'insert'; row: Row }
+  | { table: 'batches'; op: 'insert'; row: Row }
+  | { table: 'batches'; op: 'update'; id: string; fields: Row }
+  | { table: 'batches'; op: 'merge'; id: string; ops: BatchOp[] }
+  | { table: 'batch_events'; op: 'insert'; row: Row }
+  | { table: ReportTable; op: 'upsert'; row: Row }
+  | { table: ReportTable; op: 'delete'; id: string; userId: string }
+  | { table: 'purchase_orders'; op: 'update'; id: string; fields: Row }
+  | { table: 'purchase_order_items' | 'po_receipts' | 'po_discrepancies'; op: 'insert'; rows: Row[] }
+  | { table: 'po_discrepancies'; op: 'update'; id: string; fields: Row }
+  | { table: 'notifications'; op: 'insert'; row: Row };
+
+export interface QueuedMutation {
+  /** Operation id — an id already queued or dead-lettered is never enqueued twice. */
   id: string;
-  table: string;
-  operation: 'insert' | 'update' | 'upsert' | 'delete';
-  payload: any;
+  mutation: Mutation;
+  /** Mutations sharing a key replay strictly in queue order. */
+  rowKey: string;
+  /** Backend the write was meant for; other backends never replay it. */
+  backend: string;
   queuedAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends QueuedMutation {
+  failedAt: string;
+}
+
+export interface FlushResult {
+  applied: number;
+  waiting: number;
+  deadLettered: number;
+}
+
+export interface BatchMerge {
+  batchId: string;
+  /** The batch row as written, including other stations' changes. */
+  row: Row;
+  conflicts: FieldConflict[];
+}
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+const NETWORK_MESSAGE = /network request failed|failed to fetch|fetch failed|network ?error|timed? ?out|socket hang up|ECONNRESET|ECONNREFUSED|ENOTFOUND/i;
+
+/** True when the request never got a real answer — worth retrying later. */
+export function isSupabaseNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  const { message, code, status } = error as { message?: string; code?: string; status?: number };
+  if (status !== undefined && (status === 0 || status === 408 || status === 429 || status >= 500)) return true;
+  if (code && /^(ECONN|ETIMEDOUT|ENOTFOUND|503|504)/.test(code)) return true;
+  return NETWORK_MESSAGE.test(message ?? String(error));
+}
+
+/** Postgres unique_violation: a replayed insert already landed on an earlier attempt. */
+function isDuplicateKey(error: BackendError): boolean {
+  return error.code === '23505';
+}
+
+const REVISION_BUSY = 'REVISION_BUSY';
+
+function isRetryable(error: unknown): boolean {
+  return isSupabaseNetworkError(error) || (error as { code?: string }).code === REVISION_BUSY;
+}
+
+// ── Keys and ids ──────────────────────────────────────────────────────────────
+
+export function newOperationId(): string {
+  return `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function rowKeyOf(mutation: Mutation, opId: string): string {
+  if ('id' in mutation) return `${mutation.table}:${mutation.id}`;
+  if ('rows' in mutation) return `${mutation.table}:${opId}`;
+  const { row } = mutation;
+  // The server numbers versions, so one workflow's versions replay in order
+  if (mutation.table === 'workflow_versions') return `${mutation.table}:${row.workflow_id}`;
+  return `${mutation.table}:${row.id ?? opId}`;
 }
 
-// ── Read / write queue ────────────────────────────────────────────────────────
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
 
-async function readQueue(): Promise<QueuedOperation[]> {
+// ── Storage ───────────────────────────────────────────────────────────────────
+// Reads and writes go through one promise chain so concurrent enqueues and
+// a flush never interleave their read-modify-write.
+
+let queueCache: QueuedMutation[] | null = null;
+let lock: Promise<unknown> = Promise.resolve();
+
+function withQueue<T>(fn: (queue: QueuedMutation[]) => Promise<T> | T): Promise<T> {
+  const run = lock.then(async () => {
+    if (!queueCache) queueCache = await readList<QueuedMutation>(QUEUE_KEY);
+    return fn(queueCache);
+  });
+  lock = run.catch(() => {});
+  return run;
+}
+
+async function readList<T>(key: string): Promise<T[]> {
   try {
-    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    const raw = await AsyncStorage.getItem(key);
     return raw ? JSON.parse(raw) : [];
   } catch {
     return [];
   }
 }
 
-async function writeQueue(queue: QueuedOperation[]): Promise<void> {
+async function saveQueue(queue: QueuedMutation[]): Promise<void> {
+  queueCache = queue;
   await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
 }
 
-// ── Public API ────────────────────────────────────────────────────────────────
+async function addDeadLetters(entries: QueuedMutation[]): Promise<void> {
+  if (entries.length === 0) return;
+  const failedAt = new Date().toISOString();
+  const deadLetters = await readList<DeadLetter>(DEAD_LETTER_KEY);
+  deadLetters.push(...entries.map(entry => ({ ...entry, failedAt })));
+  await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(deadLetters));
+}
+
+// ── Replay outcomes ───────────────────────────────────────────────────────────
 
-/** Add a failed mutation to the queue so it can be retried later. */
-export async function enqueueOperation(op: Omit<QueuedOperation, 'id' | 'queuedAt'>): Promise<void> {
-  const queue = await readQueue();
-  queue.push({
-    ...op,
-    id: `${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
-    queuedAt: new Date().toISOString(),
+type SettledListener = (mutation: Mutation, error: string | null) => void;
+
+const settledListeners = new Set<SettledListener>();
+
+/**
+ * Called once a queued mutation leaves the queue: `error` is null when it
+ * was applied, or the reason it was dead-lettered.
+ */
+export function onReplaySettled(listener: SettledListener): () => void {
+  settledListeners.add(listener);
+  return () => { settledListeners.delete(listener); };
+}
+
+function notifySettled(mutation: Mutation, error: string | null): void {
+  settledListeners.forEach(listener => {
+    try { listener(mutation, error); } catch (err) { console.error('[offlineQueue] Settled listener error:', err); }
   });
-  await writeQueue(queue);
 }
 
-/** Returns how many operations are waiting to be synced. */
-export async function getPendingCount(): Promise<number> {
-  const queue = await readQueue();
-  return queue.length;
+// ── Batch merges ──────────────────────────────────────────────────────────────
+
+const mergeListeners = new Set<(merge: BatchMerge) => void>();
+
+/** Called after batch ops land, with the merged row and anything that couldn't merge. */
+export function onBatchMerged(listener: (merge: BatchMerge) => void): () => void {
+  mergeListeners.add(listener);
+  return () => { mergeListeners.delete(listener); };
+}
+
+/** Reads the row, replays the ops on top of it and writes back only if nobody wrote in between. */
+async function sendBatchOps(id: string, ops: BatchOp[]): Promise<BackendError | null> {
+  const { batches } = getBackend();
+  for (let attempt = 0; attempt < MAX_MERGE_TRIES; attempt++) {
+    const { data: row, error } = await batches.get(id);
+    if (error) return error;
+    if (!row) return { message: `Batch ${id} not found` };
+
+    const revision: number = row.revision ?? 0;
+    const { fields, conflicts } = mergeBatchOps(row, ops);
+    const written = { ...fields, revision: revision + 1, updated_at: new Date().toISOString() };
+    const { data: updated, error: writeError } = await batches.updateIfRevision(id, revision, written);
+    if (writeError) return writeError;
+    if (!updated) continue;
+
+    const merge: BatchMerge = { batchId: id, row: { ...row, ...written }, conflicts };
+    mergeListeners.forEach(listener => {
+      try { listener(merge); } catch (err) { console.error('[offlineQueue] Merge listener error:', err); }
+    });
+    return null;
+  }
+  return { message: `Batch ${id} kept changing while merging`, code: REVISION_BUSY };
+}
+
+// ── Applying ──────────────────────────────────────────────────────────────────
+
+async function send(mutation: Mutation): Promise<BackendError | null> {
+  const backend = getBackend();
+  let result: { error: BackendError | null };
+
+  switch (mutation.table) {
+    case 'workflows':
+      result = mutation.op === 'update'
+        ? await backend.workflows.update(mutation.id, mutation.fields)
+        : await backend.workflows[mutation.op](mutation.row);
+      break;
+    case 'workflow_versions':
+      result = await backend.workflows.insertVersion(mutation.row);
+      break;
+    case 'batches':
+      if (mutation.op === 'merge') return sendBatchOps(mutation.id, mutation.ops);
+      result = mutation.op === 'update'
+        ? await backend.batches.update(mutation.id, mutation.fields)
+        : await backend.batches.insert(mutation.row);
+      break;
+    case 'batch_events':
+      result = await backend.batchEvents.insert(mutation.row);
+      break;
+    case 'batch_completion_reports':
+    case 'environmental_reports':
+      result = mutation.op === 'delete'
+        ? await backend.reports.remove(mutation.table, mutation.id, mutation.userId)
+        : await backend.reports.upsert(mutation.table, mutation.row);
+      break;
+    case 'purchase_orders':
+      result = await backend.purchaseOrders.update(mutation.id, mutation.fields);
+      break;
+    case 'purchase_order_items':
+      result = await backend.purchaseOrders.insertItems(mutation.rows);
+      break;
+    case 'po_receipts':
+      result = await backend.purchaseOrders.insertReceipts(mutation.rows);
+      break;
+    case 'po_discrepancies':
+      result = mutation.op === 'update'
+        ? await backend.purchaseOrders.updateDiscrepancy(mutation.id, mutation.fields)
+        : await backend.purchaseOrders.insertDiscrepancies(mutation.rows);
+      break;
+    case 'notifications':
+      result = await backend.purchaseOrders.notify(mutation.row);
+      break;
+  }
+
+  // Version inserts renumber on conflict themselves; a 23505 left over is a real failure
+  if (result.error && mutation.op === 'insert' && mutation.table !== 'workflow_versions' && isDuplicateKey(result.error)) {
+    return null;
+  }
+  return result.error;
+}
+
+// Entries the running flush has already picked up; merging into one could be lost
+const claimed = new Set<string>();
+
+/**
+ * Folds an update into a still-pending update for the same row (or batch
+ * ops onto pending batch ops), keeping its place in line.
+ */
+function coalesce(queue: QueuedMutation[], entry: QueuedMutation): boolean {
+  const { mutation } = entry;
+  if (mutation.op !== 'update' && mutation.op !== 'merge') return false;
+
+  const tail = [...queue].reverse().find(queued => queued.rowKey === entry.rowKey);
+  if (!tail || claimed.has(tail.id) || tail.backend !== entry.backend) return false;
+
+  if (mutation.op === 'merge' && tail.mutation.op === 'merge') {
+    tail.mutation = { ...tail.mutation, ops: [...tail.mutation.ops, ...mutation.ops] };
+    return true;
+  }
+  if (mutation.op === 'update' && tail.mutation.op === 'update') {
+    tail.mutation = { ...tail.mutation, fields: { ...tail.mutation.fields, ...mutation.fields } };
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Queues a mutation for replay. Returns the operation id; passing an `opId`
+ * that is already queued or dead-lettered is a no-op.
+ */
+export function enqueue(mutation: Mutation, opId: string = newOperationId()): Promise<string> {
+  return withQueue(async queue => {
+    if (queue.some(queued => queued.id === opId)) return opId;
+    if ((await readList<DeadLetter>(DEAD_LETTER_KEY)).some(dead => dead.id === opId)) return opId;
+
+    const entry: QueuedMutation = {
+      id: opId, mutation, rowKey: rowKeyOf(mutation, opId), backend: getBackend().name,
+      queuedAt: new Date().toISOString(), attempts: 0, nextAttemptAt: 0,
+    };
+    if (!coalesce(queue, entry)) queue.push(entry);
+    await saveQueue(queue);
+    return opId;
+  });
+}
+
+/**
+ * Writes now, or queues behind earlier writes to the same row so replay
+ * can't reorder them. Network failures are queued and resolve `null`; any
+ * other error is returned for the caller to surface.
+ */
+export async function applyMutation(mutation: Mutation): Promise<BackendError | null> {
+  const { error } = await writeOrQueue(mutation, async () => ({ data: null, error: await send(mutation) }));
+  return error;
+}
+
+/**
+ * Records a workflow version under the next number the server hands out.
+ * Resolves that number, or `data: null` when the write was queued and will
+ * be numbered on replay.
+ */
+export function applyVersionInsert(row: Row): Promise<BackendResult<number>> {
+  return writeOrQueue({ table: 'workflow_versions', op: 'insert', row }, () => getBackend().workflows.insertVersion(row));
 }
 
+async function writeOrQueue<T>(mutation: Mutation, write: () => Promise<BackendResult<T>>): Promise<BackendResult<T>> {
+  const opId = newOperationId();
+  const rowKey = rowKeyOf(mutation, opId);
+  const backend = getBackend().name;
+  const blocked = await withQueue(queue => queue.some(queued => queued.rowKey === rowKey && queued.backend === backend));
+  if (blocked) {
+    await enqueue(mutation, opId);
+    return { data: null, error: null };
+  }
+
+  try {
+    const { data, error } = await write();
+    if (!error) return { data, error: null };
+    if (!isRetryable(error)) return { data: null, error };
+  } catch (err) {
+    // supabase-js rejects instead of returning an error when fetch itself throws
+    if (!isRetryable(err)) throw err;
+  }
+  await enqueue(mutation, opId);
+  return { data: null, error: null };
+}
+
+// ── Replay ────────────────────────────────────────────────────────────────────
+
+let flushing: Promise<FlushResult> | null = null;
+
 /**
- * Attempt to flush all queued operations to Supabase.
- * Call this when the app comes back online.
- * Operations that succeed are removed; failures stay in the queue.
+ * Replays queued mutations oldest first. A row whose mutation fails or is
+ * still backing off holds back its later mutations; other rows carry on.
+ * `ignoreBackoff` is for a user-initiated retry.
  */
-export async function flushOfflineQueue(): Promise<void> {
-  const queue = await readQueue();
-  if (queue.length === 0) return;
+export function flushOfflineQueue(options: { ignoreBackoff?: boolean } = {}): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = replay(options.ignoreBackoff ?? false).finally(() => { flushing = null; });
+  }
+  return flushing;
+}
 
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return; // Not authenticated yet — leave queue intact
+async function replay(ignoreBackoff: boolean): Promise<FlushResult> {
+  const result: FlushResult = { applied: 0, waiting: 0, deadLettered: 0 };
+  const pending = await withQueue(queue => [...queue]);
+  if (pending.length === 0) return result;
 
-  const failed: QueuedOperation[] = [];
+  const user = await getBackend().auth.getCurrentUser();
+  if (!user) return { ...result, waiting: pending.length }; // Not authenticated yet — leave queue intact
 
-  for (const op of queue) {
+  const backend = getBackend().name;
+  const now = Date.now();
+  const held = new Set<string>();
+  const done = new Set<string>();
+  const applied: QueuedMutation[] = [];
+  const retried = new Map<string, QueuedMutation>();
+  const dead: QueuedMutation[] = [];
+
+  for (const entry of pending) {
+    if (entry.backend !== backend || held.has(entry.rowKey)) continue;
+    if (!ignoreBackoff && entry.nextAttemptAt > now) {
+      held.add(entry.rowKey);
+      continue;
+    }
+
+    claimed.add(entry.id);
+    let error: unknown = null;
     try {
-      let error: any = null;
-
-      if (op.operation === 'upsert') {
-        ({ error } = await supabase.from(op.table).upsert(op.payload));
-      } else if (op.operation === 'insert') {
-        ({ error } = await supabase.from(op.table).insert(op.payload));
-      } else if (op.operation === 'update') {
-        ({ error } = await supabase.from(op.table).update(op.payload.updates).eq('id', op.payload.id));
-      } else if (op.operation === 'delete') {
-        ({ error } = await supabase.from(op.table).delete().eq('id', op.payload.id));
-      }
-
-      if (error) {
-        console.warn(`[offlineQueue] Failed to flush op ${op.id}:`, error.message);
-        failed.push(op);
-      }
+      error = await send(entry.mutation);
     } catch (err) {
-      console.warn(`[offlineQueue] Exception flushing op ${op.id}:`, err);
-      failed.push(op);
+      error = err;
+    }
+
+    if (!error) {
+      done.add(entry.id);
+      applied.push(entry);
+      continue;
     }
+
+    const attempts = entry.attempts + 1;
+    const lastError = (error as { message?: string }).message ?? String(error);
+    if (!isRetryable(error) || attempts >= MAX_ATTEMPTS) {
+      // Later writes to this row may depend on it, but blocking them forever is worse
+      console.warn(`[offlineQueue] Dead-lettering ${entry.id} (${entry.rowKey}):`, lastError);
+      dead.push({ ...entry, attempts, lastError });
+      done.add(entry.id);
+      continue;
+    }
+
+    retried.set(entry.id, { ...entry, attempts, lastError, nextAttemptAt: Date.now() + backoffDelay(attempts) });
+    held.add(entry.rowKey);
   }
 
-  await writeQueue(failed);
+  // Entries enqueued or coalesced while replaying are kept as they now stand
+  const remaining = await withQueue(async queue => {
+    const next = queue
+      .filter(entry => !done.has(entry.id))
+      .map(entry => {
+        const retry = retried.get(entry.id);
+        return retry ? { ...entry, attempts: retry.attempts, lastError: retry.lastError, nextAttemptAt: retry.nextAttemptAt } : entry;
+      });
+    await saveQueue(next);
+    claimed.clear();
+    return next.length;
+  });
+  await addDeadLetters(dead);
+  applied.forEach(entry => notifySettled(entry.mutation, null));
+  dead.forEach(entry => notifySettled(entry.mutation, entry.lastError ?? 'Failed'));
 
-  if (failed.length === 0) {
+  result.applied = done.size - dead.length;
+  result.deadLettered = dead.length;
+  result.waiting = remaining;
+  if (remaining === 0 && dead.length === 0) {
     console.log('[offlineQueue] All queued operations flushed successfully');
   } else {
-    console.warn(`[offlineQueue] ${failed.length} operation(s) remain after flush`);
+    console.warn(`[offlineQueue] ${remaining} operation(s) waiting, ${dead.length} dead-lettered`);
   }
-}
\ No newline at end of file
+  return result;
+}
+
+// ── Inspection ────────────────────────────────────────────────────────────────
+
+/** Returns how many operations are waiting to be synced. */
+export function getPendingCount(): Promise<number> {
+  return withQueue(queue => queue.length);
+}
+
+/** True while a write to this row is waiting in the queue. */
+export function hasPendingMutation(table: Mutation['table'], id: string): Promise<boolean> {
+  return withQueue(queue => queue.some(entry => entry.rowKey === `${table}:${id}`));
+}
+
+export function getQueuedMutations(): Promise<QueuedMutation[]> {
+  return withQueue(queue => queue.map(entry => ({ ...entry })));
+}
+
+export function getDeadLetters(): Promise<DeadLetter[]> {
+  return readList<DeadLetter>(DEAD_LETTER_KEY);
+}
+
+// ── Diagnostics ───────────────────────────────────────────────────────────────
+
+/**
+ * Tries one queued or dead-lettered mutation again now. Earlier writes to
+ * the same row still go first; a dead letter rejoins the back of the queue.
+ */
+export async function retryMutation(id: string): Promise<FlushResult> {
+  const found = await withQueue(async queue => {
+    const index = queue.findIndex(entry => entry.id === id);
+    if (index >= 0) {
+      const { rowKey } = queue[index];
+      queue.slice(0, index + 1).filter(entry => entry.rowKey === rowKey).forEach(entry => { entry.nextAttemptAt = 0; });
+      await saveQueue(queue);
+      return true;
+    }
+
+    const deadLetters = await readList<DeadLetter>(DEAD_LETTER_KEY);
+    const dead = deadLetters.find(entry => entry.id === id);
+    if (!dead) return false;
+    queue.push({
+      id: dead.id, mutation: dead.mutation, rowKey: dead.rowKey, backend: dead.backend,
+      queuedAt: dead.queuedAt, attempts: 0, nextAttemptAt: 0, lastError: dead.lastError,
+    });
+    await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(deadLetters.filter(entry => entry.id !== id)));
+    await saveQueue(queue);
+    return true;
+  });
+  if (!found) throw new Error('Operation not found');
+  return flushOfflineQueue();
+}
+
+/** Drops a queued or dead-lettered mutation for good. */
+export async function discardMutation(id: string): Promise<void> {
+  const discarded = await withQueue(async queue => {
+    const entry = queue.find(queued => queued.id === id);
+    if (entry) {
+      if (claimed.has(id)) throw new Error('That operation is being sent right now');
+      await saveQueue(queue.filter(queued => queued.id !== id));
+      return entry;
+    }
+    const deadLetters = await readList<DeadLetter>(DEAD_LETTER_KEY);
+    await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(deadLetters.filter(dead => dead.id !== id)));
+    return null; // Dead letters were already reported as settled
+  });
+  if (discarded) notifySettled(discarded.mutation, 'Discarded');
+}
+
+/** Queue and dead letters as one JSON document, for support. */
+export async function exportQueueAsJSON(): Promise<string> {
+  const [queued, deadLetters] = await Promise.all([getQueuedMutations(), getDeadLetters()]);
+  return JSON.stringify(
+    { exportedAt: new Date().toISOString(), backend: getBackend().name, queued, deadLetters },
+    null,
+    2,
+  );
+}
@@ -4,7 +4,8 @@
 // Track discrepancies, backorders, and supplier issues
 // ============================================================
 
-import { supabase } from "../lib/supabase";
+import { getBackend } from "./backend";
+import { applyMutation } from "./offlineQueue";
 
 // ============================================================
 // TYPES
@@ -119,22 +120,18 @@ export async function createPurchaseOrder(
       0,
     );
 
-    const { data: po, error: poError } = await supabase
-      .from("purchase_orders")
-      .insert({
-        user_id: userId,
-        supplier_name: supplierName,
-        order_date: orderDate,
-        expected_delivery_date: expectedDelivery,
-        status: "pending",
-        total_ordered_cost: totalCost,
-        total_received_cost: 0,
-        notes: notes || null,
-      })
-      .select("*")
-      .single();
-
-    if (poError) return { success: false, error: poError.message };
+    const { data: po, error: poError } = await getBackend().purchaseOrders.create({
+      user_id: userId,
+      supplier_name: supplierName,
+      order_date: orderDate,
+      expected_delivery_date: expectedDelivery,
+      status: "pending",
+      total_ordered_cost: totalCost,
+      total_received_cost: 0,
+      notes: notes || null,
+    });
+
+    if (poError || !po) return { success: false, error: poError?.message };
 
     // Insert line items
     const lineItems = items.map((item) => ({
@@ -147,9 +144,7 @@ export async function createPurchaseOrder(
       notes: item.notes || null,
     }));
 
-    const { error: itemsError } = await supabase
-      .from("purchase_order_items")
-      .insert(lineItems);
+    const { error: itemsError } = await getBackend().purchaseOrders.insertItems(lineItems);
 
     if (itemsError) return { success: false, error: itemsError.message };
 
@@ -169,18 +164,11 @@ export async function createPurchaseOrder(
 export async function fetchPurchaseOrder(
   poId: string,
 ): Promise<PurchaseOrder | null> {
-  const { data: po } = await supabase
-    .from("purchase_orders")
-    .select("*")
-    .eq("id", poId)
-    .single();
+  const { data: po } = await getBackend().purchaseOrders.get(poId);
   if (!po) return null;
 
-  const { data: items } = await supabase
-    .from("purchase_order_items")
-    .select("*")
-    .eq("po_id", poId);
-  return { ...po, items: items || [] };
+  const { data: items } = await getBackend().purchaseOrders.listItems(poId);
+  return { ...po, items: items || [] } as PurchaseOrder;
 }
 
 /**
@@ -189,21 +177,14 @@ export async function fetchPurchaseOrder(
 export async function fetchPurchaseOrders(
   userId: string,
 ): Promise<PurchaseOrder[]> {
-  const { data: orders } = await supabase
-    .from("purchase_orders")
-    .select("*")
-    .eq("user_id", userId)
-    .order("order_date", { ascending: false });
+  const { data: orders } = await getBackend().purchaseOrders.list(userId);
 
   if (!orders) return [];
 
   const results: PurchaseOrder[] = [];
   for (const order of orders) {
-    const { data: items } = await supabase
-      .from("purchase_order_items")
-      .select("*")
-      .eq("po_id", order.id);
-    results.push({ ...order, items: items || [] });
+    const { data: items } = await getBackend().purchaseOrders.listItems(order.id);
+    results.push({ ...order, items: items || [] } as PurchaseOrder);
   }
   return results;
 }
@@ -390,7 +371,8 @@ export async function verifyPurchaseOrderReceipt(
       notes: item.notes || null,
     }));
 
-    await supabase.from("po_receipts").insert(receiptRecords);
+    // Receiving often happens at the back door with no signal — these queue offline
+    await applyMutation({ table: "po_receipts", op: "insert", rows: receiptRecords });
 
     // 2. Save discrepancies
     if (discrepancies.length > 0) {
@@ -410,7 +392,7 @@ export async function verifyPurchaseOrderReceipt(
         created_at: new Date().toISOString(),
       }));
 
-      await supabase.from("po_discrepancies").insert(discrepancyRecords);
+      await applyMutation({ table: "po_discrepancies", op: "insert", rows: discrepancyRecords });
     }
 
     // 3. Update PO status and received cost
@@ -427,23 +409,26 @@ export async function verifyPurchaseOrderReceipt(
         ? "partially_received"
         : "received";
 
-    await supabase
-      .from("purchase_orders")
-      .update({
-        status: newStatus,
-        total_received_cost: totalReceivedCost,
-      })
-      .eq("id", poId);
+    await applyMutation({
+      table: "purchase_orders",
+      op: "update",
+      id: poId,
+      fields: { status: newStatus, total_received_cost: totalReceivedCost },
+    });
 
     // 4. Create notification for discrepancies
     if (discrepancies.length > 0) {
       const po_owner = po.user_id;
-      await supabase.from("notifications").insert({
-        type: "po_discrepancy",
-        message: `⚠️ PO from ${po.supplier_name} has ${discrepancies.length} discrepancy(ies). Check the Purchase Orders section.`,
-        user_id: po_owner,
-        read: false,
-        created_at: new Date().toISOString(),
+      await applyMutation({
+        table: "notifications",
+        op: "insert",
+        row: {
+          type: "po_discrepancy",
+          message: `⚠️ PO from ${po.supplier_name} has ${discrepancies.length} discrepancy(ies). Check the Purchase Orders section.`,
+          user_id: po_owner,
+          read: false,
+          created_at: new Date().toISOString(),
+        },
       });
     }
 
@@ -504,12 +489,8 @@ export async function verifyPurchaseOrderReceipt(
 export async function getPODiscrepancySummary(
   poId: string,
 ): Promise<PODiscrepancy[]> {
-  const { data } = await supabase
-    .from("po_discrepancies")
-    .select("*")
-    .eq("po_id", poId)
-    .order("created_at", { ascending: false });
-  return data || [];
+  const { data } = await getBackend().purchaseOrders.listDiscrepancies(poId);
+  return (data || []) as PODiscrepancy[];
 }
 
 /**
@@ -519,10 +500,12 @@ export async function resolveDiscrepancy(
   discrepancyId: string,
   resolutionNotes: string,
 ): Promise<boolean> {
-  const { error } = await supabase
-    .from("po_discrepancies")
-    .update({ resolved: true, resolution_notes: resolutionNotes })
-    .eq("id", discrepancyId);
+  const error = await applyMutation({
+    table: "po_discrepancies",
+    op: "update",
+    id: discrepancyId,
+    fields: { resolved: true, resolution_notes: resolutionNotes },
+  });
   return !error;
 }
 
@@ -533,9 +516,6 @@ export async function updatePOStatus(
   poId: string,
   newStatus: PurchaseOrder["status"],
 ): Promise<boolean> {
-  const { error } = await supabase
-    .from("purchase_orders")
-    .update({ status: newStatus })
-    .eq("id", poId);
+  const error = await applyMutation({ table: "purchase_orders", op: "update", id: poId, fields: { status: newStatus } });
   return !error;
 }
@@ -1,7 +1,17 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { supabase } from "../lib/supabase";
-
-const REPORTS_KEY = "@reports";
+import { getBackend } from "./backend";
+import type { ReportTable } from "./backend/types";
+import { applyMutation, hasPendingMutation, onReplaySettled } from "./offlineQueue";
+import {
+  loadReportsLocal,
+  saveReportLocal,
+  saveReportsLocal,
+  deleteReportLocal,
+  replaceReportsLocal,
+  ReportKind,
+} from "./localStore";
+
+// "pending" reports are saved on this device only, waiting to upload
+export type ReportSyncState = "synced" | "pending" | "failed";
 
 export interface EnvironmentalReport {
   id: string;
@@ -13,6 +23,8 @@ export interface EnvironmentalReport {
   notes?: string;
   createdBy: string;
   userId?: string; // Added for Supabase sync
+  syncState?: ReportSyncState; // Local only; unset means synced
+  syncError?: string;
 }
 
 export interface IngredientUsage {
@@ -43,7 +55,10 @@ export interface BatchCompletionReport {
   totalCost?: number;
   yieldAmount?: number;
   yieldUnit?: string;
+  expectedYield?: number; // What the batch was sized to make, in yieldUnit
   userId?: string; // Added for Supabase sync
+  syncState?: ReportSyncState; // Local only; unset means synced
+  syncError?: string;
 }
 
 export interface DailyReport {
@@ -75,9 +90,7 @@ let reportsData: ReportsData = {
 // Get current user ID
 async function getCurrentUserId(): Promise<string | null> {
   try {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
+    const user = await getBackend().auth.getCurrentUser();
     return user?.id || null;
   } catch (error) {
     console.error("Error getting user:", error);
@@ -87,14 +100,16 @@ async function getCurrentUserId(): Promise<string | null> {
 
 export async function initializeReports(): Promise<void> {
   try {
-    // First load from local storage
-    const stored = await AsyncStorage.getItem(REPORTS_KEY);
-    if (stored) {
-      reportsData = JSON.parse(stored);
-      console.log(
-        `Loaded reports from local: ${reportsData.environmental.length} environmental, ${reportsData.batchCompletions.length} batch, ${reportsData.daily.length} daily`,
-      );
-    }
+    // First load from the local store
+    const [environmental, batchCompletions, daily] = await Promise.all([
+      loadReportsLocal<EnvironmentalReport>("environmental"),
+      loadReportsLocal<BatchCompletionReport>("batch_completion"),
+      loadReportsLocal<DailyReport>("daily"),
+    ]);
+    reportsData = { environmental, batchCompletions, daily };
+    console.log(
+      `Loaded reports from local: ${environmental.length} environmental, ${batchCompletions.length} batch, ${daily.length} daily`,
+    );
 
     // Then sync with Supabase
     await syncFromSupabase();
@@ -103,10 +118,30 @@ export async function initializeReports(): Promise<void> {
   }
 }
 
-async function saveReports(): Promise<void> {
+// Local writes touch only the rows that changed
+async function saveReport(kind: ReportKind, report: { id: string; date: string; timestamp: number }): Promise<void> {
+  try {
+    await saveReportLocal(kind, report);
+  } catch (error) {
+    console.error("Error saving report locally:", error);
+  }
+}
+
+async function removeReport(id: string): Promise<void> {
+  try {
+    await deleteReportLocal(id);
+  } catch (error) {
+    console.error("Error deleting report locally:", error);
+  }
+}
+
+async function saveAllReports(): Promise<void> {
   try {
-    // Save locally
-    await AsyncStorage.setItem(REPORTS_KEY, JSON.stringify(reportsData));
+    await replaceReportsLocal({
+      environmental: reportsData.environmental,
+      batch_completion: reportsData.batchCompletions,
+      daily: reportsData.daily,
+    });
   } catch (error) {
     console.error("Error saving reports locally:", error);
   }
@@ -124,11 +159,10 @@ async function syncFromSupabase(): Promise<void> {
     console.log("🔄 Syncing reports from Supabase...");
 
     // Fetch batch completion reports
-    const { data: batchReports, error: batchError } = await supabase
-      .from("batch_completion_reports")
-      .select("*")
-      .eq("user_id", userId)
-      .order("timestamp", { ascending: false });
+    const { data: batchReports, error: batchError } = await getBackend().reports.list(
+      "batch_completion_reports",
+      userId,
+    );
 
     if (batchError) {
       console.error("Error fetching batch reports:", batchError);
@@ -140,12 +174,15 @@ async function syncFromSupabase(): Promise<void> {
       );
 
       reportsData.batchCompletions = [
-        ...batchReports.map((r) => ({
+        ...batchReports.map((r: any) => ({
           ...r,
           userId: r.user_id,
           stepNotes: r.step_notes || {},
           temperatureLog: r.temperature_log || [],
           ingredientsUsed: r.ingredients_used || [],
+          yieldAmount: r.yield_amount ?? undefined,
+          yieldUnit: r.yield_unit ?? undefined,
+          expectedYield: r.expected_yield ?? undefined,
         })),
         ...localOnly,
       ];
@@ -155,11 +192,10 @@ async function syncFromSupabase(): Promise<void> {
     }
 
     // Fetch environmental reports
-    const { data: envReports, error: envError } = await supabase
-      .from("environmental_reports")
-      .select("*")
-      .eq("user_id", userId)
-      .order("timestamp", { ascending: false });
+    const { data: envReports, error: envError } = await getBackend().reports.list(
+      "environmental_reports",
+      userId,
+    );
 
     if (envError) {
       console.error("Error fetching environmental reports:", envError);
@@ -170,7 +206,7 @@ async function syncFromSupabase(): Promise<void> {
       );
 
       reportsData.environmental = [
-        ...envReports.map((r) => ({
+        ...envReports.map((r: any) => ({
           ...r,
           userId: r.user_id,
           ambientTemp: r.ambient_temp,
@@ -183,18 +219,54 @@ async function syncFromSupabase(): Promise<void> {
       );
     }
 
-    await saveReports();
+    try {
+      await saveReportsLocal("batch_completion", reportsData.batchCompletions);
+      await saveReportsLocal("environmental", reportsData.environmental);
+    } catch (error) {
+      console.error("Error saving synced reports locally:", error);
+    }
   } catch (error) {
     console.error("Error syncing from Supabase:", error);
   }
 }
 
-// Sync a report to Supabase
-async function syncToSupabase(report: any, table: string): Promise<void> {
+const REPORT_KINDS: Record<ReportTable, ReportKind> = {
+  batch_completion_reports: "batch_completion",
+  environmental_reports: "environmental",
+};
+
+function findReport(table: ReportTable, id: string): EnvironmentalReport | BatchCompletionReport | undefined {
+  const reports = table === "batch_completion_reports" ? reportsData.batchCompletions : reportsData.environmental;
+  return reports.find((r) => r.id === id);
+}
+
+async function setSyncState(
+  report: EnvironmentalReport | BatchCompletionReport,
+  table: ReportTable,
+  syncState: ReportSyncState,
+  syncError?: string,
+): Promise<void> {
+  if (report.syncState === syncState && report.syncError === syncError) return;
+  report.syncState = syncState;
+  report.syncError = syncError;
+  await saveReport(REPORT_KINDS[table], report);
+}
+
+// Queued uploads report back here once the offline queue replays them
+onReplaySettled((mutation, error) => {
+  if (mutation.table !== "batch_completion_reports" && mutation.table !== "environmental_reports") return;
+  if (mutation.op !== "upsert") return;
+  const report = findReport(mutation.table, mutation.row.id);
+  if (report) setSyncState(report, mutation.table, error ? "failed" : "synced", error ?? undefined);
+});
+
+// Sync a report to Supabase, recording whether it made it
+async function syncToSupabase(report: any, table: ReportTable): Promise<void> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
       console.log("⚠️ No user logged in, saving locally only");
+      await setSyncState(report, table, "pending");
       return;
     }
 
@@ -224,6 +296,7 @@ async function syncToSupabase(report: any, table: string): Promise<void> {
         total_cost: report.totalCost,
         yield_amount: report.yieldAmount,
         yield_unit: report.yieldUnit,
+        expected_yield: report.expectedYield,
       };
     } else if (table === "environmental_reports") {
       data = {
@@ -239,17 +312,21 @@ async function syncToSupabase(report: any, table: string): Promise<void> {
       };
     }
 
-    const { error } = await supabase
-      .from(table)
-      .upsert(data, { onConflict: "id" });
+    // Offline upserts are queued and replayed by the offline queue
+    const error = await applyMutation({ table, op: "upsert", row: data });
 
     if (error) {
       console.error(`Error syncing to ${table}:`, error);
+      await setSyncState(report, table, "failed", error.message);
+    } else if (await hasPendingMutation(table, report.id)) {
+      await setSyncState(report, table, "pending");
     } else {
       console.log(`✅ Synced report to ${table}`);
+      await setSyncState(report, table, "synced");
     }
   } catch (error) {
     console.error("Error syncing to Supabase:", error);
+    await setSyncState(report, table, "failed", (error as { message?: string })?.message ?? String(error));
   }
 }
 
@@ -289,7 +366,7 @@ export async function createEnvironmentalReport(
   };
 
   reportsData.environmental.push(report);
-  await saveReports();
+  await saveReport("environmental", report);
   await syncToSupabase(report, "environmental_reports");
 
   return report;
@@ -310,16 +387,12 @@ export async function deleteEnvironmentalReport(id: string): Promise<void> {
   reportsData.environmental = reportsData.environmental.filter(
     (r) => r.id !== id,
   );
-  await saveReports();
+  await removeReport(id);
 
   // Delete from Supabase
   const userId = await getCurrentUserId();
   if (userId) {
-    await supabase
-      .from("environmental_reports")
-      .delete()
-      .eq("id", id)
-      .eq("user_id", userId);
+    await applyMutation({ table: "environmental_reports", op: "delete", id, userId });
   }
 }
 
@@ -341,6 +414,7 @@ export async function createBatchCompletionReport(
   ingredientsUsed?: IngredientUsage[],
   yieldAmount?: number,
   yieldUnit?: string,
+  expectedYield?: number,
 ): Promise<BatchCompletionReport> {
   const timestamp = Date.now();
   const todayDate = getTodayDateString();
@@ -377,11 +451,12 @@ export async function createBatchCompletionReport(
     totalCost,
     yieldAmount,
     yieldUnit,
+    expectedYield,
     userId: userId || undefined,
   };
 
   reportsData.batchCompletions.push(report);
-  await saveReports();
+  await saveReport("batch_completion", report);
   await syncToSupabase(report, "batch_completion_reports");
 
   return report;
@@ -415,16 +490,12 @@ export async function deleteBatchCompletionReport(id: string): Promise<void> {
   reportsData.batchCompletions = reportsData.batchCompletions.filter(
     (r) => r.id !== id,
   );
-  await saveReports();
+  await removeReport(id);
 
   // Delete from Supabase
   const userId = await getCurrentUserId();
   if (userId) {
-    await supabase
-      .from("batch_completion_reports")
-      .delete()
-      .eq("id", id)
-      .eq("user_id", userId);
+    await applyMutation({ table: "batch_completion_reports", op: "delete", id, userId });
   }
 }
 
@@ -486,9 +557,11 @@ export async function generateDailyReport(date?: string): Promise<DailyReport> {
     batchCompletions: batchReports,
   };
 
+  const replaced = reportsData.daily.filter((r) => r.date === targetDate);
   reportsData.daily = reportsData.daily.filter((r) => r.date !== targetDate);
   reportsData.daily.push(report);
-  await saveReports();
+  for (const old of replaced) await removeReport(old.id);
+  await saveReport("daily", report);
 
   return report;
 }
@@ -503,7 +576,7 @@ export function getDailyReport(date: string): DailyReport | undefined {
 
 export async function deleteDailyReport(id: string): Promise<void> {
   reportsData.daily = reportsData.daily.filter((r) => r.id !== id);
-  await saveReports();
+  await removeReport(id);
 }
 
 // ============================================
@@ -528,6 +601,33 @@ export async function forceSyncFromSupabase(): Promise<void> {
   await syncFromSupabase();
 }
 
+/**
+ * Uploads reports that never reached the offline queue, such as ones
+ * written while signed out. Queued ones are left to the queue's replay.
+ * `includeFailed` also retries rejected uploads — for a user-initiated retry.
+ */
+export async function syncPendingReports(options: { includeFailed?: boolean } = {}): Promise<void> {
+  const tables: [ReportTable, (EnvironmentalReport | BatchCompletionReport)[]][] = [
+    ["batch_completion_reports", reportsData.batchCompletions],
+    ["environmental_reports", reportsData.environmental],
+  ];
+  for (const [table, reports] of tables) {
+    const retry = reports.filter(
+      (r) => r.syncState === "pending" || (options.includeFailed && r.syncState === "failed"),
+    );
+    for (const report of retry) {
+      if (!(await hasPendingMutation(table, report.id))) await syncToSupabase(report, table);
+    }
+  }
+}
+
+/** Reports on this device that haven't reached the server, pending or failed. */
+export function getUnsyncedReportCount(): number {
+  return [...reportsData.batchCompletions, ...reportsData.environmental].filter(
+    (r) => r.syncState === "pending" || r.syncState === "failed",
+  ).length;
+}
+
 // ============================================
 // ANALYTICS
 // ============================================
@@ -609,7 +709,7 @@ export function exportReportsAsJSON(): string {
 
 export function generateBatchReportsCSV(): string {
   let csv =
-    "Date,Time,Batch Name,Workflow,Station,Size,Duration (min),Cost,Yield,Notes\n";
+    "Date,Time,Batch Name,Workflow,Station,Size,Duration (min),Cost,Yield,Expected Yield,Notes\n";
 
   reportsData.batchCompletions.forEach((report) => {
     const cost = report.totalCost ? `${report.totalCost.toFixed(2)}` : "";
@@ -617,9 +717,13 @@ export function generateBatchReportsCSV(): string {
       report.yieldAmount && report.yieldUnit
         ? `${report.yieldAmount}${report.yieldUnit}`
         : "";
+    const expectedStr =
+      report.expectedYield && report.yieldUnit
+        ? `${report.expectedYield}${report.yieldUnit}`
+        : "";
     const notes = (report.notes || "").replace(/,/g, ";").replace(/\n/g, " ");
 
-    csv += `${report.date},${report.time},"${report.batchName}","${report.workflowName}",${report.completedBy},${report.batchSizeMultiplier}x,${report.actualDuration || ""},${cost},${yieldStr},"${notes}"\n`;
+    csv += `${report.date},${report.time},"${report.batchName}","${report.workflowName}",${report.completedBy},${report.batchSizeMultiplier}x,${report.actualDuration || ""},${cost},${yieldStr},${expectedStr},"${notes}"\n`;
   });
 
   return csv;
@@ -666,7 +770,7 @@ export async function importReportsFromJSON(jsonString: string): Promise<void> {
     }
 
     reportsData = imported;
-    await saveReports();
+    await saveAllReports();
 
     // Sync imported data to Supabase
     await forceSyncToSupabase();
@@ -682,5 +786,5 @@ export async function clearAllReports(): Promise<void> {
     batchCompletions: [],
     daily: [],
   };
-  await saveReports();
+  await saveAllReports();
 }
@@ -0,0 +1,157 @@
+// ============================================
+// FILE: services/timerNotifications.ts
+// OS-level local notifications for timer
+// expiry, so a locked tablet or backgrounded
+// app still gets the alert. Each notification
+// uses the timer id as its identifier (plus
+// ":<n>" per repetition of an interval timer),
+// so rescheduling or cancelling a timer needs
+// nothing else.
+// ============================================
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+const CHANNEL_ID = 'timers';
+
+export interface TimerNotice {
+  timerId: string;
+  batchId: string;
+  batchName: string;
+  stepName: string;
+  /** Seconds from now until the timer runs out. */
+  seconds: number;
+  /** Interval timers: one alert per remaining repetition, `every` seconds apart. */
+  repeat?: { every: number; from: number; of: number; label: string };
+}
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let permission: Promise<boolean> | null = null;
+
+/** Asks once per launch; a refusal just means no OS alerts. */
+function ensurePermission(): Promise<boolean> {
+  if (Platform.OS === 'web') return Promise.resolve(false);
+  if (!permission) {
+    permission = (async () => {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Timers',
+          importance: Notifications.AndroidImportance.MAX,
+          sound: 'default',
+          vibrationPattern: [0, 500, 250, 500],
+        });
+      }
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      return (await Notifications.requestPermissionsAsync()).granted;
+    })().catch(err => {
+      console.warn('[TimerNotifications] Permission check failed:', err);
+      permission = null;
+      return false;
+    });
+  }
+  return permission;
+}
+
+const belongsTo = (identifier: string, timerId: string) =>
+  identifier === timerId || identifier.startsWith(`${timerId}:`);
+
+async function cancelScheduled(timerId: string): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(scheduled
+    .filter(n => belongsTo(n.identifier, timerId))
+    .map(n => Notifications.cancelScheduledNotificationAsync(n.identifier)));
+}
+
+function alertsFor(notice: TimerNotice): { identifier: string; title: string; body: string; seconds: number }[] {
+  const { repeat } = notice;
+  if (!repeat) {
+    return [{
+      identifier: notice.timerId, title: `⏰ ${notice.stepName}`,
+      body: `${notice.batchName}: timer finished`, seconds: notice.seconds,
+    }];
+  }
+  const alerts = [];
+  for (let repetition = repeat.from; repetition <= repeat.of; repetition++) {
+    const last = repetition === repeat.of;
+    alerts.push({
+      identifier: `${notice.timerId}:${repetition}`,
+      title: `⏰ ${repeat.label} ${repetition} of ${repeat.of}`,
+      body: last ? `${notice.batchName}: last one — ${notice.stepName} is complete` : `${notice.batchName} · ${notice.stepName}`,
+      seconds: notice.seconds + (repetition - repeat.from) * repeat.every,
+    });
+  }
+  return alerts;
+}
+
+/** Schedules (or moves) the expiry notifications for a timer. */
+export async function scheduleTimerNotification(notice: TimerNotice): Promise<void> {
+  try {
+    if (!(await ensurePermission())) return;
+    await cancelScheduled(notice.timerId);
+    for (const alert of alertsFor(notice)) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: alert.identifier,
+        content: {
+          title: alert.title,
+          body: alert.body,
+          sound: 'default',
+          data: { batchId: notice.batchId, timerId: notice.timerId },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, Math.round(alert.seconds)),
+          channelId: CHANNEL_ID,
+        },
+      });
+    }
+  } catch (err) {
+    console.warn(`[TimerNotifications] Failed to schedule ${notice.timerId}:`, err);
+  }
+}
+
+/** Cancels pending notifications and clears any that already fired from the tray. */
+export async function cancelTimerNotification(timerId: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+  try {
+    await cancelScheduled(timerId);
+    const presented = await Notifications.getPresentedNotificationsAsync();
+    await Promise.all(presented
+      .filter(n => belongsTo(n.request.identifier, timerId))
+      .map(n => Notifications.dismissNotificationAsync(n.request.identifier)));
+  } catch (err) {
+    console.warn(`[TimerNotifications] Failed to cancel ${timerId}:`, err);
+  }
+}
+
+/**
+ * Calls `open` with the batch id when a timer notification is tapped —
+ * including the tap that launched the app. Returns an unsubscribe function.
+ */
+export function onTimerNotificationTap(open: (batchId: string) => void): () => void {
+  if (Platform.OS === 'web') return () => {};
+
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const batchId = response?.notification.request.content.data?.batchId;
+    if (typeof batchId === 'string') open(batchId);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(response => {
+      handle(response);
+      // Don't reopen the same batch on the next launch
+      if (response) Notifications.clearLastNotificationResponseAsync().catch(() => {});
+    })
+    .catch(err => console.warn('[TimerNotifications] Failed to read launch notification:', err));
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+}
@@ -1,3 +1,10 @@
+/** A "*See X recipe" row, resolved to a workflow id at import time. */
+export type ComponentReference = {
+  recipeName: string;
+  quantity: number;
+  unit: string;
+};
+
 export type Step = {
   id: string;
   recipeName: string;
@@ -7,6 +14,7 @@ export type Step = {
   title: string;
   instructions: string;
   ingredients: string[];
+  components: ComponentReference[];
   targetTemp?: string;
   targetWeight?: string;
   suggestedTime?: number;
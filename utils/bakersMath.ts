@@ -0,0 +1,78 @@
+// ============================================
+// FILE: utils/bakersMath.ts
+// Baker's percentages: every ingredient is a
+// percent of total flour weight. Derives
+// hydration and dough weight, and turns a
+// batch target (pieces, dough weight or a
+// count of finished units) into a size
+// multiplier.
+// ============================================
+
+import type { BakersFormula, BatchSizeTarget, DoughTarget, Ingredient, WorkflowYield } from '../services/database';
+import { bestUnit, formatQuantity } from './units';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export function flourPercent(formula: BakersFormula): number {
+  return sum(formula.ingredients.filter(i => i.kind === 'flour').map(i => i.percent));
+}
+
+/** Liquid as a percent of flour — 100% flour at 70% water is 70% hydration. */
+export function hydration(formula: BakersFormula): number {
+  const flour = flourPercent(formula);
+  if (flour <= 0) return 0;
+  return (sum(formula.ingredients.filter(i => i.kind === 'liquid').map(i => i.percent)) / flour) * 100;
+}
+
+/** Grams of dough the formula makes at the given multiplier. */
+export function doughWeight(formula: BakersFormula, multiplier = 1): number {
+  return (formula.flourWeight * sum(formula.ingredients.map(i => i.percent)) * multiplier) / 100;
+}
+
+export function formulaWeights(formula: BakersFormula, multiplier = 1): Ingredient[] {
+  return formula.ingredients.map(i => ({
+    name: i.name,
+    quantity: (formula.flourWeight * multiplier * i.percent) / 100,
+    unit: 'g',
+  }));
+}
+
+/** Reasons the formula can't be used for scaling yet; empty when it's sound. */
+export function formulaProblems(formula: BakersFormula): string[] {
+  const problems: string[] = [];
+  if (!(formula.flourWeight > 0)) problems.push('Flour weight must be more than 0g');
+  if (formula.ingredients.some(i => !i.name.trim())) problems.push('Every formula ingredient needs a name');
+  if (formula.ingredients.some(i => !(i.percent > 0))) problems.push('Every formula percentage must be more than 0');
+  const flour = flourPercent(formula);
+  if (Math.abs(flour - 100) > 0.01) problems.push(`Flours add up to ${Math.round(flour * 10) / 10}%, not 100%`);
+  return problems;
+}
+
+export function targetDoughGrams(target: DoughTarget): number {
+  return target.kind === 'dough' ? target.grams : target.count * target.pieceGrams;
+}
+
+/** Multiplier that makes `target` from the formula, to three decimals. */
+export function multiplierForTarget(formula: BakersFormula, target: DoughTarget): number {
+  const base = doughWeight(formula);
+  if (base <= 0) throw new Error('Formula has no dough weight');
+  return roundMultiplier(targetDoughGrams(target) / base);
+}
+
+/** Multiplier that makes `count` units when a 1x batch makes `baseYield`. */
+export function multiplierForYield(baseYield: WorkflowYield, count: number): number {
+  if (!(baseYield.count > 0)) throw new Error('Base yield must be more than 0');
+  return roundMultiplier(count / baseYield.count);
+}
+
+function roundMultiplier(multiplier: number): number {
+  if (!(multiplier > 0)) throw new Error('Batch target must be more than 0');
+  return Math.round(multiplier * 1000) / 1000;
+}
+
+export function describeTarget(target: BatchSizeTarget): string {
+  if (target.kind === 'yield') return `${target.count} ${target.unit}`;
+  if (target.kind === 'pieces') return `${target.count} × ${formatQuantity(target.pieceGrams, 'g')}`;
+  const { quantity, unit } = bestUnit(target.grams, 'g');
+  return `${formatQuantity(quantity, unit)} dough`;
+}
@@ -0,0 +1,119 @@
+// ============================================
+// FILE: utils/batchOps.ts
+// Batch progress expressed as operations, so
+// two stations' offline work merges instead of
+// the last write replacing whole arrays.
+// Completed steps and timers merge by id; a
+// plain field only moves if nobody else moved
+// it first, otherwise it becomes a conflict.
+// ============================================
+
+import type { Timer } from '../services/database';
+import type { Row } from '../services/backend/types';
+
+export type BatchOp =
+  | { type: 'complete_step'; stepId: string }
+  | { type: 'add_timer'; timer: Timer }
+  | { type: 'update_timer'; timerId: string; changes: Partial<Timer> }
+  /** Adds to the duration rather than setting it, so two stations' extensions both count. */
+  | { type: 'extend_timer'; timerId: string; seconds: number }
+  | { type: 'remove_timer'; timerId: string }
+  | { type: 'clear_timers' }
+  | { type: 'set_step_index'; from: number; to: number }
+  /** Row fields written together; `expected` holds what this station saw before changing them. */
+  | { type: 'set'; fields: Row; expected?: Row };
+
+export interface FieldConflict {
+  field: string;
+  /** What this station wrote. */
+  local: unknown;
+  /** What another station had already written — the value that was kept. */
+  remote: unknown;
+}
+
+export interface MergeResult {
+  /** Row fields the ops changed, ready to write. */
+  fields: Row;
+  conflicts: FieldConflict[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Replays `ops` on top of the row as it stands now. Step and timer ops
+ * commute; a field whose current value is neither what this station
+ * expected nor what it wrote is left alone and reported.
+ */
+export function mergeBatchOps(row: Row, ops: BatchOp[]): MergeResult {
+  const fields: Row = {};
+  const conflicts: FieldConflict[] = [];
+  const current = (field: string) => (field in fields ? fields[field] : row[field]);
+  const steps = (): string[] => current('completed_steps') ?? [];
+  const timers = (): Timer[] => current('active_timers') ?? [];
+
+  for (const op of ops) {
+    switch (op.type) {
+      case 'complete_step':
+        if (!steps().includes(op.stepId)) fields.completed_steps = [...steps(), op.stepId];
+        break;
+      case 'add_timer':
+        if (!timers().some(t => t.id === op.timer.id)) fields.active_timers = [...timers(), op.timer];
+        break;
+      case 'update_timer':
+        // A timer another station already stopped stays stopped
+        fields.active_timers = timers().map(t => (t.id === op.timerId ? { ...t, ...op.changes } : t));
+        break;
+      case 'extend_timer':
+        fields.active_timers = timers().map(t => (
+          t.id === op.timerId ? { ...t, duration: t.duration + op.seconds, acknowledged: false } : t
+        ));
+        break;
+      case 'remove_timer':
+        fields.active_timers = timers().filter(t => t.id !== op.timerId);
+        break;
+      case 'clear_timers':
+        fields.active_timers = [];
+        break;
+      case 'set_step_index': {
+        const index = current('current_step_index') ?? 0;
+        if (index === op.from || index === op.to) fields.current_step_index = op.to;
+        else conflicts.push({ field: 'current_step_index', local: op.to, remote: index });
+        break;
+      }
+      case 'set': {
+        const clashes = Object.entries(op.expected ?? {})
+          .filter(([field, expected]) => !same(current(field), expected) && !same(current(field), op.fields[field]))
+          .map(([field]) => ({ field, local: op.fields[field], remote: current(field) }));
+        // Fields in one op belong together (status with its timestamps), so they move or stay as one
+        if (clashes.length > 0) conflicts.push(...clashes);
+        else Object.assign(fields, op.fields);
+        break;
+      }
+    }
+  }
+  return { fields, conflicts };
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  current_step_index: 'Step',
+  status: 'Status',
+  batch_size_multiplier: 'Batch size',
+  size_target: 'Batch target',
+  cancelled_reason: 'Cancel reason',
+  retard: 'Retarder',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (field === 'current_step_index') return `step ${(value as number) + 1}`;
+  if (field === 'batch_size_multiplier') return `${value}x`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).replace('_', ' ');
+}
+
+/** "Step: you chose step 3, another station step 5 — kept step 5" */
+export function describeConflict(conflict: FieldConflict): string {
+  const label = FIELD_LABELS[conflict.field] ?? conflict.field;
+  const remote = formatValue(conflict.field, conflict.remote);
+  return `${label}: you chose ${formatValue(conflict.field, conflict.local)}, another station ${remote} — kept ${remote}`;
+}
@@ -0,0 +1,122 @@
+// ============================================
+// FILE: utils/ingredients.ts
+// Parses checklist lines such as "Flour: 500g"
+// or "2 large eggs" into the Ingredient model,
+// and scales and formats them for display.
+// ============================================
+
+import type { Ingredient } from '../services/database';
+import { bestUnit, formatQuantity, isNonScalingUnit, normalizeUnit, roundQuantity } from './units';
+
+const QUANTITY = String.raw`(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)`;
+const NOTE = String.raw`(?:\s*\((.+)\))?`;
+
+// "Flour: 500g", "Olive oil - 60 g (extra virgin)", "Eggs: 3"
+const NAME_FIRST = new RegExp(String.raw`^(.+?)\s*[:\-–]\s*${QUANTITY}\s*([^\d(]*?)${NOTE}$`);
+// "500g flour", "1 1/2 cups milk", "2 large eggs (room temp)"
+const AMOUNT_FIRST = new RegExp(String.raw`^${QUANTITY}\s*(fl\.?\s*oz|[a-zA-Z°%]+)?\s+(.+?)${NOTE}$`);
+// "3 x 500g loaves" — the count scales, the piece size doesn't
+const PIECES = new RegExp(String.raw`^(\d+)\s*[x×]\s*(\d+(?:[.,]\d+)?\s*[a-zA-Z]*)\s+(.+?)${NOTE}$`, 'i');
+
+const IRREGULAR_SINGULARS: Record<string, string> = {
+  halves: 'half', leaves: 'leaf', loaves: 'loaf', potatoes: 'potato', tomatoes: 'tomato',
+};
+
+function parseQuantity(text: string): number {
+  const [whole, fraction] = text.includes('/') ? text.trim().split(/\s+(?=\d+\/)/) : [text];
+  const value = (part: string) => {
+    const [num, den] = part.split('/');
+    return den ? parseFloat(num) / parseFloat(den) : parseFloat(num.replace(',', '.'));
+  };
+  return fraction ? value(whole) + value(fraction) : value(whole);
+}
+
+function singularWord(word: string): string | null {
+  const irregular = IRREGULAR_SINGULARS[word.toLowerCase()];
+  if (irregular) return word[0] === word[0].toUpperCase() ? irregular[0].toUpperCase() + irregular.slice(1) : irregular;
+  if (/[^aeiou]ies$/i.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|x|ss)es$/i.test(word)) return word.slice(0, -2);
+  if (/[a-z][^s]s$/i.test(word)) return word.slice(0, -1);
+  return null;
+}
+
+/** "large eggs" → "large egg", "sprigs rosemary" → "sprig rosemary": the first plural word goes singular. */
+function singularize(text: string): string {
+  const words = text.split(' ');
+  const index = words.findIndex(word => singularWord(word) !== null);
+  if (index === -1) return text;
+  words[index] = singularWord(words[index])!;
+  return words.join(' ');
+}
+
+/**
+ * Reads a free-text line into an Ingredient. Lines without a scalable
+ * amount ("Salt to taste", "Oven: 250°C") come back with only a name.
+ */
+export function parseIngredient(text: string): Ingredient {
+  const line = text.trim();
+
+  const nameFirst = line.match(NAME_FIRST);
+  if (nameFirst) {
+    const [, name, quantity, rawUnit, note] = nameFirst;
+    const unit = rawUnit.trim() || undefined;
+    if (!unit || !isNonScalingUnit(unit)) {
+      return { name: name.trim(), quantity: parseQuantity(quantity), unit: normalizeUnit(unit) ?? unit, note };
+    }
+  }
+
+  const pieces = line.match(PIECES);
+  if (pieces) {
+    const [, count, size, name, note] = pieces;
+    return { name: name.trim(), quantity: parseInt(count, 10), unit: `× ${size.replace(/\s+/g, '')}`, note };
+  }
+
+  const amountFirst = line.match(AMOUNT_FIRST);
+  if (amountFirst) {
+    const [, quantity, rawUnit, name, note] = amountFirst;
+    if (!rawUnit || !isNonScalingUnit(rawUnit)) {
+      const unit = normalizeUnit(rawUnit);
+      // "2 large eggs" — an unknown word is part of the name, not a unit
+      const fullName = rawUnit && !unit ? `${rawUnit} ${name}` : name;
+      return { name: fullName.trim(), quantity: parseQuantity(quantity), unit, note };
+    }
+  }
+
+  return { name: line };
+}
+
+/** Multiplies the amount and, once scaled, re-expresses it in a readable unit (1500g → 1.5kg). */
+export function scaleIngredient(ingredient: Ingredient, multiplier: number): Ingredient {
+  if (ingredient.quantity === undefined || multiplier === 1) return ingredient;
+  const scaled = { ...ingredient, ...bestUnit(ingredient.quantity * multiplier, ingredient.unit) };
+  // Counted items scaled down to one: "2 eggs" halved is "1 egg"
+  if (normalizeUnit(scaled.unit) || roundQuantity(scaled.quantity, scaled.unit) > 1) return scaled;
+  return scaled.unit && !scaled.unit.startsWith('×')
+    ? { ...scaled, unit: singularize(scaled.unit) }
+    : { ...scaled, name: singularize(scaled.name) };
+}
+
+export function formatIngredient(ingredient: Ingredient): string {
+  const note = ingredient.note ? ` (${ingredient.note})` : '';
+  if (ingredient.quantity === undefined) return `${ingredient.name}${note}`;
+  if (!ingredient.unit) return `${formatQuantity(ingredient.quantity, undefined)} ${ingredient.name}${note}`;
+  return `${ingredient.name}: ${formatQuantity(ingredient.quantity, ingredient.unit)}${note}`;
+}
+
+/**
+ * Splits editor/import checklist lines into measured ingredients and plain
+ * checklist text, ready to spread into a Step.
+ */
+export function structureChecklist(lines: string[]): { ingredients?: Ingredient[]; checklist?: string[] } {
+  const ingredients: Ingredient[] = [];
+  const checklist: string[] = [];
+  for (const line of lines.map(l => l.trim()).filter(Boolean)) {
+    const parsed = parseIngredient(line);
+    if (parsed.quantity !== undefined) ingredients.push(parsed);
+    else checklist.push(line);
+  }
+  return {
+    ingredients: ingredients.length > 0 ? ingredients : undefined,
+    checklist: checklist.length > 0 ? checklist : undefined,
+  };
+}
@@ -0,0 +1,91 @@
+// ============================================
+// FILE: utils/legacyStepMarkup.ts
+// Older builds stored checklists, videos, target
+// temps and visual cues inside Step.description
+// as emoji-marked text. These helpers pull them
+// back out into the structured Step fields.
+// ============================================
+
+import type { Step } from '../services/database';
+import { structureChecklist } from './ingredients';
+
+const CHECKLIST_PATTERN = /(?:📋 )?Checklist:\n([\s\S]*?)(?=\n\n|$)/;
+const VIDEO_PATTERN = /🎥 Video:\s*(https?:\/\/[^\s]+)/;
+const TARGET_TEMP_PATTERN = /^Target temp(?:erature)?:\s*(.+)$/im;
+const VISUAL_CUES_PATTERN = /^Visual Cues:\s*(.+)$/im;
+
+/** Steps saved by the old editor kept their checklist under `checklistItems`. */
+type LegacyStep = Step & { checklistItems?: string[] };
+
+export function hasLegacyStepMarkup(step: LegacyStep): boolean {
+  const description = step.description || '';
+  return (
+    CHECKLIST_PATTERN.test(description) ||
+    VIDEO_PATTERN.test(description) ||
+    TARGET_TEMP_PATTERN.test(description) ||
+    VISUAL_CUES_PATTERN.test(description) ||
+    Array.isArray(step.checklistItems) ||
+    (step.ingredients ?? []).some(item => typeof item === 'string')
+  );
+}
+
+/**
+ * Returns a copy of the step with legacy description markup moved into
+ * checklist / videoUrl / targetTemp / visualCues. Fields that are already
+ * set win over anything found in the text, so this is safe to run twice.
+ */
+export function migrateLegacyStep(step: LegacyStep): Step {
+  let description = step.description || '';
+  let checklist: string[] | undefined;
+  let videoUrl: string | undefined;
+  let targetTemp: string | undefined;
+  let visualCues: string | undefined;
+
+  const checklistMatch = description.match(CHECKLIST_PATTERN);
+  if (checklistMatch) {
+    checklist = checklistMatch[1]
+      .split('\n')
+      .map(line => line.replace(/^☐\s*/, '').trim())
+      .filter(Boolean);
+    description = description.replace(CHECKLIST_PATTERN, '');
+  }
+
+  const videoMatch = description.match(VIDEO_PATTERN);
+  if (videoMatch) {
+    videoUrl = videoMatch[1];
+    description = description.replace(VIDEO_PATTERN, '');
+  }
+
+  const tempMatch = description.match(TARGET_TEMP_PATTERN);
+  if (tempMatch) {
+    targetTemp = tempMatch[1].trim();
+    description = description.replace(TARGET_TEMP_PATTERN, '');
+  }
+
+  const cuesMatch = description.match(VISUAL_CUES_PATTERN);
+  if (cuesMatch) {
+    visualCues = cuesMatch[1].trim();
+    description = description.replace(VISUAL_CUES_PATTERN, '');
+  }
+
+  const nonEmpty = (items?: string[]) => (items && items.length > 0 ? items : undefined);
+  const { checklistItems, ...rest } = step;
+
+  // Ingredients used to be plain "Flour: 500g" strings, often mirrored in the
+  // checklist — an existing checklist wins, as it always has
+  const rawIngredients: unknown[] = step.ingredients ?? [];
+  const legacyStrings = rawIngredients.filter((item): item is string => typeof item === 'string');
+  const legacy = legacyStrings.length === 0
+    ? { ingredients: step.ingredients, checklist: undefined }
+    : nonEmpty(step.checklist) ? {} : structureChecklist(legacyStrings);
+
+  return {
+    ...rest,
+    description: description.replace(/\n{3,}/g, '\n\n').trim(),
+    ingredients: legacy.ingredients,
+    checklist: nonEmpty(step.checklist) ?? legacy.checklist ?? nonEmpty(checklistItems) ?? checklist,
+    videoUrl: step.videoUrl ?? videoUrl,
+    targetTemp: step.targetTemp ?? targetTemp,
+    visualCues: step.visualCues ?? visualCues,
+  };
+}
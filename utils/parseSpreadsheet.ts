@@ -1,5 +1,19 @@
 import * as XLSX from "xlsx";
-import { Step } from "../types";
+import { ComponentReference, Step } from "../types";
+
+// "*See Pastry Cream recipe" → "Pastry Cream"
+function subRecipeName(cue: string): string | null {
+  const match = cue.match(/see\s+(?:the\s+)?(.+?)\s+recipe/i);
+  return match ? match[1].trim() : null;
+}
+
+// "250g", "1.5 kg", 300 → quantity + unit; bare numbers are grams like other amounts
+function parseComponentAmount(amount: string): { quantity: number; unit: string } {
+  const match = amount.match(/^([\d.]+)\s*([a-zA-Z]*)/);
+  const quantity = match ? parseFloat(match[1]) : NaN;
+  if (isNaN(quantity) || quantity <= 0) return { quantity: 1, unit: 'batch' };
+  return { quantity, unit: match![2] ? match![2].toLowerCase() : 'g' };
+}
 
 export function parseSpreadsheetV2(uri: string): Step[] {
   const workbook = XLSX.read(uri, { type: "binary" });
@@ -107,6 +121,7 @@ export function parseSpreadsheetV2(uri: string): Step[] {
       
       // Build checklist from all rows
       const ingredients: string[] = [];
+      const components: ComponentReference[] = [];
       
       stepRows.forEach((row) => {
         let ingredient = '';
@@ -142,8 +157,9 @@ export function parseSpreadsheetV2(uri: string): Step[] {
 
         // Check visual cues for sub-recipe references
         const visualCue = visualCol ? String(row[visualCol] || '') : '';
-        if (visualCue.includes('*See') || visualCue.includes('see') && visualCue.includes('recipe')) {
-          ingredients.push(visualCue);
+        const recipeName = subRecipeName(visualCue);
+        if (recipeName) {
+          components.push({ recipeName, ...parseComponentAmount(amount) });
         } else if (amount) {
           // Try to detect unit from amount
           const hasUnit = /g|kg|ml|l|oz|lb|cup|tbsp|tsp/i.test(amount);
@@ -157,7 +173,7 @@ export function parseSpreadsheetV2(uri: string): Step[] {
         }
       });
 
-      console.log(`   Step ${stepNum} has ${ingredients.length} checklist items`);
+      console.log(`   Step ${stepNum} has ${ingredients.length} checklist items, ${components.length} sub-recipes`);
 
       // Build description
       let description = '';
@@ -166,38 +182,24 @@ export function parseSpreadsheetV2(uri: string): Step[] {
         description = String(firstRow[instructionCol]).trim();
       }
 
-      // Add target temp
+      // Target temp
+      let targetTemp: string | undefined;
       if (tempCol && firstRow[tempCol]) {
         const temp = String(firstRow[tempCol]).trim();
         if (temp && temp !== '0' && temp !== 'null') {
-          description += `\n\nTarget temp: ${temp}${temp.match(/[°FCfc]/) ? '' : '°C'}`;
+          targetTemp = `${temp}${temp.match(/[°FCfc]/) ? '' : '°C'}`;
         }
       }
       
-      // Add visual cues (non-recipe ones)
+      // Visual cues (non-recipe ones)
+      let visualCues: string | undefined;
       if (visualCol) {
-        const visualCues = stepRows
+        visualCues = stepRows
           .map(r => r[visualCol])
-          .filter(v => v && !String(v).includes('*See') && !String(v).includes('see') || !String(v).includes('recipe'))
+          .filter(v => v && !subRecipeName(String(v)))
           .map(v => String(v).trim())
           .filter(Boolean)
-          .join('\n');
-        
-        if (visualCues) {
-          description += `\n\n${visualCues}`;
-        }
-      }
-
-      // Add checklist to description
-      if (ingredients.length > 0) {
-        const checklistText = ingredients
-          .map(item => `☐ ${item}`)
-          .join('\n');
-        
-        if (description) {
-          description += '\n\n';
-        }
-        description += 'Checklist:\n' + checklistText;
+          .join('\n') || undefined;
       }
 
       // Timer - handle multiple formats
@@ -260,11 +262,12 @@ export function parseSpreadsheetV2(uri: string): Step[] {
         title,
         instructions: description.trim(),
         ingredients: ingredients,
-        targetTemp: tempCol && firstRow[tempCol] && firstRow[tempCol] !== 0 ? String(firstRow[tempCol]) + '°C' : undefined,
+        components,
+        targetTemp,
         targetWeight: undefined,
         suggestedTime: timerMinutes,
         timerSuggested: shouldUseTimer,
-        visualCues: visualCol && firstRow[visualCol] ? String(firstRow[visualCol]) : undefined,
+        visualCues,
         confirmationRequired,
       });
     });
@@ -0,0 +1,154 @@
+// ============================================
+// FILE: utils/units.ts
+// Kitchen units: aliases, conversion within a
+// family (mass, volume, count) and picking a
+// sensible unit to show after scaling.
+// ============================================
+
+export type UnitFamily = 'mass' | 'volume' | 'count';
+
+interface UnitDef {
+  family: UnitFamily;
+  /** Size in the family's base unit: grams, millilitres or items. */
+  base: number;
+  system: 'metric' | 'imperial';
+  /** Word units print with a space ("2 tbsp"), symbols without ("500g"). */
+  spaced: boolean;
+  label?: string;
+}
+
+const UNITS: Record<string, UnitDef> = {
+  mg: { family: 'mass', base: 0.001, system: 'metric', spaced: false },
+  g: { family: 'mass', base: 1, system: 'metric', spaced: false },
+  kg: { family: 'mass', base: 1000, system: 'metric', spaced: false },
+  oz: { family: 'mass', base: 28.3495, system: 'imperial', spaced: false },
+  lb: { family: 'mass', base: 453.592, system: 'imperial', spaced: false },
+  ml: { family: 'volume', base: 1, system: 'metric', spaced: false },
+  l: { family: 'volume', base: 1000, system: 'metric', spaced: false, label: 'L' },
+  tsp: { family: 'volume', base: 4.92892, system: 'imperial', spaced: true },
+  tbsp: { family: 'volume', base: 14.7868, system: 'imperial', spaced: true },
+  'fl oz': { family: 'volume', base: 29.5735, system: 'imperial', spaced: true },
+  cup: { family: 'volume', base: 236.588, system: 'imperial', spaced: true },
+  dozen: { family: 'count', base: 12, system: 'metric', spaced: true },
+};
+
+const ALIASES: Record<string, string> = {
+  milligram: 'mg', milligrams: 'mg',
+  gr: 'g', gram: 'g', grams: 'g', gramme: 'g', grammes: 'g',
+  kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  lbs: 'lb', pound: 'lb', pounds: 'lb',
+  millilitre: 'ml', millilitres: 'ml', milliliter: 'ml', milliliters: 'ml',
+  litre: 'l', litres: 'l', liter: 'l', liters: 'l', ltr: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbsps: 'tbsp',
+  floz: 'fl oz', 'fl. oz': 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  cups: 'cup',
+  doz: 'dozen',
+};
+
+// Temperatures, times and percentages look like quantities ("350F", "45 min",
+// "75%") but must never scale
+const NON_SCALING_UNIT = /^(°?\s*[cf]|%|h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)$/i;
+
+/** Canonical key for a known unit ("Grams" → "g"), or undefined. */
+export function normalizeUnit(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const key = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (UNITS[key]) return key;
+  return ALIASES[key];
+}
+
+export function isNonScalingUnit(raw: string): boolean {
+  return NON_SCALING_UNIT.test(raw.trim());
+}
+
+/** Unknown units ("sprigs", "eggs") count as items so they still scale. */
+export function unitFamily(unit: string | undefined): UnitFamily {
+  const known = normalizeUnit(unit);
+  return known ? UNITS[known].family : 'count';
+}
+
+/** Converts within a family. Returns null across families or for unknown units. */
+export function convertQuantity(quantity: number, from: string, to: string): number | null {
+  const a = normalizeUnit(from);
+  const b = normalizeUnit(to);
+  if (!a || !b || UNITS[a].family !== UNITS[b].family) return null;
+  return (quantity * UNITS[a].base) / UNITS[b].base;
+}
+
+// Largest first — the first unit the quantity reaches at least `min` of wins
+const LADDERS: Record<string, { unit: string; min: number }[]> = {
+  'mass:metric': [{ unit: 'kg', min: 1 }, { unit: 'g', min: 0 }],
+  'mass:imperial': [{ unit: 'lb', min: 1 }, { unit: 'oz', min: 0 }],
+  'volume:metric': [{ unit: 'l', min: 1 }, { unit: 'ml', min: 0 }],
+  'volume:imperial': [{ unit: 'cup', min: 0.25 }, { unit: 'tbsp', min: 1 }, { unit: 'tsp', min: 0 }],
+};
+
+// The measuring cups and spoons a kitchen has, as fractions of each unit
+const KITCHEN_FRACTIONS: Record<string, [number, string][]> = {
+  cup: [[0, ''], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'], [1, '']],
+  tbsp: [[0, ''], [1 / 2, '1/2'], [1, '']],
+  tsp: [[0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 2, '1/2'], [3 / 4, '3/4'], [1, '']],
+};
+// How far the nearest measure may miss before a smaller unit is used instead
+const MEASURE_TOLERANCE = 0.05;
+
+/** Nearest measurable amount ("1 1/3"), or null when it rounds away to nothing. */
+function kitchenMeasure(quantity: number, unit: string): { value: number; text: string } | null {
+  const whole = Math.floor(quantity);
+  const [fraction, label] = KITCHEN_FRACTIONS[unit].reduce((best, candidate) =>
+    Math.abs(quantity - whole - candidate[0]) < Math.abs(quantity - whole - best[0]) ? candidate : best
+  );
+  const value = whole + fraction;
+  if (value === 0) return null;
+  const wholeText = Math.floor(value) > 0 ? `${Math.floor(value)}` : '';
+  return { value, text: [wholeText, label].filter(Boolean).join(' ') };
+}
+
+function fitsMeasure(quantity: number, unit: string): boolean {
+  if (!KITCHEN_FRACTIONS[unit]) return true;
+  const measure = kitchenMeasure(quantity, unit);
+  return !!measure && Math.abs(measure.value - quantity) <= quantity * MEASURE_TOLERANCE;
+}
+
+/**
+ * Re-expresses a quantity in the most readable unit of the same system:
+ * 1500g → 1.5kg, 0.4kg → 400g, 6 tsp → 2 tbsp. Cups and spoons only take a
+ * unit they can measure closely (6 tbsp stays 6 tbsp, not "1/2 cup").
+ * Unknown units pass through.
+ */
+export function bestUnit(quantity: number, unit: string | undefined): { quantity: number; unit: string | undefined } {
+  const known = normalizeUnit(unit);
+  if (!known || known === 'dozen' || known === 'fl oz') return { quantity, unit };
+
+  const def = UNITS[known];
+  const ladder = LADDERS[`${def.family}:${def.system}`];
+  const base = quantity * def.base;
+  const step = ladder.find(s => {
+    const inUnit = base / UNITS[s.unit].base;
+    return inUnit >= s.min && fitsMeasure(inUnit, s.unit);
+  }) ?? ladder[ladder.length - 1];
+  return { quantity: base / UNITS[step.unit].base, unit: step.unit };
+}
+
+/** Whole grams and millilitres, kitchen fractions for cups and spoons, cleaner decimals for everything else. */
+export function roundQuantity(quantity: number, unit: string | undefined): number {
+  const known = normalizeUnit(unit);
+  if ((known === 'g' || known === 'ml') && quantity >= 10) return Math.round(quantity);
+  if (!known && unitFamily(unit) === 'count') return Math.max(0.5, Math.round(quantity * 2) / 2);
+  const measure = known && KITCHEN_FRACTIONS[known] ? kitchenMeasure(quantity, known) : null;
+  return measure ? measure.value : Math.round(quantity * 100) / 100;
+}
+
+export function formatQuantity(quantity: number, unit: string | undefined): string {
+  const rounded = roundQuantity(quantity, unit);
+  if (!unit) return `${rounded}`;
+  const known = normalizeUnit(unit);
+  const def = known ? UNITS[known] : undefined;
+  const label = def ? def.label ?? known : unit;
+  const plural = known === 'cup' && rounded > 1 ? 's' : '';
+  // "1 1/3 cups" rather than "1.33 cups"
+  const amount = (known && KITCHEN_FRACTIONS[known] && kitchenMeasure(quantity, known)?.text) || `${rounded}`;
+  return def && !def.spaced ? `${amount}${label}` : `${amount} ${label}${plural}`;
+}
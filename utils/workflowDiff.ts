@@ -0,0 +1,60 @@
+// ============================================
+// FILE: utils/workflowDiff.ts
+// Human-readable summary of what changed
+// between two saves of a workflow. Stored on
+// each workflow version for the history view.
+// ============================================
+
+import type { Step, Workflow } from '../services/database';
+
+const STEP_FIELDS: (keyof Step)[] = [
+  'title', 'description', 'timerMinutes', 'intervalTimer', 'retardHours', 'ingredients', 'checklist',
+  'videoUrl', 'targetTemp', 'visualCues', 'confirmationRequired', 'components',
+];
+
+function stepChanged(a: Step, b: Step): boolean {
+  return STEP_FIELDS.some(field => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null));
+}
+
+function formulaChanged(a: Workflow, b: Workflow): boolean {
+  return JSON.stringify(a.formula ?? null) !== JSON.stringify(b.formula ?? null);
+}
+
+/** True when the name or any step content differs. Ignores runtime fields like `completed`. */
+export function workflowContentChanged(previous: Workflow, next: Workflow): boolean {
+  if (previous.name !== next.name) return true;
+  if (formulaChanged(previous, next)) return true;
+  if (previous.steps.length !== next.steps.length) return true;
+  return previous.steps.some((step, i) => step.id !== next.steps[i].id || stepChanged(step, next.steps[i]));
+}
+
+export function summarizeWorkflowChanges(previous: Workflow | undefined, next: Workflow): string {
+  if (!previous) return `Created with ${next.steps.length} step${next.steps.length === 1 ? '' : 's'}`;
+
+  const changes: string[] = [];
+  if (previous.name !== next.name) changes.push(`Renamed from "${previous.name}"`);
+
+  const previousById = new Map(previous.steps.map(step => [step.id, step]));
+  const nextIds = new Set(next.steps.map(step => step.id));
+
+  const added = next.steps.filter(step => !previousById.has(step.id));
+  const removed = previous.steps.filter(step => !nextIds.has(step.id));
+  const edited = next.steps.filter(step => {
+    const before = previousById.get(step.id);
+    return before && stepChanged(before, step);
+  });
+
+  const keptOrder = (steps: Step[], keep: (id: string) => boolean) =>
+    steps.filter(step => keep(step.id)).map(step => step.id).join('|');
+  const reordered =
+    keptOrder(previous.steps, id => nextIds.has(id)) !== keptOrder(next.steps, id => previousById.has(id));
+
+  const titles = (steps: Step[]) => steps.map(step => `"${step.title}"`).join(', ');
+  if (added.length > 0) changes.push(`Added ${titles(added)}`);
+  if (removed.length > 0) changes.push(`Removed ${titles(removed)}`);
+  if (edited.length > 0) changes.push(`Edited ${titles(edited)}`);
+  if (reordered) changes.push('Reordered steps');
+  if (formulaChanged(previous, next)) changes.push("Edited baker's formula");
+
+  return changes.length > 0 ? changes.join('; ') : 'No content changes';
+}
@@ -0,0 +1,81 @@
+// ============================================
+// FILE: utils/workflowSearch.ts
+// Filters workflows by free text, category and
+// tags. Text matches the name, description,
+// category, tags, ingredients and step content.
+// ============================================
+
+import type { Workflow } from '../services/database';
+import { formatIngredient } from './ingredients';
+
+/** Offered in the editor before a location has categories of its own. */
+export const DEFAULT_CATEGORIES = ['Bread', 'Viennoiserie', 'Pastry', 'Sauces', 'Opening checklist'];
+
+export interface WorkflowFilter {
+  query?: string;
+  category?: string;
+  /** A workflow must carry every one of these. */
+  tags?: string[];
+}
+
+/** Lowercase, trimmed and single-spaced so "Sour Dough " and "sour dough" are one tag. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Splits "sourdough, levain,  weekend" into distinct normalized tags. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(normalizeTag).filter(Boolean))];
+}
+
+function searchText(workflow: Workflow): string {
+  const parts: string[] = [
+    workflow.name,
+    workflow.description ?? '',
+    workflow.category ?? '',
+    ...(workflow.tags ?? []),
+    ...(workflow.ingredients ?? []).map(formatIngredient),
+  ];
+  for (const step of workflow.steps) {
+    parts.push(
+      step.title,
+      step.description,
+      step.visualCues ?? '',
+      ...(step.ingredients ?? []).map(formatIngredient),
+      ...(step.checklist ?? []),
+    );
+  }
+  return parts.join('\n').toLowerCase();
+}
+
+/** Every word of the query has to appear somewhere, in any order. */
+export function matchesWorkflow(workflow: Workflow, filter: WorkflowFilter): boolean {
+  if (filter.category && normalizeTag(workflow.category ?? '') !== normalizeTag(filter.category)) return false;
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = new Set((workflow.tags ?? []).map(normalizeTag));
+    if (!filter.tags.every(tag => tags.has(normalizeTag(tag)))) return false;
+  }
+
+  const words = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchText(workflow);
+  return words.every(word => text.includes(word));
+}
+
+export function searchWorkflows(workflows: Workflow[], filter: WorkflowFilter): Workflow[] {
+  return workflows.filter(workflow => matchesWorkflow(workflow, filter));
+}
+
+/** Categories in use, in display case, alphabetical. */
+export function collectCategories(workflows: Workflow[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const workflow of workflows) {
+    const category = workflow.category?.trim();
+    if (category && !byKey.has(normalizeTag(category))) byKey.set(normalizeTag(category), category);
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function collectTags(workflows: Workflow[]): string[] {
+  return [...new Set(workflows.flatMap(workflow => (workflow.tags ?? []).map(normalizeTag)))].sort();
+}